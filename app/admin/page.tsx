@@ -0,0 +1,12 @@
+"use client";
+import AdminPage from '../calendrier/pages/admin';
+import '../custom.scss'
+import React from 'react';
+
+
+
+export default function Admin() {
+  return (
+    <AdminPage />
+  );
+}
@@ -0,0 +1,77 @@
+// Route API /api/appointments/[id] : modification et suppression d'un rendez-vous
+// Chaque écriture doit fournir la version connue du client : si elle ne correspond plus
+// à la version enregistrée, la requête est refusée (409) avec la copie du serveur
+
+import { NextResponse } from "next/server";
+import { StoredAppointment, toStoredAppointment, updateStore } from "../../store";
+import { broadcast, CLIENT_ID_HEADER } from "../../events";
+import { validateAppointment } from "../../validation";
+import { Appointment } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Réponse 409 renvoyée lorsque le rendez-vous a été modifié entre-temps
+ * @param current Copie actuelle du serveur
+ */
+const conflictResponse = (current: StoredAppointment) =>
+  NextResponse.json(
+    { error: "Ce rendez-vous a été modifié par un autre utilisateur", current },
+    { status: 409 }
+  );
+
+/**
+ * Met à jour un rendez-vous existant (la version fournie doit être la version enregistrée)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = (await request.json().catch(() => null)) as Appointment | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Corps JSON invalide" }, { status: 400 });
+  }
+  const error = validateAppointment(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const result = await updateStore((data) => {
+    const index = data.appointments.findIndex((app) => app.id === id);
+    if (index === -1) return null;
+    const current = data.appointments[index];
+    if ((body.version ?? 0) !== (current.version ?? 0)) return { conflict: current };
+    // Une seule date modifiée doit rester cohérente avec l'autre date enregistrée
+    const invalid = validateAppointment({ ...current, ...body });
+    if (invalid) return { invalid };
+    data.appointments[index] = toStoredAppointment({ ...current, ...body, id, version: (current.version ?? 0) + 1 });
+    return { updated: data.appointments[index] };
+  });
+
+  if (!result) {
+    return NextResponse.json({ error: "Rendez-vous introuvable" }, { status: 404 });
+  }
+  if (result.conflict) return conflictResponse(result.conflict);
+  if (result.invalid) return NextResponse.json({ error: result.invalid }, { status: 400 });
+  broadcast({ type: "updated", entity: "appointment", id, appointment: result.updated, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return NextResponse.json(result.updated);
+}
+
+/**
+ * Supprime un rendez-vous (version attendue passée en paramètre ?version=)
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const version = Number(new URL(request.url).searchParams.get("version") ?? 0);
+
+  const result = await updateStore((data) => {
+    const current = data.appointments.find((app) => app.id === id);
+    if (!current) return null;
+    if (version !== (current.version ?? 0)) return { conflict: current };
+    data.appointments = data.appointments.filter((app) => app.id !== id);
+    return {};
+  });
+
+  if (!result) {
+    return NextResponse.json({ error: "Rendez-vous introuvable" }, { status: 404 });
+  }
+  if (result.conflict) return conflictResponse(result.conflict);
+  broadcast({ type: "deleted", entity: "appointment", id, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return new NextResponse(null, { status: 204 });
+}
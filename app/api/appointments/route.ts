@@ -0,0 +1,55 @@
+// Route API /api/appointments : liste et création des rendez-vous
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, toStoredAppointment, updateStore } from "../store";
+import { broadcast, CLIENT_ID_HEADER } from "../events";
+import { validateAppointment } from "../validation";
+import { Appointment } from "../../calendrier/types";
+
+/**
+ * Retourne les rendez-vous enregistrés, éventuellement limités à une période et à un calendrier
+ * Paramètres optionnels : from et to (dates ISO, période [from, to[) et calendarId
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from") ? new Date(searchParams.get("from") as string) : null;
+  const to = searchParams.get("to") ? new Date(searchParams.get("to") as string) : null;
+  const calendarId = searchParams.get("calendarId") ? Number(searchParams.get("calendarId")) : null;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (calendarId !== null && isNaN(calendarId))) {
+    return NextResponse.json({ error: "Paramètres from, to ou calendarId invalides" }, { status: 400 });
+  }
+
+  const { appointments, employees } = await readStore();
+  // Employés rattachés au calendrier demandé
+  const employeeIds = calendarId === null
+    ? null
+    : new Set(employees.filter((emp) => emp.calendarId.includes(calendarId)).map((emp) => emp.id));
+
+  return NextResponse.json(
+    appointments.filter((app) =>
+      (!from || new Date(app.endDate) > from) &&
+      (!to || new Date(app.startDate) < to) &&
+      (!employeeIds || employeeIds.has(Number(app.employeeId)))
+    )
+  );
+}
+
+/**
+ * Crée un rendez-vous (l'ID entier suivant est toujours attribué, l'ID local du client est ignoré)
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Appointment | null;
+  if (!body?.title || !body.startDate || !body.endDate) {
+    return NextResponse.json({ error: "Titre, date de début et date de fin requis" }, { status: 400 });
+  }
+  const error = validateAppointment(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const app = toStoredAppointment({ ...body, id: nextId(data.appointments), version: 1 });
+    data.appointments.push(app);
+    return app;
+  });
+  broadcast({ type: "created", entity: "appointment", id: created.id, appointment: created, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return NextResponse.json(created, { status: 201 });
+}
@@ -0,0 +1,39 @@
+// Route API /api/calendars/[id] : modification (et désactivation) d'un calendrier
+
+import { NextResponse } from "next/server";
+import { updateStore } from "../../store";
+import { INVALID_JSON_BODY, readJsonObject, validateCalendar } from "../../validation";
+import { Calendar } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour un calendrier (active: false pour le désactiver, slots: null pour les créneaux par défaut,
+ * holidayCountry / holidayRegion: null pour les fériés nationaux français)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<Calendar>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+
+  const result = await updateStore((data) => {
+    const index = data.calendars.findIndex((item) => item.id === id);
+    if (index === -1) return null;
+    const merged = { ...data.calendars[index], ...body, id };
+    // Des créneaux envoyés à null rétablissent les créneaux par défaut
+    if (body.slots === null) delete merged.slots;
+    if (body.holidayCountry === null) delete merged.holidayCountry;
+    if (body.holidayRegion === null) delete merged.holidayRegion;
+    // Une région envoyée seule doit appartenir au pays déjà enregistré (et inversement)
+    const invalid = validateCalendar(merged);
+    if (invalid) return { invalid };
+    data.calendars[index] = merged;
+    return { updated: merged };
+  });
+
+  if (!result) {
+    return NextResponse.json({ error: "Calendrier introuvable" }, { status: 404 });
+  }
+  if (result.invalid) return NextResponse.json({ error: result.invalid }, { status: 400 });
+  return NextResponse.json(result.updated);
+}
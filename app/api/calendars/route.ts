@@ -0,0 +1,34 @@
+// Route API /api/calendars : liste et création des calendriers
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, updateStore } from "../store";
+import { INVALID_JSON_BODY, readJsonObject, validateCalendar } from "../validation";
+import { Calendar } from "../../calendrier/types";
+
+/**
+ * Retourne tous les calendriers (actifs et désactivés)
+ */
+export async function GET() {
+  const { calendars } = await readStore();
+  return NextResponse.json(calendars);
+}
+
+/**
+ * Crée un calendrier
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<Calendar>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = body.name === undefined ? "Le nom est requis" : validateCalendar(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const calendar: Calendar = { ...body, id: nextId(data.calendars), active: body.active ?? true };
+    if (!calendar.slots) delete calendar.slots; // Créneaux par défaut
+    if (!calendar.holidayCountry) delete calendar.holidayCountry; // Fériés nationaux français
+    if (!calendar.holidayRegion) delete calendar.holidayRegion;
+    data.calendars.push(calendar);
+    return calendar;
+  });
+  return NextResponse.json(created, { status: 201 });
+}
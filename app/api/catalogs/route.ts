@@ -0,0 +1,12 @@
+// Route API /api/catalogs : catalogues de chantiers, absences et autres événements
+
+import { NextResponse } from "next/server";
+import { readStore } from "../store";
+
+/**
+ * Retourne les trois catalogues proposés à la création d'un rendez-vous
+ */
+export async function GET() {
+  const { catalogs } = await readStore();
+  return NextResponse.json(catalogs);
+}
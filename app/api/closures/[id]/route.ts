@@ -0,0 +1,31 @@
+// Route API /api/closures/[id] : modification (et désactivation) d'un calendrier de fermetures
+
+import { NextResponse } from "next/server";
+import { updateStore } from "../../store";
+import { INVALID_JSON_BODY, readJsonObject, validateClosure } from "../../validation";
+import { ClosureCalendar } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour un calendrier de fermetures (active: false pour le désactiver)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<ClosureCalendar>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = validateClosure(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const updated = await updateStore((data) => {
+    const index = data.closures.findIndex((item) => item.id === id);
+    if (index === -1) return null;
+    data.closures[index] = { ...data.closures[index], ...body, id };
+    return data.closures[index];
+  });
+
+  if (!updated) {
+    return NextResponse.json({ error: "Calendrier de fermetures introuvable" }, { status: 404 });
+  }
+  return NextResponse.json(updated);
+}
@@ -0,0 +1,38 @@
+// Route API /api/closures : liste et création des calendriers de fermetures
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, updateStore } from "../store";
+import { INVALID_JSON_BODY, readJsonObject, validateClosure } from "../validation";
+import { ClosureCalendar } from "../../calendrier/types";
+
+/**
+ * Retourne tous les calendriers de fermetures (actifs et désactivés)
+ */
+export async function GET() {
+  const { closures } = await readStore();
+  return NextResponse.json(closures);
+}
+
+/**
+ * Crée un calendrier de fermetures
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<ClosureCalendar>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = body.name === undefined ? "Le nom est requis" : validateClosure(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const closure: ClosureCalendar = {
+      ...body,
+      id: nextId(data.closures),
+      periods: body.periods ?? [],
+      calendarIds: body.calendarIds ?? [],
+      teamIds: body.teamIds ?? [],
+      active: body.active ?? true,
+    };
+    data.closures.push(closure);
+    return closure;
+  });
+  return NextResponse.json(created, { status: 201 });
+}
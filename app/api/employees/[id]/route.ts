@@ -0,0 +1,37 @@
+// Route API /api/employees/[id] : modification (et désactivation) d'un employé
+
+import { NextResponse } from "next/server";
+import { updateStore } from "../../store";
+import { INVALID_JSON_BODY, readJsonObject, validateEmployee } from "../../validation";
+import { Employee } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour un employé (active: false pour le désactiver)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<Employee>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = validateEmployee(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const result = await updateStore((data) => {
+    const index = data.employees.findIndex((emp) => emp.id === id);
+    if (index === -1) return null;
+    if (body.groupId != null && !data.teams.some((team) => team.id === body.groupId)) return { invalid: "Équipe inconnue" };
+    data.employees[index] = { ...data.employees[index], ...body, id };
+    // Une date de contrat envoyée à null est retirée
+    (["contractStart", "contractEnd"] as const).forEach((key) => {
+      if (body[key] === null) delete data.employees[index][key];
+    });
+    return { updated: data.employees[index] };
+  });
+
+  if (!result) {
+    return NextResponse.json({ error: "Employé introuvable" }, { status: 404 });
+  }
+  if (result.invalid) return NextResponse.json({ error: result.invalid }, { status: 400 });
+  return NextResponse.json(result.updated);
+}
@@ -0,0 +1,39 @@
+// Route API /api/employees : liste et création des employés
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, updateStore } from "../store";
+import { INVALID_JSON_BODY, readJsonObject, validateEmployee } from "../validation";
+import { Employee } from "../../calendrier/types";
+
+/**
+ * Retourne tous les employés (actifs et désactivés)
+ */
+export async function GET() {
+  const { employees } = await readStore();
+  return NextResponse.json(employees);
+}
+
+/**
+ * Crée un employé
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<Employee>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = !body.name ? "Le nom est requis" : validateEmployee(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const result = await updateStore((data) => {
+    if (body.groupId != null && !data.teams.some((team) => team.id === body.groupId)) return { invalid: "Équipe inconnue" };
+    const employee: Employee = {
+      ...body,
+      id: nextId(data.employees),
+      contrat: body.contrat ?? "CDI",
+      calendarId: body.calendarId ?? [],
+      active: body.active ?? true,
+    };
+    data.employees.push(employee);
+    return { created: employee };
+  });
+  if (result.invalid) return NextResponse.json({ error: result.invalid }, { status: 400 });
+  return NextResponse.json(result.created, { status: 201 });
+}
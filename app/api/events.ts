@@ -0,0 +1,54 @@
+// Diffusion des modifications du planning aux clients connectés (Server-Sent Events)
+// Le bus est conservé sur globalThis pour être partagé entre les routes compilées séparément
+
+import { StoredAppointment, StoredRecurrence } from "./store";
+
+/**
+ * Modification d'un rendez-vous ou d'une récurrence diffusée aux autres clients
+ */
+export interface PlanningChangeEvent {
+  type: "created" | "updated" | "deleted";
+  entity: "appointment" | "recurrence"; // Nature de l'élément modifié
+  id: number; // ID de l'élément concerné
+  appointment?: StoredAppointment; // Copie enregistrée d'un rendez-vous (absente pour une suppression)
+  recurrence?: StoredRecurrence; // Copie enregistrée d'une récurrence (absente pour une suppression)
+  clientId?: string | null; // Client à l'origine de la modification (pour qu'il ignore son propre événement)
+}
+
+/**
+ * Planning modifié en bloc (import d'une sauvegarde) : les clients rechargent toutes les données
+ */
+export interface PlanningReloadEvent {
+  type: "reload";
+  clientId?: string | null;
+}
+
+export type PlanningEvent = PlanningChangeEvent | PlanningReloadEvent;
+
+type Listener = (event: PlanningEvent) => void;
+
+// En-tête HTTP identifiant l'onglet qui effectue une écriture
+export const CLIENT_ID_HEADER = "X-Client-Id";
+
+const globalForEvents = globalThis as unknown as { planningListeners?: Set<Listener> };
+const listeners = (globalForEvents.planningListeners ??= new Set<Listener>());
+
+/**
+ * Abonne un client aux modifications du planning
+ * @param listener Fonction appelée pour chaque événement
+ * @returns Fonction de désabonnement
+ */
+export const subscribe = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Diffuse une modification à tous les clients abonnés
+ * @param event Événement à diffuser
+ */
+export const broadcast = (event: PlanningEvent): void => {
+  listeners.forEach(listener => listener(event));
+};
@@ -0,0 +1,48 @@
+// Route API /api/events : flux Server-Sent Events des modifications de rendez-vous et de récurrences
+
+import { subscribe } from "../events";
+
+export const dynamic = "force-dynamic";
+
+// Intervalle des commentaires envoyés pour garder la connexion ouverte
+const KEEP_ALIVE_MS = 25000;
+
+/**
+ * Ouvre un flux d'événements qui reste actif jusqu'à la déconnexion du client
+ */
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close(); // Flux déjà fermé
+        }
+      };
+      const unsubscribe = subscribe((event) => send(`data: ${JSON.stringify(event)}\n\n`));
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEP_ALIVE_MS);
+      const close = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Déjà fermé
+        }
+      };
+      request.signal.addEventListener("abort", close);
+      send(": connected\n\n");
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
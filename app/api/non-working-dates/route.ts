@@ -0,0 +1,29 @@
+// Route API /api/non-working-dates : dates non travaillées saisies dans les paramètres
+
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "../store";
+import { isDateKey } from "../validation";
+
+/**
+ * Retourne les dates non travaillées (yyyy-MM-dd)
+ */
+export async function GET() {
+  const { nonWorkingDates } = await readStore();
+  return NextResponse.json(nonWorkingDates);
+}
+
+/**
+ * Remplace la liste des dates non travaillées
+ */
+export async function PUT(request: Request) {
+  const body: unknown = await request.json().catch(() => null);
+  if (!Array.isArray(body) || !body.every(isDateKey)) {
+    return NextResponse.json({ error: "Liste de dates yyyy-MM-dd attendue" }, { status: 400 });
+  }
+
+  const saved = await updateStore((data) => {
+    data.nonWorkingDates = [...new Set(body as string[])].sort();
+    return data.nonWorkingDates;
+  });
+  return NextResponse.json(saved);
+}
@@ -0,0 +1,37 @@
+// Route API /api/planning-rules : règles de planification saisies dans les paramètres
+
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "../store";
+import { validatePlanningRule } from "../validation";
+import { PlanningRule } from "../../calendrier/types";
+
+/**
+ * Retourne les règles de planification
+ */
+export async function GET() {
+  const { planningRules } = await readStore();
+  return NextResponse.json(planningRules);
+}
+
+/**
+ * Remplace la liste des règles de planification
+ * 400 si le corps n'est pas une liste JSON, si une règle est invalide ou si deux règles partagent un ID
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body)) {
+    return NextResponse.json({ error: "Liste de règles attendue" }, { status: 400 });
+  }
+  const error = (body as PlanningRule[]).map(validatePlanningRule).find((message) => message !== null);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+  const ids = (body as PlanningRule[]).map((rule) => rule.id);
+  if (new Set(ids).size !== ids.length) {
+    return NextResponse.json({ error: "Deux règles ne peuvent pas avoir le même ID" }, { status: 400 });
+  }
+
+  const saved = await updateStore((data) => {
+    data.planningRules = body as PlanningRule[];
+    return data.planningRules;
+  });
+  return NextResponse.json(saved);
+}
@@ -0,0 +1,52 @@
+// Route API /api/recurrences/[id] : modification et suppression d'une récurrence
+
+import { NextResponse } from "next/server";
+import { toStoredRecurrence, updateStore } from "../../store";
+import { broadcast, CLIENT_ID_HEADER } from "../../events";
+import { INVALID_JSON_BODY, readJsonObject, validateRecurrence } from "../../validation";
+import { Recurrence } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour une récurrence (règle, modèle ou exceptions)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<Recurrence>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = validateRecurrence(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const updated = await updateStore((data) => {
+    const index = data.recurrences.findIndex((rec) => rec.id === id);
+    if (index === -1) return null;
+    data.recurrences[index] = toStoredRecurrence({ ...data.recurrences[index], ...body, id } as Recurrence);
+    return data.recurrences[index];
+  });
+
+  if (!updated) {
+    return NextResponse.json({ error: "Récurrence introuvable" }, { status: 404 });
+  }
+  broadcast({ type: "updated", entity: "recurrence", id, recurrence: updated, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return NextResponse.json(updated);
+}
+
+/**
+ * Supprime une récurrence et toutes ses occurrences
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+
+  const deleted = await updateStore((data) => {
+    const before = data.recurrences.length;
+    data.recurrences = data.recurrences.filter((rec) => rec.id !== id);
+    return data.recurrences.length < before;
+  });
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Récurrence introuvable" }, { status: 404 });
+  }
+  broadcast({ type: "deleted", entity: "recurrence", id, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,38 @@
+// Route API /api/recurrences : liste et création des récurrences
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, toStoredRecurrence, updateStore } from "../store";
+import { broadcast, CLIENT_ID_HEADER } from "../events";
+import { INVALID_JSON_BODY, readJsonObject, validateRecurrence } from "../validation";
+import { Recurrence } from "../../calendrier/types";
+
+/**
+ * Retourne toutes les récurrences (les occurrences sont calculées côté client)
+ */
+export async function GET() {
+  const { recurrences } = await readStore();
+  return NextResponse.json(recurrences);
+}
+
+/**
+ * Crée une récurrence (l'ID fourni par le client est conservé s'il est libre)
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<Recurrence>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = !body.rrule || !body.dtStart || !body.template
+    ? "Règle, date de début et modèle requis"
+    : validateRecurrence(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const id = body.id && !data.recurrences.some((rec) => rec.id === body.id)
+      ? body.id
+      : nextId(data.recurrences);
+    const recurrence = toStoredRecurrence({ ...body, id });
+    data.recurrences.push(recurrence);
+    return recurrence;
+  });
+  broadcast({ type: "created", entity: "recurrence", id: created.id, recurrence: created, clientId: request.headers.get(CLIENT_ID_HEADER) });
+  return NextResponse.json(created, { status: 201 });
+}
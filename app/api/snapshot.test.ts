@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { buildSnapshot, importSnapshot, SNAPSHOT_SCHEMA_VERSION, SnapshotFile, validateSnapshotHeader, validateSnapshotIds } from "./snapshot";
+import { StoreData, StoredAppointment, StoredRecurrence } from "./store";
+import { Employee } from "../calendrier/types";
+
+const employee = (id: number): Employee => ({ id, name: `Employé ${id}`, contrat: "CDI", calendarId: [1] });
+
+const appointment = (id: number, employeeId: number): StoredAppointment => ({
+  id,
+  title: `Rendez-vous ${id}`,
+  description: "",
+  startDate: "2025-01-06T08:00:00.000Z",
+  endDate: "2025-01-06T12:00:00.000Z",
+  employeeId,
+  type: "Chantier",
+  version: 1,
+});
+
+const recurrence = (id: number, employeeId: number): StoredRecurrence => ({
+  id,
+  rrule: "FREQ=WEEKLY;INTERVAL=1;COUNT=3",
+  dtStart: "2025-01-06T08:00:00.000Z",
+  duration: 4 * 3600000,
+  template: { title: "Réunion", description: "", employeeId, type: "Autre" },
+  exceptions: [],
+});
+
+// Stockage avec deux employés, un rendez-vous et une récurrence chacun
+const makeStore = (): StoreData => ({
+  appointments: [appointment(1, 1), appointment(2, 2)],
+  recurrences: [recurrence(1, 1), recurrence(2, 2)],
+  employees: [employee(1), employee(2)],
+  teams: [{ id: 1, name: "Équipe A" }],
+  calendars: [{ id: 1, name: "BOUTIQUE" }],
+  catalogs: { chantier: [], absences: [], autres: [] },
+  nonWorkingDates: ["2025-05-01"],
+  planningRules: [],
+  closures: [],
+  templates: [],
+  staffingNeeds: [],
+});
+
+const file = (content: Partial<SnapshotFile>): Partial<SnapshotFile> => ({ schemaVersion: SNAPSHOT_SCHEMA_VERSION, ...content });
+
+describe("validateSnapshotHeader", () => {
+  it("accepte un fichier exporté", () => {
+    expect(validateSnapshotHeader(buildSnapshot(makeStore()))).toBeNull();
+  });
+
+  it("refuse un contenu qui n'est pas un objet ou sans version prise en charge", () => {
+    expect(validateSnapshotHeader(null)).not.toBeNull();
+    expect(validateSnapshotHeader([])).not.toBeNull();
+    expect(validateSnapshotHeader({})).not.toBeNull();
+    expect(validateSnapshotHeader({ schemaVersion: SNAPSHOT_SCHEMA_VERSION + 1 })).not.toBeNull();
+  });
+});
+
+describe("validateSnapshotIds", () => {
+  it("accepte des ID uniques dans chaque collection", () => {
+    expect(validateSnapshotIds(buildSnapshot(makeStore()))).toBeNull();
+  });
+
+  it("refuse un ID en double dans une collection", () => {
+    expect(validateSnapshotIds(file({ appointments: [appointment(3, 1), appointment(3, 2)] })))
+      .toBe("ID 3 en double dans la collection appointments");
+    expect(validateSnapshotIds(file({ catalogs: { chantier: [{ id: 1, label: "A" }, { id: 1, label: "B" }], absences: [], autres: [] } })))
+      .toBe("ID 1 en double dans la collection catalogs.chantier");
+  });
+});
+
+describe("importSnapshot", () => {
+  it("réimporte une sauvegarde à l'identique en remplacement", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, buildSnapshot(makeStore()), "replace");
+    expect(report.errors).toEqual([]);
+    expect(data.employees).toEqual(makeStore().employees);
+    expect(data.appointments.map(app => app.id)).toEqual([1, 2]);
+  });
+
+  it("fusionne par ID et incrémente la version des rendez-vous importés", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, file({ appointments: [{ ...appointment(2, 1), title: "Modifié" }, appointment(3, 2)] }), "merge");
+    expect(report.imported).toEqual({ appointments: 2 });
+    expect(data.appointments.map(app => [app.id, app.title, app.version])).toEqual([
+      [1, "Rendez-vous 1", 1],
+      [2, "Modifié", 2],
+      [3, "Rendez-vous 3", 1],
+    ]);
+  });
+
+  it("ignore et signale les enregistrements invalides", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, file({
+      appointments: [appointment(1.5, 1), appointment(0, 1), appointment(3, 9), null as unknown as StoredAppointment, appointment(4, 1)],
+    }), "merge");
+    expect(report.imported.appointments).toBe(1);
+    expect(report.errors.map(error => [error.index, error.message])).toEqual([
+      [0, "ID invalide"],
+      [1, "ID invalide"],
+      [2, "Employé 9 inconnu"],
+      [3, "Enregistrement invalide"],
+    ]);
+    expect(data.appointments.map(app => app.id)).toEqual([1, 2, 4]);
+  });
+
+  it("valide les rendez-vous importés par rapport aux employés de la sauvegarde en remplacement", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, file({ employees: [employee(2)], appointments: [appointment(5, 1), appointment(6, 2)] }), "replace");
+    expect(report.errors).toContainEqual({ collection: "appointments", index: 0, id: 5, message: "Employé 1 inconnu" });
+    expect(data.appointments.map(app => app.id)).toEqual([6]);
+  });
+
+  it("retire en remplacement les rendez-vous et récurrences conservés d'un employé absent de la sauvegarde", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, file({ employees: [employee(2)] }), "replace");
+    expect(data.appointments.map(app => app.id)).toEqual([2]);
+    expect(data.recurrences.map(rec => rec.id)).toEqual([2]);
+    expect(report.errors.map(error => [error.collection, error.id])).toEqual([["appointments", 1], ["recurrences", 1]]);
+  });
+
+  it("conserve en fusion les collections absentes du fichier", () => {
+    const data = makeStore();
+    const report = importSnapshot(data, file({ employees: [employee(3)] }), "merge");
+    expect(report.errors).toEqual([]);
+    expect(data.employees.map(emp => emp.id)).toEqual([1, 2, 3]);
+    expect(data.appointments.map(app => app.id)).toEqual([1, 2]);
+    expect(data.nonWorkingDates).toEqual(["2025-05-01"]);
+  });
+});
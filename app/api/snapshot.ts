@@ -0,0 +1,278 @@
+// Sauvegarde complète du planning (export / import JSON versionné)
+// Les dates sont sérialisées en ISO 8601 ; chaque enregistrement est validé individuellement à l'import
+
+import { Calendar, CatalogItem, Catalogs, ClosureCalendar, Employee, Groupe, PlanningRule, PlanningTemplate, SnapshotImportError, SnapshotImportReport, StaffingNeed } from "../calendrier/types";
+import { StoreData, StoredAppointment, StoredRecurrence, toStoredAppointment, toStoredRecurrence } from "./store";
+import { isDateKey, isIsoDateTime, validateAppointment, validateCalendar, validateClosure, validateEmployee, validatePlanningRule, validateRecurrence, validateStaffingNeed, validateTemplate } from "./validation";
+
+// Version du format de sauvegarde (à incrémenter à chaque changement incompatible)
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
+const APPOINTMENT_TYPES = ["Chantier", "Absence", "Autre"];
+
+/**
+ * Contenu d'un fichier de sauvegarde
+ */
+export interface SnapshotFile {
+  schemaVersion: number;
+  exportedAt: string; // Date ISO de l'export
+  employees: Employee[];
+  teams: Groupe[];
+  calendars: Calendar[];
+  catalogs: Catalogs;
+  nonWorkingDates: string[]; // yyyy-MM-dd
+  planningRules: PlanningRule[];
+  closures?: ClosureCalendar[]; // Absent des sauvegardes antérieures aux calendriers de fermetures
+  templates?: PlanningTemplate[]; // Absent des sauvegardes antérieures aux modèles de planning
+  staffingNeeds?: StaffingNeed[]; // Absent des sauvegardes antérieures au solveur de planning
+  appointments: StoredAppointment[];
+  recurrences: StoredRecurrence[];
+}
+
+/**
+ * Construit le fichier de sauvegarde à partir du stockage
+ * @param data Données du planning
+ */
+export const buildSnapshot = (data: StoreData): SnapshotFile => ({
+  schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  employees: data.employees,
+  teams: data.teams,
+  calendars: data.calendars,
+  catalogs: data.catalogs,
+  nonWorkingDates: data.nonWorkingDates,
+  planningRules: data.planningRules,
+  closures: data.closures,
+  templates: data.templates,
+  staffingNeeds: data.staffingNeeds,
+  appointments: data.appointments,
+  recurrences: data.recurrences,
+});
+
+/**
+ * Vérifie l'en-tête du fichier (objet JSON et version du format)
+ * @param file Contenu reçu
+ * @returns Message d'erreur, ou null si le fichier peut être importé
+ */
+export const validateSnapshotHeader = (file: unknown): string | null => {
+  if (!file || typeof file !== "object" || Array.isArray(file)) return "Le fichier doit contenir un objet JSON";
+  const { schemaVersion } = file as Partial<SnapshotFile>;
+  if (typeof schemaVersion !== "number") return "Version du format (schemaVersion) manquante";
+  if (schemaVersion > SNAPSHOT_SCHEMA_VERSION) {
+    return `Version du format ${schemaVersion} non prise en charge (maximum ${SNAPSHOT_SCHEMA_VERSION})`;
+  }
+  return null;
+};
+
+/**
+ * Vérifie qu'aucune collection du fichier ne contient deux fois le même ID
+ * (l'import par ID ne saurait pas lequel des enregistrements conserver)
+ * @param file Contenu du fichier (en-tête déjà validé)
+ * @returns Message d'erreur, ou null si les ID sont uniques dans chaque collection
+ */
+export const validateSnapshotIds = (file: Partial<SnapshotFile>): string | null => {
+  const catalogs: Partial<Catalogs> = file.catalogs && typeof file.catalogs === "object" ? file.catalogs : {};
+  const collections: Record<string, unknown> = {
+    employees: file.employees,
+    teams: file.teams,
+    calendars: file.calendars,
+    "catalogs.chantier": catalogs.chantier,
+    "catalogs.absences": catalogs.absences,
+    "catalogs.autres": catalogs.autres,
+    planningRules: file.planningRules,
+    closures: file.closures,
+    templates: file.templates,
+    staffingNeeds: file.staffingNeeds,
+    appointments: file.appointments,
+    recurrences: file.recurrences,
+  };
+  for (const [collection, records] of Object.entries(collections)) {
+    if (!Array.isArray(records)) continue; // Collection absente ou mal formée : signalée à l'import
+    const seen = new Set<unknown>();
+    for (const record of records) {
+      const id = (record as { id?: unknown })?.id;
+      if (id === undefined) continue;
+      if (seen.has(id)) return `ID ${id} en double dans la collection ${collection}`;
+      seen.add(id);
+    }
+  }
+  return null;
+};
+
+const hasId = (record: { id?: unknown }) => Number.isInteger(record.id) && (record.id as number) > 0;
+
+// --- Validation enregistrement par enregistrement ---
+
+const validateEmployeeRecord = (record: Employee): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.name !== "string" ? "Le nom est requis"
+    : !record.contrat ? "Type de contrat requis"
+    : !Array.isArray(record.calendarId) ? "calendarId doit être une liste"
+    : validateEmployee(record);
+
+const validateNamedRecord = (record: Groupe | Calendar): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.name !== "string" || !record.name.trim() ? "Le nom est requis"
+    : null;
+
+const validateCalendarRecord = (record: Calendar): string | null => validateNamedRecord(record) ?? validateCalendar(record);
+
+const validateClosureRecord = (record: ClosureCalendar): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.name !== "string" || !record.name.trim() ? "Le nom est requis"
+    : !Array.isArray(record.periods) || !Array.isArray(record.calendarIds) || !Array.isArray(record.teamIds)
+      ? "Périodes, calendriers et équipes requis"
+      : validateClosure(record);
+
+const validateTemplateRecord = (record: PlanningTemplate): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.name !== "string" || !record.name.trim() ? "Le nom est requis"
+    : !Array.isArray(record.rows) || !Array.isArray(record.assignments) ? "Lignes et affectations requises"
+    : validateTemplate(record);
+
+const validateCatalogRecord = (record: CatalogItem): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.label !== "string" || !record.label.trim() ? "Le libellé est requis"
+    : null;
+
+const validateAppointmentRecord = (employeeIds: Set<number>) => (record: StoredAppointment): string | null => {
+  if (!hasId(record)) return "ID invalide";
+  if (typeof record.title !== "string" || !record.title) return "Le titre est requis";
+  if (!isIsoDateTime(record.startDate) || !isIsoDateTime(record.endDate)) return "Dates de début et de fin ISO requises";
+  if (!APPOINTMENT_TYPES.includes(record.type)) return "Type de rendez-vous invalide";
+  if (!employeeIds.has(Number(record.employeeId))) return `Employé ${record.employeeId} inconnu`;
+  return validateAppointment(record);
+};
+
+const validateRecurrenceRecord = (employeeIds: Set<number>) => (record: StoredRecurrence): string | null =>
+  !hasId(record) ? "ID invalide"
+    : typeof record.rrule !== "string" || !isIsoDateTime(record.dtStart) || !record.template
+      ? "Règle, date de début ISO et modèle requis"
+      : !employeeIds.has(Number(record.template.employeeId)) ? `Employé ${record.template.employeeId} inconnu`
+      : validateRecurrence({ ...record, dtStart: new Date(record.dtStart) });
+
+/**
+ * Valide une collection du fichier et retourne les enregistrements valides
+ * @param collection Nom de la collection (pour le compte rendu)
+ * @param records Valeur lue dans le fichier
+ * @param validate Validation d'un enregistrement
+ * @param errors Liste des erreurs à compléter
+ */
+const collectValid = <T,>(
+  collection: string,
+  records: unknown,
+  validate: (record: T) => string | null,
+  errors: SnapshotImportError[]
+): T[] | null => {
+  if (records === undefined) return null; // Collection absente : rien à importer
+  if (!Array.isArray(records)) {
+    errors.push({ collection, index: -1, message: "La collection doit être une liste" });
+    return null;
+  }
+  const valid: T[] = [];
+  records.forEach((record, index) => {
+    let message: string | null;
+    try {
+      message = validate(record as T);
+    } catch {
+      message = "Enregistrement invalide"; // Valeur qui n'a pas la forme attendue (null, nombre...)
+    }
+    if (message) {
+      const id = (record as { id?: unknown })?.id;
+      errors.push({ collection, index, id: typeof id === "number" ? id : undefined, message });
+    } else {
+      valid.push(record as T);
+    }
+  });
+  return valid;
+};
+
+/**
+ * Fusionne (remplace les ID existants, ajoute les nouveaux) ou remplace une collection
+ * @param current Collection actuelle
+ * @param incoming Enregistrements importés
+ * @param mode Mode d'import
+ */
+const mergeById = <T extends { id: number }>(current: T[], incoming: T[], mode: "merge" | "replace"): T[] => {
+  if (mode === "replace") return incoming;
+  const incomingIds = new Set(incoming.map(item => item.id));
+  return [...current.filter(item => !incomingIds.has(item.id)), ...incoming];
+};
+
+/**
+ * Importe une sauvegarde dans le stockage (modifie data)
+ * Les enregistrements invalides sont ignorés et signalés ; les autres sont importés.
+ * @param data Données du planning à modifier
+ * @param file Contenu du fichier (en-tête déjà validé)
+ * @param mode "merge" : ajoute ou met à jour par ID ; "replace" : remplace chaque collection présente dans le fichier
+ * @returns Compte rendu de l'import
+ */
+export const importSnapshot = (data: StoreData, file: Partial<SnapshotFile>, mode: "merge" | "replace"): SnapshotImportReport => {
+  const errors: SnapshotImportError[] = [];
+  const imported: Record<string, number> = {};
+  const apply = <T extends { id: number }>(
+    collection: string,
+    records: unknown,
+    validate: (record: T) => string | null,
+    current: T[]
+  ): T[] => {
+    const valid = collectValid(collection, records, validate, errors);
+    if (!valid) return current;
+    imported[collection] = valid.length;
+    return mergeById(current, valid, mode);
+  };
+
+  // Référentiels d'abord : les rendez-vous et récurrences sont validés par rapport aux employés résultants
+  data.teams = apply("teams", file.teams, validateNamedRecord, data.teams);
+  data.calendars = apply("calendars", file.calendars, validateCalendarRecord, data.calendars);
+  data.employees = apply("employees", file.employees, validateEmployeeRecord, data.employees);
+
+  if (file.catalogs !== undefined) {
+    const { catalogs } = file;
+    if (!catalogs || typeof catalogs !== "object") {
+      errors.push({ collection: "catalogs", index: -1, message: "Les catalogues doivent être un objet" });
+    } else {
+      (["chantier", "absences", "autres"] as const).forEach(name => {
+        data.catalogs[name] = apply(`catalogs.${name}`, catalogs[name], validateCatalogRecord, data.catalogs[name]);
+      });
+    }
+  }
+
+  const dates = collectValid<string>("nonWorkingDates", file.nonWorkingDates, date => isDateKey(date) ? null : "Date yyyy-MM-dd attendue", errors);
+  if (dates) {
+    imported.nonWorkingDates = dates.length;
+    data.nonWorkingDates = [...new Set(mode === "replace" ? dates : [...data.nonWorkingDates, ...dates])].sort();
+  }
+
+  data.planningRules = apply("planningRules", file.planningRules, validatePlanningRule, data.planningRules);
+  data.closures = apply("closures", file.closures, validateClosureRecord, data.closures);
+  data.templates = apply("templates", file.templates, validateTemplateRecord, data.templates);
+  data.staffingNeeds = apply("staffingNeeds", file.staffingNeeds, validateStaffingNeed, data.staffingNeeds);
+
+  const employeeIds = new Set(data.employees.map(emp => emp.id));
+  // Les rendez-vous importés reçoivent une nouvelle version pour que les copies ouvertes ailleurs soient en conflit
+  const versions = new Map(data.appointments.map(app => [app.id, app.version ?? 0]));
+  const fromFile = new Set(Array.isArray(file.appointments) ? file.appointments : []);
+  data.appointments = apply("appointments", file.appointments, validateAppointmentRecord(employeeIds), data.appointments)
+    .map(app => fromFile.has(app)
+      ? toStoredAppointment({ ...app, version: (versions.get(app.id) ?? 0) + 1 })
+      : app);
+  data.recurrences = apply("recurrences", file.recurrences, validateRecurrenceRecord(employeeIds), data.recurrences)
+    .map(rec => toStoredRecurrence(rec));
+
+  // Remplacement : les rendez-vous et récurrences conservés dont l'employé n'est plus dans la sauvegarde sont retirés
+  if (mode === "replace") {
+    data.appointments = data.appointments.filter(app => {
+      if (employeeIds.has(Number(app.employeeId))) return true;
+      errors.push({ collection: "appointments", index: -1, id: app.id, message: `Employé ${app.employeeId} absent de la sauvegarde : rendez-vous retiré` });
+      return false;
+    });
+    data.recurrences = data.recurrences.filter(rec => {
+      if (employeeIds.has(Number(rec.template.employeeId))) return true;
+      errors.push({ collection: "recurrences", index: -1, id: rec.id, message: `Employé ${rec.template.employeeId} absent de la sauvegarde : récurrence retirée` });
+      return false;
+    });
+  }
+
+  return { mode, imported, errors };
+};
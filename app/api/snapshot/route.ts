@@ -0,0 +1,40 @@
+// Route API /api/snapshot : export et import de la sauvegarde complète du planning
+
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "../store";
+import { broadcast, CLIENT_ID_HEADER } from "../events";
+import { buildSnapshot, importSnapshot, SnapshotFile, validateSnapshotHeader, validateSnapshotIds } from "../snapshot";
+
+/**
+ * Télécharge la sauvegarde complète (fichier JSON)
+ */
+export async function GET() {
+  const snapshot = buildSnapshot(await readStore());
+  return new NextResponse(JSON.stringify(snapshot, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="planning-${snapshot.exportedAt.slice(0, 10)}.json"`,
+    },
+  });
+}
+
+/**
+ * Importe une sauvegarde (paramètre ?mode=merge par défaut, ou ?mode=replace), refusée si une collection contient un ID en double
+ * Retourne le compte rendu avec les erreurs enregistrement par enregistrement ;
+ * les clients connectés sont invités à recharger le planning si des données ont été importées
+ */
+export async function POST(request: Request) {
+  const mode = new URL(request.url).searchParams.get("mode") ?? "merge";
+  if (mode !== "merge" && mode !== "replace") {
+    return NextResponse.json({ error: "Mode d'import invalide (merge ou replace)" }, { status: 400 });
+  }
+  const file = await request.json().catch(() => null);
+  const error = validateSnapshotHeader(file) ?? validateSnapshotIds(file as Partial<SnapshotFile>);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const report = await updateStore((data) => importSnapshot(data, file as Partial<SnapshotFile>, mode));
+  if (Object.keys(report.imported).length > 0) {
+    broadcast({ type: "reload", clientId: request.headers.get(CLIENT_ID_HEADER) });
+  }
+  return NextResponse.json(report);
+}
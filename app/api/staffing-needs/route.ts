@@ -0,0 +1,37 @@
+// Route API /api/staffing-needs : besoins en personnel des chantiers, utilisés par le solveur de planning
+
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "../store";
+import { validateStaffingNeed } from "../validation";
+import { StaffingNeed } from "../../calendrier/types";
+
+/**
+ * Retourne les besoins en personnel des chantiers
+ */
+export async function GET() {
+  const { staffingNeeds } = await readStore();
+  return NextResponse.json(staffingNeeds);
+}
+
+/**
+ * Remplace la liste des besoins en personnel
+ * 400 si le corps n'est pas une liste JSON, si un besoin est invalide ou si deux besoins partagent un ID
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body)) {
+    return NextResponse.json({ error: "Liste de besoins attendue" }, { status: 400 });
+  }
+  const error = (body as StaffingNeed[]).map(validateStaffingNeed).find((message) => message !== null);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+  const ids = (body as StaffingNeed[]).map((need) => need.id);
+  if (new Set(ids).size !== ids.length) {
+    return NextResponse.json({ error: "Deux besoins ne peuvent pas avoir le même ID" }, { status: 400 });
+  }
+
+  const saved = await updateStore((data) => {
+    data.staffingNeeds = body as StaffingNeed[];
+    return data.staffingNeeds;
+  });
+  return NextResponse.json(saved);
+}
@@ -0,0 +1,161 @@
+// Stockage local du planning (fichier JSON) utilisé par les routes API
+// Toutes les écritures passent par updateStore pour éviter les accès concurrents
+
+import { promises as fs } from "fs";
+import path from "path";
+import { absences, autres, calendars, chantier, initialAppointments, initialEmployees, initialTeams } from "../datasource";
+import { Appointment, Calendar, Catalogs, ClosureCalendar, Employee, Groupe, PlanningRule, PlanningTemplate, Recurrence, StaffingNeed } from "../calendrier/types";
+import { DEFAULT_PLANNING_RULES } from "../calendrier/utils/constants";
+
+/**
+ * Rendez-vous tel qu'il est stocké sur disque (dates au format ISO)
+ */
+export type StoredAppointment = Omit<Appointment, "startDate" | "endDate"> & {
+  startDate: string;
+  endDate: string;
+};
+
+/**
+ * Récurrence telle qu'elle est stockée sur disque (dates au format ISO)
+ */
+export type StoredRecurrence = Omit<Recurrence, "dtStart"> & {
+  dtStart: string;
+};
+
+export interface StoreData {
+  appointments: StoredAppointment[];
+  recurrences: StoredRecurrence[];
+  employees: Employee[];
+  teams: Groupe[];
+  calendars: Calendar[];
+  catalogs: Catalogs;
+  nonWorkingDates: string[]; // Dates non travaillées au format yyyy-MM-dd
+  planningRules: PlanningRule[];
+  closures: ClosureCalendar[]; // Calendriers de fermetures de l'entreprise
+  templates: PlanningTemplate[]; // Modèles de planning réutilisables
+  staffingNeeds: StaffingNeed[]; // Besoins en personnel des chantiers (solveur de planning)
+}
+
+const DATA_DIR = path.join(process.cwd(), "data");
+const DATA_FILE = path.join(DATA_DIR, "planning.json");
+
+// File d'attente des écritures : chaque mise à jour attend la précédente
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Convertit un rendez-vous (dates en mémoire ou chaînes) vers son format de stockage
+ * @param app Rendez-vous à convertir
+ * @returns Rendez-vous avec des dates ISO
+ */
+export const toStoredAppointment = (app: Appointment | StoredAppointment): StoredAppointment => ({
+  ...app,
+  startDate: new Date(app.startDate).toISOString(),
+  endDate: new Date(app.endDate).toISOString(),
+});
+
+/**
+ * Convertit une récurrence vers son format de stockage
+ * @param recurrence Récurrence à convertir
+ * @returns Récurrence avec une date de début ISO
+ */
+export const toStoredRecurrence = (recurrence: Recurrence | StoredRecurrence): StoredRecurrence => ({
+  ...recurrence,
+  dtStart: new Date(recurrence.dtStart).toISOString(),
+  exceptions: recurrence.exceptions ?? [],
+});
+
+/**
+ * Regroupe les morceaux des anciennes séries (un enregistrement par bloc de jours travaillés)
+ * en un seul rendez-vous couvrant toute la période, les jours non travaillés étant sautés
+ * @param appointments Rendez-vous lus sur disque
+ * @returns Rendez-vous sans séries
+ */
+const mergeLegacySeries = (appointments: (StoredAppointment & { seriesId?: number })[]): StoredAppointment[] => {
+  const series = new Map<number, StoredAppointment[]>();
+  const merged: StoredAppointment[] = [];
+  appointments.forEach(({ seriesId, ...app }) => {
+    if (seriesId === undefined) merged.push(app);
+    else series.set(seriesId, [...(series.get(seriesId) ?? []), app]);
+  });
+  series.forEach((parts) => {
+    parts.sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+    merged.push({
+      ...parts[0],
+      endDate: parts.reduce((end, part) => (new Date(part.endDate) > new Date(end) ? part.endDate : end), parts[0].endDate),
+      weekendPolicy: "skip",
+      holidayPolicy: "skip",
+      version: Math.max(...parts.map((part) => part.version ?? 0)) + 1,
+    });
+  });
+  return merged;
+};
+
+/**
+ * Données initiales lorsque le fichier n'existe pas encore
+ */
+const seedStore = (): StoreData => ({
+  appointments: initialAppointments.map(toStoredAppointment),
+  recurrences: [],
+  employees: initialEmployees,
+  teams: initialTeams,
+  calendars,
+  catalogs: { chantier, absences, autres },
+  nonWorkingDates: [],
+  planningRules: DEFAULT_PLANNING_RULES,
+  closures: [],
+  templates: [],
+  staffingNeeds: [],
+});
+
+/**
+ * Calcule le prochain ID entier disponible dans une collection
+ * @param items Éléments existants
+ * @returns ID suivant le plus grand ID existant
+ */
+export const nextId = (items: { id: number }[]): number =>
+  items.reduce((max, item) => Math.max(max, Math.floor(item.id)), 0) + 1;
+
+/**
+ * Lit le contenu du stockage (crée le fichier à partir des données initiales si absent)
+ * @returns Données du planning
+ */
+export const readStore = async (): Promise<StoreData> => {
+  try {
+    const content = await fs.readFile(DATA_FILE, "utf-8");
+    const data: StoreData = { ...seedStore(), ...JSON.parse(content) };
+    return { ...data, appointments: mergeLegacySeries(data.appointments) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    const data = seedStore();
+    await writeStore(data);
+    return data;
+  }
+};
+
+/**
+ * Écrit l'intégralité du stockage sur disque (écriture atomique via un fichier temporaire)
+ * @param data Données à écrire
+ */
+const writeStore = async (data: StoreData): Promise<void> => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmpFile = `${DATA_FILE}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(data, null, 2), "utf-8");
+  await fs.rename(tmpFile, DATA_FILE);
+};
+
+/**
+ * Applique une modification au stockage de manière séquentielle
+ * @param mutator Fonction qui modifie les données et retourne un résultat
+ * @returns Résultat retourné par mutator
+ */
+export const updateStore = <T>(mutator: (data: StoreData) => T | Promise<T>): Promise<T> => {
+  const run = writeQueue.then(async () => {
+    const data = await readStore();
+    const result = await mutator(data);
+    await writeStore(data);
+    return result;
+  });
+  // La file continue même si une mise à jour échoue
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,31 @@
+// Route API /api/teams/[id] : modification (et désactivation) d'une équipe
+
+import { NextResponse } from "next/server";
+import { updateStore } from "../../store";
+import { INVALID_JSON_BODY, readJsonObject, validateTeam } from "../../validation";
+import { Groupe } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour une équipe (active: false pour le désactiver)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<Groupe>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = validateTeam(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const updated = await updateStore((data) => {
+    const index = data.teams.findIndex((item) => item.id === id);
+    if (index === -1) return null;
+    data.teams[index] = { ...data.teams[index], ...body, id };
+    return data.teams[index];
+  });
+
+  if (!updated) {
+    return NextResponse.json({ error: "Équipe introuvable" }, { status: 404 });
+  }
+  return NextResponse.json(updated);
+}
@@ -0,0 +1,31 @@
+// Route API /api/teams : liste et création des équipes
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, updateStore } from "../store";
+import { INVALID_JSON_BODY, readJsonObject, validateTeam } from "../validation";
+import { Groupe } from "../../calendrier/types";
+
+/**
+ * Retourne toutes les équipes (actives et désactivées)
+ */
+export async function GET() {
+  const { teams } = await readStore();
+  return NextResponse.json(teams);
+}
+
+/**
+ * Crée une équipe
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<Groupe>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = body.name === undefined ? "Le nom est requis" : validateTeam(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const team: Groupe = { ...body, id: nextId(data.teams), active: body.active ?? true };
+    data.teams.push(team);
+    return team;
+  });
+  return NextResponse.json(created, { status: 201 });
+}
@@ -0,0 +1,37 @@
+// Route API /api/templates/[id] : modification (et suppression logique) d'un modèle de planning
+
+import { NextResponse } from "next/server";
+import { updateStore } from "../../store";
+import { INVALID_JSON_BODY, readJsonObject, validateTemplate } from "../../validation";
+import { PlanningTemplate } from "../../../calendrier/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Met à jour un modèle de planning (active: false pour le supprimer)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = Number((await params).id);
+  const body = await readJsonObject<Partial<PlanningTemplate>>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  const error = validateTemplate(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const updated = await updateStore((data) => {
+    const index = data.templates.findIndex((item) => item.id === id);
+    if (index === -1) return null;
+    // Des affectations envoyées seules doivent rester dans les lignes existantes
+    const merged = { ...data.templates[index], ...body, id };
+    if (validateTemplate(merged)) return undefined;
+    data.templates[index] = merged;
+    return merged;
+  });
+
+  if (updated === undefined) {
+    return NextResponse.json({ error: "Les affectations doivent correspondre aux lignes du modèle" }, { status: 400 });
+  }
+  if (!updated) {
+    return NextResponse.json({ error: "Modèle de planning introuvable" }, { status: 404 });
+  }
+  return NextResponse.json(updated);
+}
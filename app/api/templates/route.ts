@@ -0,0 +1,42 @@
+// Route API /api/templates : liste et création des modèles de planning
+
+import { NextResponse } from "next/server";
+import { nextId, readStore, updateStore } from "../store";
+import { INVALID_JSON_BODY, readJsonObject, validateTemplate } from "../validation";
+import { PlanningTemplate } from "../../calendrier/types";
+
+/**
+ * Retourne tous les modèles de planning (actifs et supprimés)
+ */
+export async function GET() {
+  const { templates } = await readStore();
+  return NextResponse.json(templates);
+}
+
+/**
+ * Crée un modèle de planning
+ */
+export async function POST(request: Request) {
+  const body = await readJsonObject<PlanningTemplate>(request);
+  if (!body) return NextResponse.json({ error: INVALID_JSON_BODY }, { status: 400 });
+  if (body.name === undefined) {
+    return NextResponse.json({ error: "Le nom est requis" }, { status: 400 });
+  }
+  if (!Array.isArray(body.rows)) {
+    return NextResponse.json({ error: "Au moins une ligne (rôle ou employé) est requise" }, { status: 400 });
+  }
+  const error = validateTemplate(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const created = await updateStore((data) => {
+    const template: PlanningTemplate = {
+      ...body,
+      id: nextId(data.templates),
+      assignments: body.assignments ?? [],
+      active: body.active ?? true,
+    };
+    data.templates.push(template);
+    return template;
+  });
+  return NextResponse.json(created, { status: 201 });
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { Employee, PlanningRule, WorkingPattern } from "../calendrier/types";
+import { FULL_TIME_PATTERN } from "../calendrier/utils/constants";
+import {
+  INVALID_JSON_BODY, isDateKey, isIsoDateTime, readJsonObject, validateAppointment, validateCalendar, validateClosure, validateEmployee,
+  validatePlanningRule, validateRecurrence, validateStaffingNeed, validateTeam, validateTemplate,
+} from "./validation";
+
+const request = (body: string) => new Request("http://localhost/api", { method: "POST", body });
+
+describe("readJsonObject", () => {
+  it("retourne l'objet reçu", async () => {
+    expect(await readJsonObject(request('{"name":"A"}'))).toEqual({ name: "A" });
+  });
+
+  it("retourne null pour un JSON mal formé ou qui n'est pas un objet", async () => {
+    for (const body of ["{", "", "null", "[]", "1", '"texte"']) {
+      expect(await readJsonObject(request(body))).toBeNull();
+    }
+    expect(INVALID_JSON_BODY).toBe("Corps JSON invalide");
+  });
+});
+
+describe("isDateKey / isIsoDateTime", () => {
+  it("distingue les dates yyyy-MM-dd des dates-heures ISO", () => {
+    expect(isDateKey("2025-01-06")).toBe(true);
+    expect(isDateKey("2025-13-40")).toBe(false);
+    expect(isDateKey("2025-01-06T08:00:00Z")).toBe(false);
+    expect(isIsoDateTime("2025-01-06T08:00:00.000Z")).toBe(true);
+    expect(isIsoDateTime("2025-01-06")).toBe(false);
+    expect(isIsoDateTime(20250106)).toBe(false);
+  });
+});
+
+describe("validateAppointment", () => {
+  it("vérifie l'ordre des dates, le type et les politiques", () => {
+    expect(validateAppointment({ startDate: "2025-01-06T08:00:00Z", endDate: "2025-01-06T12:00:00Z", type: "Chantier" })).toBeNull();
+    expect(validateAppointment({ startDate: "2025-01-06T12:00:00Z", endDate: "2025-01-06T08:00:00Z" })).toBe("La date de fin doit suivre la date de début");
+    expect(validateAppointment({ startDate: "06/01/2025" })).toBe("Date de début ISO invalide");
+    expect(validateAppointment({ type: "Réunion" as "Autre" })).toBe("Type de rendez-vous invalide");
+    expect(validateAppointment({ weekendPolicy: "always" as "include" })).toBe("Politique des week-ends invalide");
+  });
+});
+
+describe("validateEmployee", () => {
+  it("accepte une modification partielle", () => {
+    expect(validateEmployee({ active: false })).toBeNull();
+    expect(validateEmployee({ name: "Jean", contrat: "CDD", contractStart: "2025-01-01", contractEnd: "2025-06-30" })).toBeNull();
+  });
+
+  it("refuse un nom vide ou qui n'est pas une chaîne", () => {
+    expect(validateEmployee({ name: " " })).toBe("Le nom est requis");
+    expect(validateEmployee({ name: 1 } as unknown as Partial<Employee>)).toBe("Le nom est requis");
+  });
+
+  it("vérifie le contrat, l'équipe et les dates", () => {
+    expect(validateEmployee({ contrat: "Stage" as "CDI" })).toBe("Type de contrat invalide");
+    expect(validateEmployee({ groupId: "1" as unknown as number })).not.toBeNull();
+    expect(validateEmployee({ contractStart: "2025-06-30", contractEnd: "2025-01-01" })).toBe("La fin du contrat doit suivre son début");
+    expect(validateEmployee({ missions: [{ start: "2025-02-01", end: "2025-01-01" }] })).not.toBeNull();
+  });
+
+  it("refuse une semaine type sans demi-journée travaillée en semaine", () => {
+    const weekendOnly: WorkingPattern = FULL_TIME_PATTERN.map((day, index) => index === 0 || index === 6 ? day : { morning: false, afternoon: false });
+    expect(validateEmployee({ workingPattern: FULL_TIME_PATTERN })).toBeNull();
+    expect(validateEmployee({ workingPattern: FULL_TIME_PATTERN.slice(0, 6) })).toBe("La semaine type doit décrire les 7 jours (matin / après-midi)");
+    expect(validateEmployee({ workingPattern: weekendOnly })).toBe("La semaine type doit compter au moins une demi-journée travaillée du lundi au vendredi");
+  });
+});
+
+describe("validateTeam", () => {
+  it("vérifie le nom s'il est fourni", () => {
+    expect(validateTeam({ active: false })).toBeNull();
+    expect(validateTeam({ name: "Équipe A" })).toBeNull();
+    expect(validateTeam({ name: "" })).toBe("Le nom est requis");
+    expect(validateTeam({ name: null as unknown as string })).toBe("Le nom est requis");
+  });
+});
+
+describe("validateCalendar", () => {
+  const slots = [
+    { name: "morning", label: "Matin", startHour: 8, endHour: 12 },
+    { name: "afternoon", label: "Après-midi", startHour: 13, endHour: 17 },
+  ];
+
+  it("vérifie le pays et la région des jours fériés", () => {
+    expect(validateCalendar({ holidayCountry: "DE", holidayRegion: "BY" })).toBeNull();
+    expect(validateCalendar({ holidayCountry: "XX" })).toBe("Pays des jours fériés inconnu");
+    // Sans pays, la région est cherchée parmi celles de la France
+    expect(validateCalendar({ holidayRegion: "BY" })).toBe("Région des jours fériés inconnue pour ce pays");
+  });
+
+  it("vérifie des créneaux triés, uniques et dans la journée", () => {
+    expect(validateCalendar({ slots })).toBeNull();
+    expect(validateCalendar({ slots: [] })).toBe("Au moins un créneau est requis");
+    expect(validateCalendar({ slots: [slots[0], { ...slots[1], endHour: 25 }] })).not.toBeNull();
+    expect(validateCalendar({ slots: [slots[0], { ...slots[1], name: "morning" }] })).toBe("Les noms de créneaux doivent être uniques");
+    expect(validateCalendar({ slots: [slots[1], slots[0]] })).toBe("Les créneaux doivent être triés et ne pas se chevaucher");
+  });
+});
+
+describe("validateClosure", () => {
+  it("vérifie les périodes et les rattachements", () => {
+    expect(validateClosure({ periods: [{ start: "2025-08-01", end: "2025-08-15", yearly: true }], calendarIds: [1], teamIds: [] })).toBeNull();
+    expect(validateClosure({ periods: [{ start: "2025-08-15", end: "2025-08-01" }] })).not.toBeNull();
+    expect(validateClosure({ periods: [{ start: "2025-01-01", end: "2026-01-01", yearly: true }] })).toBe("Une période annuelle doit durer moins d'un an");
+    expect(validateClosure({ teamIds: ["1"] as unknown as number[] })).toBe("teamIds doit être une liste d'ID");
+  });
+});
+
+describe("validateTemplate", () => {
+  const assignment = { row: 0, day: 0, startHour: 8, endDay: 0, endHour: 12, title: "Chantier A", type: "Chantier" as const };
+
+  it("vérifie que les affectations correspondent aux lignes", () => {
+    expect(validateTemplate({ name: "Semaine type", rows: ["Chef"], assignments: [assignment] })).toBeNull();
+    expect(validateTemplate({ rows: [] })).toBe("Au moins une ligne (rôle ou employé) est requise");
+    expect(validateTemplate({ rows: ["Chef"], assignments: [{ ...assignment, row: 1 }] })).not.toBeNull();
+    expect(validateTemplate({ assignments: [{ ...assignment, endHour: 8 }] })).not.toBeNull();
+  });
+});
+
+describe("validateRecurrence", () => {
+  it("vérifie la règle, la durée et le modèle", () => {
+    expect(validateRecurrence({ rrule: "FREQ=WEEKLY;INTERVAL=1;COUNT=3", duration: 3600000 })).toBeNull();
+    expect(validateRecurrence({ rrule: "FREQ=YEARLY" })).not.toBeNull();
+    expect(validateRecurrence({ rrule: 3 as unknown as string })).toBe("Règle de récurrence invalide");
+    expect(validateRecurrence({ duration: 0 })).toBe("La durée doit être positive");
+    expect(validateRecurrence({ template: { title: "", description: "", employeeId: 1, type: "Chantier" } })).toBe("Le titre est requis");
+  });
+});
+
+describe("validatePlanningRule", () => {
+  const rule: PlanningRule = { id: 1, kind: "forbiddenSlot", label: "Pas de chantier le dimanche", severity: "block", enabled: true, match: { type: "Chantier" }, weekday: 0 };
+
+  it("vérifie les champs communs et ceux du type de règle", () => {
+    expect(validatePlanningRule(rule)).toBeNull();
+    expect(validatePlanningRule({ ...rule, severity: "error" as "block" })).toBe("Gravité invalide (warn ou block)");
+    expect(validatePlanningRule({ ...rule, weekday: 7 })).toBe("Jour de la semaine invalide");
+    expect(validatePlanningRule({ ...rule, kind: "unknown" } as unknown as PlanningRule)).toBe("Type de règle inconnu");
+  });
+});
+
+describe("validateStaffingNeed", () => {
+  it("vérifie le chantier, les dates et l'effectif", () => {
+    const need = { id: 1, chantier: "Chantier A", start: "2025-01-06", end: "2025-01-10", headcount: 2 };
+    expect(validateStaffingNeed(need)).toBeNull();
+    expect(validateStaffingNeed({ ...need, end: "2025-01-05" })).toBe("La fin doit suivre le début");
+    expect(validateStaffingNeed({ ...need, headcount: 1.5 })).toBe("Le nombre d'employés doit être un entier positif");
+  });
+});
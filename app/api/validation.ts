@@ -0,0 +1,244 @@
+// Règles de validation des données reçues par les routes API
+
+import { Appointment, AppointmentMatcher, Calendar, ClosureCalendar, Employee, Groupe, NonWorkingDayPolicy, PlanningRule, PlanningTemplate, Recurrence, StaffingNeed, TemplateAssignment, TimeSlot, WorkingDay } from "../calendrier/types";
+import { parseRRule } from "../calendrier/utils/rrule";
+import { getHolidayCountries, getHolidayRegions } from "../calendrier/utils/holidays";
+import { DEFAULT_HOLIDAY_REGION } from "../calendrier/utils/constants";
+
+export const CONTRATS: Employee["contrat"][] = ["CDI", "CDD", "Intérimaire"];
+
+const DAY_POLICIES: NonWorkingDayPolicy[] = ["skip", "include"];
+
+const APPOINTMENT_TYPES: Appointment["type"][] = ["Chantier", "Absence", "Autre"];
+
+// Erreur renvoyée (400) quand le corps d'une requête n'est pas l'objet JSON attendu
+export const INVALID_JSON_BODY = "Corps JSON invalide";
+
+/**
+ * Lit le corps JSON d'une requête qui doit contenir un objet
+ * @param request Requête reçue
+ * @returns Objet reçu, ou null si le corps est mal formé ou n'est pas un objet (null, liste, nombre...)
+ */
+export const readJsonObject = async <T>(request: Request): Promise<T | null> => {
+  const body: unknown = await request.json().catch(() => null);
+  return body && typeof body === "object" && !Array.isArray(body) ? body as T : null;
+};
+
+/**
+ * Vérifie les dates, le type et les politiques week-ends / fériés d'un rendez-vous
+ * Seuls les champs présents sont vérifiés (modification partielle) ; les dates sont reçues au format ISO.
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateAppointment = (body: Omit<Partial<Appointment>, "startDate" | "endDate"> & { startDate?: unknown; endDate?: unknown }): string | null => {
+  if (body.startDate !== undefined && !isIsoDateTime(body.startDate)) return "Date de début ISO invalide";
+  if (body.endDate !== undefined && !isIsoDateTime(body.endDate)) return "Date de fin ISO invalide";
+  if (isIsoDateTime(body.startDate) && isIsoDateTime(body.endDate) && new Date(body.endDate) <= new Date(body.startDate)) {
+    return "La date de fin doit suivre la date de début";
+  }
+  if (body.type !== undefined && !APPOINTMENT_TYPES.includes(body.type)) return "Type de rendez-vous invalide";
+  if (body.weekendPolicy !== undefined && !DAY_POLICIES.includes(body.weekendPolicy)) return "Politique des week-ends invalide";
+  if (body.holidayPolicy !== undefined && !DAY_POLICIES.includes(body.holidayPolicy)) return "Politique des jours fériés invalide";
+  return null;
+};
+
+/**
+ * Vérifie les champs obligatoires d'un employé
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateEmployee = (body: Partial<Employee>): string | null => {
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) return "Le nom est requis";
+  if (body.contrat !== undefined && !CONTRATS.includes(body.contrat)) return "Type de contrat invalide";
+  if (body.groupId != null && typeof body.groupId !== "number") return "groupId doit être un ID d'équipe";
+  if (body.calendarId !== undefined && !Array.isArray(body.calendarId)) return "calendarId doit être une liste";
+  // Dates de contrat : null permet de retirer une date lors d'une modification
+  if (body.contractStart != null && !isDateKey(body.contractStart)) return "Date de début de contrat invalide (yyyy-MM-dd)";
+  if (body.contractEnd != null && !isDateKey(body.contractEnd)) return "Date de fin de contrat invalide (yyyy-MM-dd)";
+  if (body.contractStart && body.contractEnd && body.contractEnd < body.contractStart) {
+    return "La fin du contrat doit suivre son début";
+  }
+  if (body.missions !== undefined) {
+    if (!Array.isArray(body.missions)) return "missions doit être une liste";
+    const invalid = body.missions.find(mission => !isDateKey(mission?.start) || !isDateKey(mission?.end) || mission.end < mission.start);
+    if (invalid !== undefined) return "Chaque mission doit avoir un début et une fin (yyyy-MM-dd) dans l'ordre";
+  }
+  if (body.workingPattern !== undefined) {
+    const isValidDay = (day: WorkingDay) => typeof day?.morning === "boolean" && typeof day?.afternoon === "boolean";
+    if (!Array.isArray(body.workingPattern) || body.workingPattern.length !== 7 || !body.workingPattern.every(isValidDay)) {
+      return "La semaine type doit décrire les 7 jours (matin / après-midi)";
+    }
+    // Les week-ends ne sont jamais travaillés par défaut : il faut au moins une demi-journée du lundi au vendredi
+    if (!body.workingPattern.slice(1, 6).some(day => day.morning || day.afternoon)) {
+      return "La semaine type doit compter au moins une demi-journée travaillée du lundi au vendredi";
+    }
+  }
+  return null;
+};
+
+/**
+ * Vérifie le nom d'une équipe (création ou modification)
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateTeam = (body: Partial<Groupe>): string | null => {
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) return "Le nom est requis";
+  return null;
+};
+
+/**
+ * Vérifie les champs d'un calendrier, dont ses créneaux de la journée et la région de ses jours fériés
+ * Le pays et la région doivent être connus de date-holidays.
+ * Les créneaux doivent avoir un nom unique et un libellé, tenir dans la journée (0 à 24 h),
+ * être triés et ne pas se chevaucher ; null rétablit les créneaux par défaut.
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateCalendar = (body: Partial<Calendar>): string | null => {
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) return "Le nom est requis";
+  if (body.holidayCountry != null && !(body.holidayCountry in getHolidayCountries())) return "Pays des jours fériés inconnu";
+  if (body.holidayRegion != null && !(body.holidayRegion in getHolidayRegions(body.holidayCountry ?? DEFAULT_HOLIDAY_REGION.country))) {
+    return "Région des jours fériés inconnue pour ce pays";
+  }
+  if (body.slots == null) return null;
+  if (!Array.isArray(body.slots) || body.slots.length === 0) return "Au moins un créneau est requis";
+  const isValidSlot = (slot: TimeSlot) =>
+    typeof slot?.name === "string" && !!slot.name.trim() &&
+    typeof slot.label === "string" && !!slot.label.trim() &&
+    typeof slot.startHour === "number" && typeof slot.endHour === "number" &&
+    slot.startHour >= 0 && slot.startHour < slot.endHour && slot.endHour <= 24;
+  if (!body.slots.every(isValidSlot)) return "Chaque créneau doit avoir un nom, un libellé et des heures entre 0 et 24 (début avant fin)";
+  if (new Set(body.slots.map(slot => slot.name)).size !== body.slots.length) return "Les noms de créneaux doivent être uniques";
+  if (body.slots.some((slot, index) => index > 0 && slot.startHour < body.slots![index - 1].endHour)) {
+    return "Les créneaux doivent être triés et ne pas se chevaucher";
+  }
+  return null;
+};
+
+/**
+ * Vérifie les champs d'un calendrier de fermetures (périodes et rattachements)
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateClosure = (body: Partial<ClosureCalendar>): string | null => {
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) return "Le nom est requis";
+  if (body.periods !== undefined) {
+    if (!Array.isArray(body.periods)) return "periods doit être une liste";
+    const invalid = body.periods.find(period =>
+      !isDateKey(period?.start) || !isDateKey(period?.end) || period.end < period.start ||
+      (period.yearly !== undefined && typeof period.yearly !== "boolean"));
+    if (invalid !== undefined) return "Chaque période doit avoir un début et une fin (yyyy-MM-dd) dans l'ordre";
+    // Une période annuelle ne peut pas couvrir plus d'une année
+    if (body.periods.some(period => period.yearly && period.end >= `${Number(period.start.slice(0, 4)) + 1}${period.start.slice(4)}`)) {
+      return "Une période annuelle doit durer moins d'un an";
+    }
+  }
+  const isIdList = (ids: unknown) => Array.isArray(ids) && ids.every(id => typeof id === "number");
+  if (body.calendarIds !== undefined && !isIdList(body.calendarIds)) return "calendarIds doit être une liste d'ID";
+  if (body.teamIds !== undefined && !isIdList(body.teamIds)) return "teamIds doit être une liste d'ID";
+  return null;
+};
+
+/**
+ * Vérifie les lignes et les affectations d'un modèle de planning
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateTemplate = (body: Partial<PlanningTemplate>): string | null => {
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) return "Le nom est requis";
+  if (body.rows !== undefined && (!Array.isArray(body.rows) || body.rows.length === 0 || !body.rows.every(row => typeof row === "string"))) {
+    return "Au moins une ligne (rôle ou employé) est requise";
+  }
+  if (body.assignments === undefined) return null;
+  if (!Array.isArray(body.assignments)) return "assignments doit être une liste";
+  const isHour = (hour: unknown) => typeof hour === "number" && hour >= 0 && hour <= 24;
+  const isValidAssignment = (item: TemplateAssignment) =>
+    Number.isInteger(item?.row) && item.row >= 0 && (body.rows === undefined || item.row < body.rows.length) &&
+    Number.isInteger(item.day) && item.day >= 0 && Number.isInteger(item.endDay) &&
+    isHour(item.startHour) && isHour(item.endHour) &&
+    item.endDay * 24 + item.endHour > item.day * 24 + item.startHour &&
+    typeof item.title === "string" && !!item.title && APPOINTMENT_TYPES.includes(item.type) &&
+    (item.weekendPolicy === undefined || DAY_POLICIES.includes(item.weekendPolicy)) &&
+    (item.holidayPolicy === undefined || DAY_POLICIES.includes(item.holidayPolicy));
+  if (!body.assignments.every(isValidAssignment)) {
+    return "Chaque affectation doit avoir une ligne existante, un titre, un type et une fin après son début";
+  }
+  return null;
+};
+
+/**
+ * Vérifie la règle et les champs obligatoires d'une récurrence
+ * @param body Données reçues
+ * @returns Message d'erreur, ou null si les données sont valides
+ */
+export const validateRecurrence = (body: Partial<Recurrence>): string | null => {
+  if (body.rrule !== undefined) {
+    if (typeof body.rrule !== "string") return "Règle de récurrence invalide";
+    try {
+      parseRRule(body.rrule);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  if (body.dtStart !== undefined && isNaN(new Date(body.dtStart).getTime())) return "dtStart invalide";
+  if (body.duration !== undefined && !(body.duration > 0)) return "La durée doit être positive";
+  if (body.template !== undefined && !body.template?.title) return "Le titre est requis";
+  return null;
+};
+
+/**
+ * Vérifie qu'une valeur est une date au format yyyy-MM-dd
+ * @param value Valeur reçue
+ */
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+/**
+ * Vérifie qu'une valeur est une date-heure ISO 8601
+ * @param value Valeur reçue
+ */
+export const isIsoDateTime = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(new Date(value).getTime());
+
+const isValidMatcher = (matcher: AppointmentMatcher | undefined): boolean =>
+  !!matcher && typeof matcher === "object" &&
+  (matcher.type === undefined || APPOINTMENT_TYPES.includes(matcher.type)) &&
+  (matcher.label === undefined || typeof matcher.label === "string");
+
+/**
+ * Vérifie une règle de planification
+ * @param rule Règle reçue
+ * @returns Message d'erreur, ou null si la règle est valide
+ */
+export const validatePlanningRule = (rule: PlanningRule): string | null => {
+  if (typeof rule?.id !== "number") return "ID de règle invalide";
+  if (typeof rule.label !== "string" || !rule.label.trim()) return "Le libellé de la règle est requis";
+  if (rule.severity !== "warn" && rule.severity !== "block") return "Gravité invalide (warn ou block)";
+  if (typeof rule.enabled !== "boolean") return "enabled doit être un booléen";
+  if (rule.kind === "overlap") {
+    if (!isValidMatcher(rule.first) || !isValidMatcher(rule.second)) return "Critères de rendez-vous invalides";
+    if (rule.scope !== "halfDay" && rule.scope !== "day") return "Portée invalide (halfDay ou day)";
+    return null;
+  }
+  if (rule.kind === "forbiddenSlot") {
+    if (!isValidMatcher(rule.match)) return "Critère de rendez-vous invalide";
+    if (!Number.isInteger(rule.weekday) || rule.weekday < 0 || rule.weekday > 6) return "Jour de la semaine invalide";
+    if (rule.interval !== undefined && (typeof rule.interval !== "string" || !rule.interval)) return "Créneau invalide";
+    return null;
+  }
+  return "Type de règle inconnu";
+};
+
+/**
+ * Vérifie un besoin en personnel de chantier
+ * @param need Besoin reçu
+ * @returns Message d'erreur, ou null si le besoin est valide
+ */
+export const validateStaffingNeed = (need: StaffingNeed): string | null => {
+  if (typeof need?.id !== "number") return "ID de besoin invalide";
+  if (typeof need.chantier !== "string" || !need.chantier.trim()) return "Le chantier est requis";
+  if (!isDateKey(need.start) || !isDateKey(need.end)) return "Dates yyyy-MM-dd attendues";
+  if (need.end < need.start) return "La fin doit suivre le début";
+  if (!Number.isInteger(need.headcount) || need.headcount < 1) return "Le nombre d'employés doit être un entier positif";
+  return null;
+};
@@ -1,10 +1,10 @@
 "use client";
 // components/AppointmentForm.tsx
 import React, { useState, memo, useMemo } from 'react';
-import { Appointment, Employee, HalfDayInterval } from '../types';
-import { format, parseISO, setHours, startOfDay, setSeconds, setMinutes, addDays, eachDayOfInterval, addMinutes } from 'date-fns';
-import { isHoliday, isWeekend } from '../utils/dates';
-import { absences, autres, chantier } from '@/app/datasource';
+import { Appointment, Catalogs, Employee, TimeSlot } from '../types';
+import { format, parseISO, setHours, setMinutes, eachDayOfInterval, addMinutes } from 'date-fns';
+import { countWorkedSlots, isWeekend } from '../utils/dates';
+import { getSlotAt, getSlotEnd, getSlotEndBefore, getSlotStart } from '../utils/slots';
 
 /**
  * Props du composant AppointmentForm
@@ -16,9 +16,10 @@ interface AppointmentFormProps {
   initialDate?: Date | null;
   initialEmployeeId?: number | null; // Nouvelle prop
   employees: Employee[]; // Liste de tous les employés
-  HALF_DAY_INTERVALS: HalfDayInterval[] // Liste des créneaux de demi-journée
+  catalogs: Catalogs; // Catalogues de chantiers, absences et autres événements
+  HALF_DAY_INTERVALS: TimeSlot[] // Créneaux de la journée du calendrier
   isFullDay: boolean; // Indique si le rendez-vous est sur une journée complète
-  nonWorkingDates: Date[]; // Dates non travaillées (week-ends, fériés, etc.)
+  nonWorkingDatesOf: (employeeId: Appointment["employeeId"]) => Date[]; // Dates non travaillées d'un employé (saisies, fériés et fermetures de son calendrier, fermetures de son équipe)
   onSave: (appointment: Appointment, includeWeekend: boolean, includeNotWorkingDay: boolean) => void;
   onDelete: (id: number) => void;
   onClose: () => void;
@@ -35,9 +36,10 @@ interface AppointmentFormProps {
  * @param {Date | undefined} props.initialDate - Date initiale pour le rendez-vous.
  * @param {number | undefined} props.initialEmployeeId - ID de l'employé assigné par défaut.
  * @param {Employee[]} props.employees - Liste des employés disponibles.
- * @param {Array<{ startHour: number, endHour: number }>} props.HALF_DAY_INTERVALS - Intervalles pour matin/après-midi.
+ * @param {Catalogs} props.catalogs - Catalogues proposés selon le type de rendez-vous.
+ * @param {TimeSlot[]} props.HALF_DAY_INTERVALS - Créneaux de la journée (matin, après-midi, soir...).
  * @param {boolean} props.isFullDay - Indique si le rendez-vous couvre toute la journée.
- * @param {Date[]} props.nonWorkingDates - Liste des dates non travaillées.
+ * @param {(employeeId: number | string) => Date[]} props.nonWorkingDatesOf - Dates non travaillées de l'employé choisi.
  * @param {(appointment: Appointment, includeWeekend: boolean, includeNotWorkingDay: boolean) => void} props.onSave - Callback lors de la sauvegarde.
  * @param {(id: number) => void} props.onDelete - Callback lors de la suppression.
  * @param {() => void} props.onClose - Callback lors de la fermeture du formulaire.
@@ -49,9 +51,9 @@ interface AppointmentFormProps {
  *   appointment={appointment}
  *   initialDate={new Date()}
  *   employees={employees}
- *   HALF_DAY_INTERVALS={[{ startHour: 8, endHour: 12 }, { startHour: 13, endHour: 17 }]}
+ *   HALF_DAY_INTERVALS={[{ name: 'morning', label: 'Matin', startHour: 8, endHour: 12 }, { name: 'afternoon', label: 'Après-midi', startHour: 13.5, endHour: 17.5 }]}
  *   isFullDay={false}
- *   nonWorkingDates={[]}
+ *   nonWorkingDatesOf={() => []}
  *   onSave={handleSave}
  *   onDelete={handleDelete}
  *   onClose={handleClose}
@@ -64,13 +66,15 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
   initialDate,
   initialEmployeeId,
   employees,
+  catalogs,
   HALF_DAY_INTERVALS,
   isFullDay,
-  nonWorkingDates,
+  nonWorkingDatesOf,
   onSave,
   onDelete,
   onClose,
 }) => {
+  const { chantier, absences, autres } = catalogs;
   // État local pour les champs du formulaire
   const [formData, setFormData] = useState<Omit<Appointment, 'id'> & { id?: number }>(
     appointment
@@ -86,6 +90,7 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
           type: "Chantier",
         }
   );
+  const nonWorkingDates = useMemo(() => nonWorkingDatesOf(formData.employeeId), [nonWorkingDatesOf, formData.employeeId]);
   const isFullWeekEnd = useMemo(() => {
     return eachDayOfInterval({ 
       start: formData.startDate, 
@@ -98,43 +103,40 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
       start: formData.startDate, 
       end: formData.endDate 
     }).every(date => 
-      nonWorkingDates.some(nd => nd.getTime() === date.getTime()) || isHoliday(date)
+      nonWorkingDates.some(nd => nd.getTime() === date.getTime())
     );
   }, [formData.startDate, formData.endDate, nonWorkingDates]);
   
 
-  const isAppointmentSplitByWeekend = useMemo(() => {
-    const app = appointments.find(a => a.id === formData.id);
-    if (!app) return false;
-    const days = eachDayOfInterval({ start: app.startDate, end: addDays(app.endDate, 1) });
-    return days.some((date) =>
-      isWeekend(date) // Vérifie si le jour est un week-end
-    );
-  }, [appointments, formData.id,]);
-
-  const isAppointmentSplitByNotWorkingDay = useMemo(() => {
-    const app = appointments.find(a => a.id === formData.id);
-    if (!app) return false;
-    const days = eachDayOfInterval({ start: app.startDate, end: app.endDate });
-    return days.some((date) =>
-      (nonWorkingDates.some(nd => 
-        nd.getDay() === date.getDay()
-        && nd.getMonth() === date.getMonth()
-        && nd.getFullYear() === date.getFullYear()
-      ) || isHoliday(date))
-    );
-  }, [appointments, formData.id, nonWorkingDates]);
-
-
-  
+  // Les cases sont initialisées avec la politique enregistrée sur le rendez-vous
   const [includeNotWorkingDay, setIncludeNotWorkingDay] = useState(
-    isFullNotWorkingDay || isAppointmentSplitByNotWorkingDay ? true : false
-  ); // Nouveau champ pour inclure les jours non travaillés
+    isFullNotWorkingDay || appointment?.holidayPolicy === "include"
+  ); // Inclure les jours non travaillés et fériés
   const [includeWeekend, setIncludeWeekend] = useState(
-    isFullWeekEnd || isAppointmentSplitByWeekend ? true : false
-  ); // Nouveau champ pour inclure les week-ends
+    isFullWeekEnd || appointment?.weekendPolicy === "include"
+  ); // Inclure les week-ends
+
+  // Nombre de créneaux réellement travaillés sur la période (jours sautés exclus)
+  const workedSlots = useMemo(() => countWorkedSlots(
+    {
+      startDate: formData.startDate,
+      endDate: getSlotEndBefore(formData.endDate, HALF_DAY_INTERVALS),
+      weekendPolicy: includeWeekend ? "include" : "skip",
+      holidayPolicy: includeNotWorkingDay ? "include" : "skip",
+    },
+    HALF_DAY_INTERVALS,
+    nonWorkingDates,
+    employees.find(emp => emp.id === Number(formData.employeeId))?.workingPattern
+  ), [formData.startDate, formData.endDate, formData.employeeId, includeWeekend, includeNotWorkingDay, HALF_DAY_INTERVALS, nonWorkingDates, employees]);
   const [titleNotValid, setTitleNotValid] = useState(false);
 
+  // Créneaux de début et de fin sélectionnés (la date de fin du formulaire tombe dans son dernier créneau)
+  const startSlotIndex = Math.max(0, HALF_DAY_INTERVALS.findIndex(slot => slot.name === getSlotAt(formData.startDate, HALF_DAY_INTERVALS)?.name));
+  const endSlotIndex = Math.max(0, HALF_DAY_INTERVALS.findIndex(slot =>
+    getSlotEnd(formData.endDate, slot).getTime() === getSlotEndBefore(formData.endDate, HALF_DAY_INTERVALS).getTime()
+  ));
+  const isSameDay = format(formData.startDate, 'yyyy-MM-dd') === format(formData.endDate, 'yyyy-MM-dd');
+
   /**
    * Gère les changements des champs texte, textarea et select du formulaire.
    * Met à jour l'état local `formData` en fonction du champ modifié.
@@ -198,7 +200,8 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
       setTitleNotValid(true);
       return;
     }
-    onSave(formData as Appointment, includeWeekend, includeNotWorkingDay);
+    // La fin est alignée sur la fin de son dernier créneau
+    onSave({ ...formData, endDate: getSlotEndBefore(formData.endDate, HALF_DAY_INTERVALS) } as Appointment, includeWeekend, includeNotWorkingDay);
   };
 
   /**
@@ -239,6 +242,9 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
           />
           <label className="text-sm text-gray-700" htmlFor="includeNotWorkingDay">Inclure les jours non travaillés/fériés</label>
         </div>
+        <span className="text-sm text-gray-500 md:ml-auto">
+          {workedSlots} créneau{workedSlots > 1 ? 'x' : ''} travaillé{workedSlots > 1 ? 's' : ''}
+        </span>
       </div>
 
       {/* Section type et libellé */}
@@ -343,29 +349,19 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
               <select
                 id="intervalNameStart"
                 name="intervalName"
-                value={
-                  formData.startDate.getHours() >= HALF_DAY_INTERVALS[0].startHour 
-                  && formData.startDate.getHours() < HALF_DAY_INTERVALS[0].endHour
-                  ? 'morning' : 'afternoon'
-                }
+                value={startSlotIndex}
                 onChange={e => {
-                  const newHour = e.target.value === 'morning'
-                    ? HALF_DAY_INTERVALS[0].startHour
-                    : HALF_DAY_INTERVALS[1].startHour;
+                  const slot = HALF_DAY_INTERVALS[Number(e.target.value)];
                   setFormData(prev => ({
                     ...prev,
-                    startDate: setHours(startOfDay(prev.startDate), newHour),
+                    startDate: getSlotStart(prev.startDate, slot),
                   }));
                 }}
                 className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-50"
               >
-                <option value="morning">Matin</option>
-                <option value="afternoon"
-                  disabled={
-                    format(formData.startDate, 'yyyy-MM-dd') === format(formData.endDate, 'yyyy-MM-dd') &&
-                    formData.endDate.getHours() === HALF_DAY_INTERVALS[0].endHour
-                  }
-                >Après-midi</option>
+                {HALF_DAY_INTERVALS.map((slot, index) => (
+                  <option key={slot.name} value={index} disabled={isSameDay && index > endSlotIndex}>{slot.label}</option>
+                ))}
               </select>
             </div>
           )}
@@ -391,37 +387,20 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({
               <select
                 id="intervalNameEnd"
                 name="intervalName"
-                value={
-                  formData.endDate.getHours() <= HALF_DAY_INTERVALS[0].endHour
-                    ? 'morning'
-                    : 'afternoon'
-                }
+                value={endSlotIndex}
                 onChange={e => {
-                  const isAfternoon = e.target.value === 'afternoon';
-                  setFormData(prev => {
-                    const endDateDay = new Date(format(prev.endDate, 'yyyy-MM-dd') + 'T00:00:00');
-                    let newEndDate;
-                    if (isAfternoon) {
-                      newEndDate = setHours(setMinutes(setSeconds(endDateDay, 59), 59), HALF_DAY_INTERVALS[1].endHour - 1);
-                    } else {
-                      newEndDate = setHours(setMinutes(setSeconds(endDateDay, 0), 0), HALF_DAY_INTERVALS[0].endHour);
-                    }
-                    return {
-                      ...prev,
-                      endDate: newEndDate,
-                    };
-                  });
+                  const slot = HALF_DAY_INTERVALS[Number(e.target.value)];
+                  // Une minute avant la fin du créneau : la date de fin reste sur le jour affiché
+                  setFormData(prev => ({
+                    ...prev,
+                    endDate: addMinutes(getSlotEnd(prev.endDate, slot), -1),
+                  }));
                 }}
                 className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-50"
               >
-                <option 
-                  value="morning"
-                  disabled={
-                    format(formData.startDate, 'yyyy-MM-dd') === format(formData.endDate, 'yyyy-MM-dd') &&
-                    formData.startDate.getHours() === HALF_DAY_INTERVALS[1].startHour
-                  }
-                >Matin</option>
-                <option value="afternoon">Après-midi</option>
+                {HALF_DAY_INTERVALS.map((slot, index) => (
+                  <option key={slot.name} value={index} disabled={isSameDay && index < startSlotIndex}>{slot.label}</option>
+                ))}
               </select>
             </div>
           )}
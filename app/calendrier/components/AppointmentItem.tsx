@@ -1,19 +1,31 @@
 "use client";
-import React, { useState, useRef, memo, useEffect, useCallback } from 'react';
+import React, { useState, useRef, memo, useEffect, useCallback, useMemo } from 'react';
 import { useDrag, useDragLayer } from 'react-dnd';
-import { Appointment, HalfDayInterval } from '../types';
-import { addDays, eachDayOfInterval, isWeekend } from 'date-fns';
-import { CELL_WIDTH, HALF_DAY_INTERVALS, CELL_HEIGHT, DAY_INTERVALS } from '../utils/constants';
+import { Appointment, WorkingPattern } from '../types';
+import { isWeekend } from 'date-fns';
+import { CELL_HEIGHT } from '../utils/constants';
 import { useSelectedAppointment } from '../context/SelectedAppointmentContext';
+import { useHighlightedAppointments } from '../context/HighlightedAppointmentsContext';
+import { useDraftAppointments } from '../context/DraftAppointmentsContext';
+import { useAppointmentConflicts } from '../context/ConflictingAppointmentsContext';
 import { useSelectedCell } from '../context/SelectedCellContext';
+import { useTimeSlots } from '../context/TimeSlotsContext';
+import { useZoomScale } from '../context/ZoomScaleContext';
+import { countWorkedSlots, isAppointmentWorkedDay } from '../utils/dates';
+import { eachSlot, getSlotEndAt } from '../utils/slots';
+
+// Instant situé dans la dernière unité d'une période (la fin d'un rendez-vous est exclue)
+const lastUnit = (end: Date) => new Date(end.getTime() - 1);
 
 interface AppointmentItemProps {
   appointment: Appointment & { top: number };
   isFullDay: boolean;
   isMobile: boolean;
   includeWeekend?: boolean;
+  nonWorkingDates: Date[]; // Dates non travaillées (hachurées sauf si le rendez-vous les inclut)
+  workingPattern?: WorkingPattern; // Semaine type de l'employé (repos fixes hachurés)
   onDoubleClick: () => void;
-  onResize: (id: number, newStart: Date, newEnd: Date, resizeDirection: 'left' | 'right') => void;
+  onResize: (id: number, newStart: Date, newEnd: Date, resizeDirection: 'left' | 'right') => string | null; // Retourne l'explication d'un refus
   color?: string;
   handleContextMenu: (e: React.MouseEvent, origin: 'cell' | 'appointment', appointment?: Appointment | null) => void;
 }
@@ -22,15 +34,19 @@ interface AppointmentItemProps {
  * Composant React représentant un rendez-vous (Appointment) dans une vue calendrier.
  * 
  * Ce composant gère l'affichage, le redimensionnement (resize) et le déplacement (drag & drop)
- * d'un rendez-vous sur une grille horaire, en prenant en compte les différents types d'intervalles
- * (journée entière, demi-journée), la responsivité mobile/desktop, et la sélection/context menu.
+ * d'un rendez-vous sur une grille horaire, en prenant en compte le niveau de zoom (heures, créneaux du
+ * calendrier, journées, semaines ou mois), la responsivité mobile/desktop, et la sélection/context menu.
  * 
  * Fonctionnalités principales :
  * - Affichage du rendez-vous avec couleur, titre, et image optionnelle.
  * - Redimensionnement du rendez-vous à gauche ou à droite via des poignées (handles).
  * - Déplacement du rendez-vous via drag & drop (intégration react-dnd).
- * - Sélection du rendez-vous et gestion du contexte (clic, double-clic, menu contextuel).
- * - Calcul dynamique de la largeur et de la position selon la durée et le type d'intervalle.
+ * - Sélection du rendez-vous et gestion du contexte (clic, double-clic, menu contextuel) ;
+ *   Ctrl/Maj+clic l'ajoute à la sélection multiple, déplacée en bloc par glisser-déposer.
+ * - Calcul dynamique de la largeur et de la position selon la durée et le zoom
+ *   (barre proportionnelle à la semaine ou au mois en zoom agrégé).
+ * - Hachurage des jours non travaillés sautés par le rendez-vous (week-ends, fériés).
+ * - Brouillon du solveur de planning : bordure pointillée, ni déplacement, ni redimensionnement, ni sélection.
  * - Prise en charge du mode mobile (largeur adaptée).
  * 
  * Props :
@@ -40,13 +56,20 @@ interface AppointmentItemProps {
  * @param {boolean} props.isFullDay - Indique si le rendez-vous occupe la journée entière.
  * @param {boolean} props.isMobile - Indique si l'affichage est en mode mobile.
  * @param {boolean} props.includeWeekend - Indique si les week-ends sont visibles.
+ * @param {Date[]} props.nonWorkingDates - Dates non travaillées, hachurées sur la barre selon la politique du rendez-vous.
+ * @param {WorkingPattern} [props.workingPattern] - Semaine type de l'employé : ses créneaux de repos sont hachurés.
  * @param {() => void} props.onDoubleClick - Callback lors d'un double-clic sur le rendez-vous.
- * @param {(id: string, newStart: Date, newEnd: Date, direction: 'left' | 'right') => void} props.onResize - Callback lors du redimensionnement.
+ * @param {(id: string, newStart: Date, newEnd: Date, direction: 'left' | 'right') => string | null} props.onResize - Callback lors du redimensionnement (retourne la raison d'un refus).
  * @param {(e: React.MouseEvent, type: 'appointment', appointment: Appointment) => void} props.handleContextMenu - Callback pour le menu contextuel.
  * 
  * Hooks/Context utilisés :
  * - useSelectedCell : Gestion de la sélection de cellule dans la grille.
- * - useSelectedAppointment : Gestion de la sélection du rendez-vous courant.
+ * - useSelectedAppointment : Gestion de la sélection du rendez-vous courant et de la sélection multiple.
+ * - useHighlightedAppointments : Mise en évidence des rendez-vous modifiés par un autre utilisateur.
+ * - useDraftAppointments : Rendez-vous proposés par le solveur, non encore acceptés.
+ * - useAppointmentConflicts : Conflits de planification du rendez-vous (badge d'alerte).
+ * - useTimeSlots : Créneaux du calendrier (durée travaillée affichée dans l'info-bulle).
+ * - useZoomScale : Échelle du zoom (largeur des unités, pas du redimensionnement).
  * - useDrag, useDragLayer (react-dnd) : Gestion du drag & drop.
  * 
  * @returns {JSX.Element} Élément JSX représentant le rendez-vous interactif.
@@ -57,6 +80,8 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
   isFullDay,
   isMobile,
   includeWeekend,
+  nonWorkingDates,
+  workingPattern,
   onDoubleClick,
   onResize,
   handleContextMenu,
@@ -73,65 +98,49 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
 
   // Contextes pour la sélection
   const { selectedCell, setSelectedCell } = useSelectedCell();
-  const { selectedAppointment, setSelectedAppointment } = useSelectedAppointment();
-  const isSelected = selectedAppointment?.id === appointment.id;
+  const { selectedAppointment, setSelectedAppointment, selectedAppointmentIds, toggleAppointmentSelection } = useSelectedAppointment();
+  const isSelected = selectedAppointment?.id === appointment.id || selectedAppointmentIds.has(appointment.id);
+  // Modifié récemment par un autre utilisateur
+  const isHighlighted = useHighlightedAppointments().has(appointment.id);
+  // Proposition du solveur de planning (acceptée ou écartée par le menu contextuel)
+  const isDraft = useDraftAppointments().has(appointment.id);
+  // Conflits de planification impliquant ce rendez-vous
+  const conflicts = useAppointmentConflicts(appointment.id);
+  const slots = useTimeSlots();
+  const scale = useZoomScale();
 
-  // Largeur d'un intervalle selon le type de rendez-vous
-  const INTERVAL_WIDTH = isFullDay ? CELL_WIDTH : CELL_WIDTH / 2;
-  // Durée d'un intervalle en millisecondes
-  const INTERVAL_DURATION = isFullDay 
-    ? (DAY_INTERVALS[0].endHour - DAY_INTERVALS[0].startHour) * 60 * 60 * 1000 
-    : (HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour) * 60 * 60 * 1000;
-    
-  // Calcule le nombre d'intervalles (matin/après-midi) entre deux dates
-  // Calcule le nombre d'intervalles (matin/après-midi) entre deux dates, en sautant les week-ends si besoin
-  const getIntervalCount = useCallback((start: Date, end: Date) => {
-    const intervals = isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS;
-    let count = 0;
-    let current = new Date(start);
-    const forward = end >= start;
-    const compare = (a: Date, b: Date) => forward ? a < b : a > b;
+  // Largeur d'un intervalle (créneau affiché, ou semaine / mois entier en zoom agrégé)
+  const INTERVAL_WIDTH = scale.columnWidth / scale.intervals.length;
 
-    while (compare(current, end)) {
-      if (includeWeekend || (!isWeekend(current))) {
-        count++;
-      }
-      // Avance/recul d'un intervalle
-      let idx = intervals.findIndex(interval =>
-        current.getHours() >= interval.startHour && current.getHours() < interval.endHour
-      );
-      if (idx === -1) idx = 0;
-      if (forward) {
-        idx++;
-        if (idx >= intervals.length) {
-          idx = 0;
-          current = addDays(current, 1);
-          current.setHours(intervals[idx].startHour, 0, 0, 0);
-        } else {
-          current.setHours(intervals[idx].startHour, 0, 0, 0);
-        }
-      } else {
-        idx--;
-        if (idx < 0) {
-          idx = intervals.length - 1;
-          current = addDays(current, -1);
-          current.setHours(intervals[idx].startHour, 0, 0, 0);
-        } else {
-          current.setHours(intervals[idx].startHour, 0, 0, 0);
-        }
-      }
-    }
-    return Math.max(1, count);
-  }, [includeWeekend, isFullDay]);
+  // Calcule le nombre d'intervalles entre deux dates, en sautant les week-ends si besoin
+  // (fraction de semaine / mois en zoom agrégé, au moins un intervalle sinon)
+  const getIntervalCount = useCallback(
+    (start: Date, end: Date) => scale.aggregated ? scale.getSpan(start, end) : Math.max(1, scale.getSpan(start, end)),
+    [scale]
+  );
 
   const intervalCount = getIntervalCount(dragStart, dragEnd);
-  
-  
+
+  // Positions (en intervalles affichés) des jours sautés par le rendez-vous, dessinés hachurés
+  // (pas de hachures sur les barres agrégées d'une semaine ou d'un mois)
+  const skippedIntervals = useMemo(() =>
+    scale.aggregated ? [] : eachSlot(dragStart, dragEnd, scale.intervals)
+      .filter(slot => includeWeekend || !isWeekend(slot))
+      .flatMap((slot, index) => isAppointmentWorkedDay(slot, appointment, slots, nonWorkingDates, workingPattern) ? [] : [index]),
+    [dragStart, dragEnd, scale, includeWeekend, appointment, slots, nonWorkingDates, workingPattern]
+  );
+
+  // Durée travaillée affichée dans l'info-bulle (jours sautés exclus)
+  const workedSlots = useMemo(
+    () => countWorkedSlots(appointment, slots, nonWorkingDates, workingPattern),
+    [appointment, slots, nonWorkingDates, workingPattern]
+  );
+
 
   // Largeur calculée du rendez-vous (responsive mobile/desktop)
   const calculatedWidth = isMobile 
     ? (intervalCount >= 2 && !isFullDay ? '200%' : '100%') 
-    : `${intervalCount * INTERVAL_WIDTH}px`;
+    : `${Math.max(intervalCount * INTERVAL_WIDTH, 8)}px`;
 
   // Drag & drop avec react-dnd
   const [{ isDragging }, drag] = useDrag({
@@ -144,7 +153,7 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
       dragOffset,
       width: calculatedWidth,
     }),
-    canDrag: () => !isResizingLeft && !isResizingRight,
+    canDrag: () => !isDraft && !isResizingLeft && !isResizingRight,
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
@@ -153,8 +162,11 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
   // Savoir si un élément est en train d'être déplacé
   const isAnyDragging = useDragLayer((monitor) => monitor.isDragging());
   
-  // Décalage horizontal du bloc (en px)
-  const offsetIntervals = Math.floor((dragStart.getTime() - appointment.startDate.getTime()) / INTERVAL_DURATION);
+  // Décalage horizontal du bloc (en px), depuis le début de la semaine / du mois en zoom agrégé
+  const anchor = scale.aggregated ? scale.addUnits(appointment.startDate, 0) : appointment.startDate;
+  const offsetIntervals = dragStart >= anchor
+    ? scale.getSpan(anchor, dragStart)
+    : -scale.getSpan(dragStart, anchor);
   const offsetPx = offsetIntervals * INTERVAL_WIDTH;
 
   // Capture la position du clic dans le bloc (en px)
@@ -174,42 +186,6 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
     setDragEnd(date);
   }, []);
 
-  /**
-   * Avance ou recule la date de n intervalles (matin/après-midi/jour entier).
-   * @param date Date de départ
-   * @param n Nombre d'intervalles à avancer (positif) ou reculer (négatif)
-   * @param intervals Tableau d'intervalles (ex: HALF_DAY_INTERVALS ou DAY_INTERVALS)
-   * @returns Nouvelle date positionnée au début de l'intervalle cible
-   */
-  // Ajoute ou retire n intervalles en sautant les week-ends si besoin
-  const addInterval = useCallback((date: Date, n: number, intervals: HalfDayInterval[]): Date => {
-    let next = new Date(date);
-    let idx = intervals.findIndex(interval =>
-      next.getHours() >= interval.startHour && next.getHours() < interval.endHour
-    );
-    if (idx === -1) idx = 0;
-    let step = n >= 0 ? 1 : -1;
-    let remaining = Math.abs(n);
-    while (remaining > 0) {
-      idx += step;
-      if (idx >= intervals.length) {
-        idx = 0;
-        next = addDays(next, 1);
-      } else if (idx < 0) {
-        idx = intervals.length - 1;
-        next = addDays(next, -1);
-      }
-      // Si on ne veut pas inclure les week-ends, saute samedi/dimanche
-      if (!includeWeekend) {
-        while (next.getDay() === 0 || next.getDay() === 6) {
-          next = addDays(next, step);
-        }
-      }
-      remaining--;
-    }
-    next.setHours(intervals[idx].startHour, 0, 0, 0);
-    return next;
-  }, [includeWeekend]);
 
   // Débute le redimensionnement (gauche ou droite)
   /**
@@ -239,7 +215,7 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
    * 
    * - Si on redimensionne à gauche, la date de début est mise à jour (sans dépasser la date de fin).
    * - Si on redimensionne à droite, la date de fin est mise à jour (sans précéder la date de début).
-   * - La taille de l'intervalle dépend du type de rendez-vous (journée entière ou demi-journée).
+   * - Le pas suit le zoom : heure, créneau, journée, semaine ou mois (sans déplacement, la date est conservée).
    * 
    * @param e - L'événement souris déclenché lors du mouvement.
    */
@@ -249,29 +225,33 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
 
     const currentDx = e.clientX - initialX.current + (INTERVAL_WIDTH / 2);
     let intervalsMoved = Math.round(currentDx / INTERVAL_WIDTH);
-    const intervals = isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS;
 
     if (isResizingLeft) {
-      let newStartDate = addInterval(appointment.startDate, intervalsMoved, intervals);
+      let newStartDate = intervalsMoved === 0 ? appointment.startDate : scale.addUnits(appointment.startDate, intervalsMoved);
       if (newStartDate >= dragEndRef.current) {
-        newStartDate = addInterval(dragEndRef.current, -1, intervals);
+        newStartDate = scale.addUnits(lastUnit(dragEndRef.current), 0);
       }
       setDragStartSafe(newStartDate);
     }
     if (isResizingRight) {
-      let newEndDate = addInterval(appointment.endDate, intervalsMoved, intervals);
+      // On déplace la dernière unité du rendez-vous, puis on prend sa fin
+      let newEndDate = intervalsMoved === 0
+        ? appointment.endDate
+        : scale.getUnitEnd(scale.addUnits(lastUnit(appointment.endDate), intervalsMoved));
       if (newEndDate <= dragStartRef.current) {
-        newEndDate = addInterval(dragStartRef.current, 1, intervals);
+        newEndDate = scale.getUnitEnd(dragStartRef.current);
       }
       setDragEndSafe(newEndDate);
     }
-  }, [isResizingLeft, isResizingRight, appointment.startDate, appointment.endDate, addInterval, setDragStartSafe, setDragEndSafe]);
+  }, [isResizingLeft, isResizingRight, appointment.startDate, appointment.endDate, scale, INTERVAL_WIDTH, setDragStartSafe, setDragEndSafe]);
 
 
   // Lorsqu'on relâche la souris après un resize
   /**
    * Gère l'événement de relâchement de la souris lors du redimensionnement d'un rendez-vous.
    *
+   * Le bord déplacé est ramené sur le premier (ou dernier) créneau travaillé selon la politique du rendez-vous ;
+   * une période sans créneau travaillé est refusée et la barre reprend ses dates enregistrées.
    * Si le redimensionnement se fait à droite, appelle la fonction `onResize` avec la direction 'right'.
    * Si le redimensionnement se fait à gauche, appelle la fonction `onResize` avec la direction 'left'.
    * Réinitialise les états de redimensionnement après l'opération.
@@ -280,32 +260,34 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
    * @returns {void}
    */
   const handleMouseUp = useCallback(() => {
+    let newStartDate = dragStartRef.current;
     let newEndDate = dragEndRef.current;
-    if (!includeWeekend && (appointment.endDate > dragEndRef.current || appointment.startDate < dragStartRef.current)) {
-      const days = eachDayOfInterval({
-        start: dragStartRef.current,
-        end: addDays(dragEndRef.current, 1), // Inclut le dernier jour
-      });
-      // Nombre de jours qui sont un week-end (samedi ou dimanche)
-      const weekendCount = days.filter(day => day.getDay() === 0 || day.getDay() === 6).length;
-      const intervalsPerDay = isFullDay ? DAY_INTERVALS.length : HALF_DAY_INTERVALS.length;
-      const workedIntervals = (days.length) * intervalsPerDay;
-      newEndDate = addInterval(dragStartRef.current, workedIntervals, isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS);
-      
-      console.log('workedIntervals', workedIntervals,'newEndDate', newEndDate);
-      
+    const resized = { ...appointment, startDate: newStartDate, endDate: newEndDate };
+    const hasWorkedSlot = countWorkedSlots(resized, slots, nonWorkingDates, workingPattern) > 0;
+    if (hasWorkedSlot && !scale.aggregated) {
+      const worked = eachSlot(newStartDate, newEndDate, slots)
+        .filter(slot => isAppointmentWorkedDay(slot, appointment, slots, nonWorkingDates, workingPattern));
+      if (isResizingLeft && worked[0] > newStartDate) newStartDate = worked[0];
+      const lastWorkedEnd = getSlotEndAt(worked[worked.length - 1], slots);
+      if (isResizingRight && lastWorkedEnd < newEndDate) newEndDate = lastWorkedEnd;
     }
-   
-    if (isResizingRight) {
-      onResize(appointment.id, dragStartRef.current, newEndDate, 'right');
-    }
-    if (isResizingLeft) {
-      onResize(appointment.id, dragStartRef.current, newEndDate, 'left');
+
+    const refusal = !hasWorkedSlot
+      ? "Aucun créneau travaillé"
+      : isResizingRight
+      ? onResize(appointment.id, newStartDate, newEndDate, 'right')
+      : isResizingLeft
+      ? onResize(appointment.id, newStartDate, newEndDate, 'left')
+      : null;
+    // Redimensionnement refusé : la barre reprend ses dates enregistrées
+    if (refusal) {
+      setDragStartSafe(appointment.startDate);
+      setDragEndSafe(appointment.endDate);
     }
     
     setIsResizingLeft(false);
     setIsResizingRight(false);
-  }, [isResizingLeft, isResizingRight, onResize, appointment.id]);
+  }, [isResizingLeft, isResizingRight, onResize, scale, slots, nonWorkingDates, workingPattern, appointment, setDragStartSafe, setDragEndSafe]);
 
   
   // Ajoute/retire les listeners lors du redimensionnement
@@ -332,14 +314,16 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
       ref={(node) => { if (node) drag(node); }} // Référence pour le drag & drop
       onClick={(e) => {
         e.stopPropagation();
-        if (!isMobile) {
-          setSelectedAppointment(appointment);
+        if (!isMobile && !isDraft) {
+          // Ctrl/Cmd/Maj+clic : ajoute ou retire le rendez-vous de la sélection multiple
+          if (e.ctrlKey || e.metaKey || e.shiftKey) toggleAppointmentSelection(appointment);
+          else setSelectedAppointment(appointment);
           setSelectedCell(null);
         }
       }}
       onDoubleClick={(e) => {
         e.stopPropagation();
-        if (! isMobile) {
+        if (! isMobile && !isDraft) {
           onDoubleClick();
         }
       }}
@@ -348,18 +332,20 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
         ${color}
         absolute rounded-xl p-2 text-sm shadow-md
         flex flex-shrink-0 items-center gap-2 overflow-x-hidden whitespace-nowrap text-ellipsis
-        cursor-grab transition-all z-10 h-11
+        ${isDraft ? 'cursor-context-menu' : 'cursor-grab'} transition-all z-10 h-11
         border-blue-400
-        ${isDragging ? 'opacity-60 scale-95' : 'opacity-100'}
+        ${isDragging ? 'opacity-60 scale-95' : isDraft ? 'opacity-70' : 'opacity-100'}
         ${isSelected ? 'ring-2 ring-blue-500' : ''}
+        ${isHighlighted ? 'ring-4 ring-yellow-300 animate-pulse' : ''}
         ${isAnyDragging ? 'opacity-50 pointer-events-none' : ''}
+        ${isDraft ? 'border-2 border-dashed border-blue-500' : ''}
         hover:shadow-xl hover:bg-blue-50
       `}
-      title={appointment.title}
+      title={`${isDraft ? 'Proposition : ' : ''}${appointment.title} (${workedSlots} créneau${workedSlots > 1 ? 'x' : ''} travaillé${workedSlots > 1 ? 's' : ''})`}
       style={{
         width: calculatedWidth,
         height: `${CELL_HEIGHT + 4}px`,
-        minWidth: `${INTERVAL_WIDTH}px`,
+        minWidth: scale.aggregated ? undefined : `${INTERVAL_WIDTH}px`,
         pointerEvents: isDragging ? 'none' : 'auto',
         left: `${offsetPx}px`,
         willChange: 'width, left',
@@ -367,13 +353,25 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
       }}
       onMouseDown={handleDragStart}
     >
+      {/* Jours non travaillés sautés par le rendez-vous */}
+      {!isMobile && skippedIntervals.map(index => (
+        <div
+          key={index}
+          className="absolute top-0 h-full pointer-events-none bg-white/40"
+          style={{
+            left: `${index * INTERVAL_WIDTH}px`,
+            width: `${INTERVAL_WIDTH}px`,
+            backgroundImage: 'repeating-linear-gradient(45deg, rgba(255,255,255,0.7) 0, rgba(255,255,255,0.7) 4px, transparent 4px, transparent 8px)',
+          }}
+        />
+      ))}
       {/* Handle de redimensionnement à gauche */}
-      <div
+      {!isDraft && <div
         className="absolute left-0 top-0 h-full w-2 cursor-ew-resize z-30"
         title="Redimensionner"
         onMouseDown={(e) => handleMouseDown(e, 'left')}
         style={{borderRadius: '4px 0 0 4px'}}
-      />
+      />}
       {/* Image éventuelle */}
       {appointment.imageUrl && (
         <img
@@ -386,6 +384,19 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
       <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-700 text-xs font-bold mr-1">
         {appointment.startDate ? `${appointment.startDate.getHours().toString().padStart(2, '0')}:${appointment.startDate.getMinutes().toString().padStart(2, '0')}` : ''}
       </span>
+      {/* Badge de conflit de planification */}
+      {conflicts && (
+        <span
+          className={`px-1.5 py-0.5 rounded-full text-white text-xs font-bold mr-1 ${conflicts.some(conflict => conflict.severity === 'block') ? 'bg-red-600' : 'bg-amber-500'}`}
+          title={conflicts.map(conflict => conflict.label).join("\n")}
+        >
+          ⚠
+        </span>
+      )}
+      {/* Indicateur d'occurrence de récurrence */}
+      {appointment.recurrenceId && (
+        <span className="text-xs text-gray-500 mr-1" title="Rendez-vous récurrent">↻</span>
+      )}
       {/* Titre du rendez-vous */}
       <span className="flex-grow text-gray-800 font-semibold overflow-hidden">
         {appointment.libelle ? (
@@ -395,12 +406,12 @@ const AppointmentItem: React.FC<AppointmentItemProps> = ({
         )}
       </span>
       {/* Handle de redimensionnement à droite */}
-      <div
+      {!isDraft && <div
         className="absolute right-0 top-0 h-full w-2 cursor-ew-resize z-30"
         title="Redimensionner"
         onMouseDown={(e) => handleMouseDown(e, 'right')}
         style={{borderRadius: '0 4px 4px 0'}}
-      />
+      />}
     </div>
   );
 };
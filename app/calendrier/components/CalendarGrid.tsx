@@ -1,31 +1,40 @@
 "use client";
 import React, {useState, useMemo, memo, useCallback}from 'react';
 import {
+  addDays,
+  eachDayOfInterval,
   format,
   isSameDay,
   isWeekend,
+  startOfDay,
 } from 'date-fns';
 import DayCell from './DayCell'; // Cellule individuelle du calendrier
-import { Appointment, Employee, HalfDayInterval, Groupe } from '../types';
+import { Appointment, Employee, Groupe, TimeSlot } from '../types';
 import { fr } from 'date-fns/locale';
-import {EMPLOYEE_COLUMN_WIDTH, CELL_WIDTH, CELL_HEIGHT} from '../utils/constants'; // Constantes de style
+import {EMPLOYEE_COLUMN_WIDTH, CELL_HEIGHT} from '../utils/constants'; // Constantes de style
+import { isUnderContract } from '../utils/contracts';
+import { groupEmployeesByTeam } from '../utils/teams';
+import { useZoomScale } from '../context/ZoomScaleContext';
+import { useHolidayRegion } from '../context/HolidayRegionContext';
+import { getHolidayName } from '../utils/holidays';
 
 interface CalendarGridProps {
   employees: Employee[];
   appointments: Appointment[];
   initialTeams: Groupe[];
   dayInTimeline: Date[];
-  HALF_DAY_INTERVALS: HalfDayInterval[];
+  HALF_DAY_INTERVALS: TimeSlot[];
   isFullDay: boolean; // Indique si la cellule représente une journée complète
   selectedCalendarId: number; // ID du calendrier sélectionné, si applicable
-  nonWorkingDates: Date[]; // Dates non travaillées (week-ends, fériés, etc.)
+  nonWorkingDatesOf: (employeeId: number) => Date[]; // Dates non travaillées d'un employé (saisies, fériés et fermetures de son calendrier, fermetures de son équipe)
   isMobile: boolean;
   includeWeekend: boolean; // Indique si les week-ends doivent être inclus dans la vue mobile
-  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => void;
-  onCellDoubleClick: (date: Date, employeeId: number, intervalName: "morning" | "afternoon" | "day") => void;
+  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => string | null; // Retourne l'explication d'un refus
+  onCellDoubleClick: (date: Date, employeeId: number, intervalName: string) => void;
   onAppointmentDoubleClick: (appointment: Appointment) => void;
-  onExternalDragDrop: (title: string, date: Date, intervalName: 'morning' | 'afternoon', employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => void;
+  onExternalDragDrop: (title: string, date: Date, intervalName: string, employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => string | null; // Retourne l'explication d'un refus
   handleContextMenu: (e: React.MouseEvent, origin: 'cell' | 'appointment', appointment?: Appointment | null, cell?: { employeeId: number; date: Date }) => void; // Fonction pour gérer le clic droit
+  onEmployeeContextMenu?: (e: React.MouseEvent, employeeId: number) => void; // Clic droit sur la colonne d'un employé
 }
 
 /**
@@ -34,6 +43,8 @@ interface CalendarGridProps {
  * Affiche une grille de calendrier pour visualiser les rendez-vous des employés, regroupés par équipe,
  * sur une période donnée (timeline de jours). Gère l'affichage mobile et desktop, l'empilement des rendez-vous
  * qui se chevauchent, l'ouverture/fermeture des équipes, et l'interaction utilisateur (drag & drop, double-clic, etc.).
+ * Sur ordinateur, les colonnes suivent le niveau de zoom (useZoomScale) : jours découpés en heures ou en créneaux,
+ * jours entiers, semaines ou mois.
  * 
  * @component
  * @param {CalendarGridProps} props - Propriétés du composant
@@ -41,10 +52,10 @@ interface CalendarGridProps {
  * @param {Appointment[]} props.appointments - Liste des rendez-vous à afficher
  * @param {Team[]} props.initialTeams - Liste initiale des équipes
  * @param {Date[]} props.dayInTimeline - Liste des jours affichés dans la timeline
- * @param {number[]} props.HALF_DAY_INTERVALS - Intervalles de demi-journée pour la grille
+ * @param {TimeSlot[]} props.HALF_DAY_INTERVALS - Créneaux affichés dans chaque jour de la grille
  * @param {boolean} props.isFullDay - Indique si la vue est en journée complète
  * @param {number} props.selectedCalendarId - Identifiant du calendrier sélectionné
- * @param {Date[]} props.nonWorkingDates - Liste des jours non travaillés
+ * @param {Function} props.nonWorkingDatesOf - Jours non travaillés d'un employé (dont les fermetures)
  * @param {boolean} props.isMobile - Indique si l'affichage est mobile
  * @param {boolean} props.includeWeekend - Indique si les week-ends sont visibles
  * @param {Function} props.onAppointmentMoved - Callback lors du déplacement d'un rendez-vous
@@ -52,6 +63,7 @@ interface CalendarGridProps {
  * @param {Function} props.onAppointmentDoubleClick - Callback lors du double-clic sur un rendez-vous
  * @param {Function} props.onExternalDragDrop - Callback lors d'un drag & drop externe
  * @param {Function} props.handleContextMenu - Callback lors de l'ouverture du menu contextuel
+ * @param {Function} [props.onEmployeeContextMenu] - Callback lors du clic droit sur le nom d'un employé
  * 
  * @returns {JSX.Element} Grille de calendrier interactive
  */
@@ -64,7 +76,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
   HALF_DAY_INTERVALS,
   isFullDay,
   selectedCalendarId,
-  nonWorkingDates,
+  nonWorkingDatesOf,
   isMobile,
   includeWeekend,
   onAppointmentMoved,
@@ -72,59 +84,41 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
   onAppointmentDoubleClick,
   onExternalDragDrop,
   handleContextMenu,
+  onEmployeeContextMenu,
 }) => {
 
  
-  // État pour gérer les équipes ouvertes (affichées)
-  const [openTeams, setOpenTeams] = useState<number[]>(initialTeams.map(team => team.id));
-  // Trouve l'index du jour courant dans la timeline
-  const todayIndex = dayInTimeline.findIndex(day => 
-    format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd')
+  // État pour gérer les équipes fermées (les équipes chargées après coup sont ouvertes par défaut)
+  const [closedTeams, setClosedTeams] = useState<number[]>([]);
+  // Échelle du zoom : colonnes affichées et leur largeur
+  const scale = useZoomScale();
+  const holidayRegion = useHolidayRegion();
+  const columns = useMemo(() => scale.getColumns(dayInTimeline), [scale, dayInTimeline]);
+  // Trouve l'index de la colonne contenant le jour courant
+  const todayIndex = columns.findIndex(column => {
+    const now = new Date();
+    return startOfDay(column) <= now && now < startOfDay(scale.getColumnEnd(column));
+  });
+
+  // Hors contrat sur toute la colonne (un seul jour en dehors du zoom semaine / mois)
+  const isColumnOutOfContract = (employee: Employee, column: Date) =>
+    scale.aggregated
+      ? !eachDayOfInterval({ start: column, end: addDays(scale.getColumnEnd(column), -1) }).some(day => isUnderContract(employee, day))
+      : !isUnderContract(employee, column);
+
+  // Employés regroupés par équipe (équipe "Sans équipe" en dernier)
+  const employeesByTeam = useMemo(
+    () => groupEmployeesByTeam(employees, initialTeams, selectedCalendarId),
+    [employees, initialTeams, selectedCalendarId]
   );
-
-  /**
-   * Regroupe les employés par équipe en fonction de leur `groupId` et du calendrier sélectionné.
-   *
-   * - Pour chaque équipe dans `initialTeams`, ajoute une propriété `employees` contenant
-   *   les employés dont le `groupId` correspond à l'identifiant de l'équipe et dont le
-   *   `calendarId` correspond à l'identifiant du calendrier sélectionné.
-   * - Ajoute une équipe spéciale "Sans équipe" pour les employés qui n'ont pas de `groupId`
-   *   ou dont le `groupId` ne correspond à aucune équipe existante.
-   * - Retourne uniquement les équipes qui ont au moins un employé.
-   *
-   * @param employees La liste complète des employés.
-   * @param initialTeams La liste initiale des équipes.
-   * @param selectedCalendarId L'identifiant du calendrier sélectionné.
-   * @returns Un tableau d'équipes, chacune contenant ses employés associés.
-   */
-  const employeesByTeam = useMemo(() => {
-    const teams = initialTeams.map(team => ({
-      ...team,
-      employees: employees.filter(emp => emp.groupId === team.id && emp.calendarId.includes(selectedCalendarId))
-    }));
-
-    // Ajoute une "équipe" spéciale pour les employés sans team
-    const noTeamEmployees = employees.filter(emp =>
-      !emp.groupId || !initialTeams.some(team => team.id === emp.groupId)
-    );
-    if (noTeamEmployees.length > 0) {
-      teams.push({
-        id: -1,
-        name: "Sans équipe",
-        employees: noTeamEmployees,
-      });
-    }
-
-    return teams.filter(team => team.employees.length > 0);
-  }, [employees, initialTeams, selectedCalendarId]);
   
   
   // Ouvre/ferme une équipe dans la vue
   const toggleTeam = (teamId: number) => {
-    setOpenTeams(open =>
-      open.includes(teamId)
-        ? open.filter(id => id !== teamId)
-        : [...open, teamId]
+    setClosedTeams(closed =>
+      closed.includes(teamId)
+        ? closed.filter(id => id !== teamId)
+        : [...closed, teamId]
     );
   };  
 
@@ -337,6 +331,8 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
   
   if (isMobile) {
     const displayEmployee = employees[0];
+    // Les employés ne sont pas encore chargés
+    if (!displayEmployee) return null;
     return (
       <div className="relative h-full w-full font-inter"> {/* Enable vertical scrolling */}
       {/* Employee Header (fixed at top) */}
@@ -390,7 +386,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                 appointments={dayEmployeeAppointments}
                 intervals={HALF_DAY_INTERVALS}
                 isFullDay={isFullDay}
-                nonWorkingDates={nonWorkingDates}
+                nonWorkingDates={nonWorkingDatesOf(displayEmployee.id)}
                 isMobile={isMobile}
                 RowHeight={dayEmployeeAppointments.length > 0 ? rowHeight : CELL_HEIGHT}
                 onAppointmentMoved={onAppointmentMoved}
@@ -400,6 +396,8 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                 isWeekend={isWeekend(day)}
                 handleContextMenu={handleContextMenu}
                 isCellActive={true} // Always active for the displayed employee
+                isOutOfContract={!isUnderContract(displayEmployee, day)}
+                workingPattern={displayEmployee.workingPattern}
               />
             </div>
           );
@@ -415,9 +413,9 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
         <div
           className="grid bg-white relative calendar-grid"
           style={{
-            // Colonnes : 1 pour l'employé, puis X pour les jours
-            gridTemplateColumns: `${EMPLOYEE_COLUMN_WIDTH}px repeat(${dayInTimeline.length}, ${CELL_WIDTH}px)`,
-            width: `calc(${EMPLOYEE_COLUMN_WIDTH}px + ${dayInTimeline.length} * ${CELL_WIDTH}px)`,
+            // Colonnes : 1 pour l'employé, puis X pour les jours (ou semaines / mois selon le zoom)
+            gridTemplateColumns: `${EMPLOYEE_COLUMN_WIDTH}px repeat(${columns.length}, ${scale.columnWidth}px)`,
+            width: `calc(${EMPLOYEE_COLUMN_WIDTH}px + ${columns.length} * ${scale.columnWidth}px)`,
             minHeight: `calc(auto + ${employees.length} * ${CELL_HEIGHT}px)`,
           }}
         >
@@ -426,7 +424,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
             <div
               style={{
                 position: 'absolute',
-                left: `calc(${EMPLOYEE_COLUMN_WIDTH}px + ${todayIndex + 0.5} * ${CELL_WIDTH}px)`,
+                left: `calc(${EMPLOYEE_COLUMN_WIDTH}px + ${todayIndex + 0.5} * ${scale.columnWidth}px)`,
                 top: 0,
                 width: '2px',
                 height: '100%',
@@ -439,17 +437,42 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
           {/* Coin supérieur gauche vide (fixe) */}
           <div className={`sticky top-0 left-0 z-30 bg-gray-200 border-b border-r border-gray-300 w-[${EMPLOYEE_COLUMN_WIDTH}px] employee-column`}></div>
 
-          {/* En-tête des jours (ligne du haut) */}
-          {dayInTimeline.map((day, index) => (
+          {/* En-tête des colonnes (ligne du haut) */}
+          {columns.map((day) => (
             <div
               key={`header-day-${format(day, 'yyyy-MM-dd')}`}
               className={`
                 flex flex-col-reverse justify-end sticky top-0 z-20 bg-gray-200 
                 border-b border-r border-gray-300 text-center text-sm font-semibold text-gray-700 p-1 
-                ${isWeekend(day) ? 'bg-gray-100' : ''}
+                ${!scale.aggregated && isWeekend(day) ? 'bg-gray-100' : ''}
+                ${!scale.aggregated && getHolidayName(day, holidayRegion) ? 'bg-yellow-100' : ''}
                 day-cell
                 `}
+              title={scale.aggregated ? undefined : getHolidayName(day, holidayRegion)} // Nom du férié au survol
             >
+              {scale.level === 'week' ? (
+                <>
+                  <span className="block text-xs text-gray-500">{format(day, 'yyyy', { locale: fr })}</span>
+                  <span className="block text-xs text-gray-500">{format(day, 'd MMM', { locale: fr })}</span>
+                  <span className="block font-bold text-lg">S{getWeekNumber(day)}</span>
+                </>
+              ) : scale.level === 'month' ? (
+                <>
+                  <span className="block text-xs text-gray-500">{format(day, 'yyyy', { locale: fr })}</span>
+                  <span className="block font-bold text-lg capitalize">{format(day, 'MMMM', { locale: fr })}</span>
+                </>
+              ) : (
+              <>
+              {/* Heures de la journée en zoom horaire */}
+              {scale.level === 'hour' && (
+                <div className="flex text-[10px] font-normal text-gray-500">
+                  {scale.intervals.map(interval => (
+                    <span key={interval.name} className="block" style={{ width: scale.columnWidth / scale.intervals.length }}>
+                      {interval.label}
+                    </span>
+                  ))}
+                </div>
+              )}
               {/* Affiche le numéro de semaine en début de semaine */}
               {day.getDay() === 1 && (
                 <div className='bg-blue-400' style={{fontWeight: 'bold'}}>{getWeekNumber(day)}</div>
@@ -458,6 +481,8 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
               <span className="block text-xs text-gray-500">{format(day, 'MMM', { locale: fr })}</span>
               {day.getDate() === 1 && <span className="block text-xs text-gray-500">{format(day, 'EEEE', { locale: fr })}</span>}
               <span className="block text-xs text-gray-500">{format(day, 'yyyy', { locale: fr })}</span>
+              </>
+              )}
             </div>
           ))}
 
@@ -480,7 +505,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                       fill="currentColor" 
                       className={
                         `bi bi-chevron-right 
-                        ${openTeams.includes(team.id) ? 'rotate-90' : ''}
+                        ${!closedTeams.includes(team.id) ? 'rotate-90' : ''}
                         transition-transform duration-200 ease-in-out
                         `
                       } 
@@ -492,7 +517,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                   <span className="font-semibold text-sm text-gray-800 text-center">{team.name}</span>
                 </div>
                 {/* Cellules vides pour l'équipe (ligne grisée) */}
-                {dayInTimeline.map((day) => {
+                {columns.map((day) => {
                   return (
                     <DayCell
                       key={`${format(day, 'yyyy-MM-dd')}-${0}`}
@@ -506,13 +531,13 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                       onCellDoubleClick={onCellDoubleClick}
                       onAppointmentClick={onAppointmentDoubleClick}
                       onExternalDragDrop={onExternalDragDrop}
-                      isWeekend={isWeekend(day)}
+                      isWeekend={!scale.aggregated && isWeekend(day)}
                     />
                   );
                 })}
               </React.Fragment>
               {/* Pour chaque employé de l'équipe (si l'équipe est ouverte) */}
-              {openTeams.includes(team.id) && (
+              {!closedTeams.includes(team.id) && (
                 team.employees.map((employee) => {
                   const rowHeight = employeeHeights.find(e => e.employeeId === employee.id)?.height ?? CELL_HEIGHT;
 
@@ -529,7 +554,9 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                       style={{ 
                         width: EMPLOYEE_COLUMN_WIDTH, 
                         height: Math.max(rowHeight, CELL_HEIGHT)
-                      }}>
+                      }}
+                      onContextMenu={(e) => onEmployeeContextMenu?.(e, employee.id)}
+                      >
                       {employee.avatarUrl && (
                         <img 
                           src={employee.avatarUrl} 
@@ -539,10 +566,11 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                       )}
                       <span className="font-semibold text-sm text-gray-800 text-center">{employee.name}</span>
                     </div>
-                    {/* Cellules de jour pour cet employé */}
-                    {dayInTimeline.map((day) => {
+                    {/* Cellules de jour (ou de période) pour cet employé */}
+                    {columns.map((day) => {
+                      const columnEnd = scale.getColumnEnd(day);
                       const dayEmployeeAppointments = appointmentsWithTop.filter((app) =>
-                        isSameDay(app.startDate, day) && app.employeeId === employee.id
+                        app.startDate >= startOfDay(day) && app.startDate < startOfDay(columnEnd) && app.employeeId === employee.id
                       );
 
       
@@ -551,19 +579,22 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
                         <DayCell
                           key={`${format(day, 'yyyy-MM-dd')}-${employee.id}`}
                           day={day}
+                          columnEnd={scale.aggregated ? columnEnd : undefined}
                           employeeId={employee.id}
                           appointments={dayEmployeeAppointments}
                           intervals={HALF_DAY_INTERVALS}
                           isFullDay={isFullDay}
                           RowHeight={rowHeight}
                           isMobile={isMobile}
-                          nonWorkingDates={nonWorkingDates}
+                          nonWorkingDates={nonWorkingDatesOf(employee.id)}
                           includeWeekend={includeWeekend}
                           onAppointmentMoved={onAppointmentMoved}
                           onCellDoubleClick={onCellDoubleClick}
                           onAppointmentClick={onAppointmentDoubleClick}
                           onExternalDragDrop={onExternalDragDrop}
-                          isWeekend={isWeekend(day)}
+                          isWeekend={!scale.aggregated && isWeekend(day)}
+                          isOutOfContract={isColumnOutOfContract(employee, day)}
+                          workingPattern={employee.workingPattern}
                           handleContextMenu={handleContextMenu}
                         />
                       );
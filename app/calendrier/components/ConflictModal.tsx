@@ -0,0 +1,86 @@
+"use client";
+import React from "react";
+import { format } from "date-fns";
+import Modal from "./Modal";
+import { Appointment, AppointmentConflict, Employee } from "../types";
+
+/**
+ * Props du composant ConflictModal
+ * Présente un conflit d'écriture et laisse l'utilisateur choisir la version à conserver.
+ */
+interface ConflictModalProps {
+  conflict: AppointmentConflict | null; // Conflit affiché (null = fermé)
+  employees: Employee[]; // Pour afficher le nom de l'employé affecté
+  onKeepServer: (conflict: AppointmentConflict) => void;
+  onKeepMine: (conflict: AppointmentConflict) => void;
+  onClose: () => void;
+}
+
+// Champs comparés entre les deux versions
+const fields: { label: string; value: (app: Appointment, employees: Employee[]) => string }[] = [
+  { label: "Titre", value: app => app.title },
+  { label: "Libellé", value: app => app.libelle ?? "" },
+  { label: "Employé", value: (app, employees) => employees.find(emp => emp.id === app.employeeId)?.name ?? String(app.employeeId) },
+  { label: "Début", value: app => format(app.startDate, "dd/MM/yyyy HH:mm") },
+  { label: "Fin", value: app => format(app.endDate, "dd/MM/yyyy HH:mm") },
+  { label: "Description", value: app => app.description ?? "" },
+];
+
+/**
+ * Composant ConflictModal
+ * Affiche côte à côte la copie du serveur et ma copie, les différences étant surlignées.
+ */
+const ConflictModal: React.FC<ConflictModalProps> = ({ conflict, employees, onKeepServer, onKeepMine, onClose }) => {
+  if (!conflict) return null;
+  const { mine, server } = conflict;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Conflit de modification">
+      <p className="text-sm text-gray-600 mb-4">
+        Ce rendez-vous a été modifié par un autre utilisateur pendant que vous le {mine ? "modifiiez" : "supprimiez"}.
+        Choisissez la version à conserver.
+      </p>
+      <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="p-2 text-left"></th>
+            <th className="p-2 text-left">Serveur</th>
+            <th className="p-2 text-left">Ma version</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(({ label, value }) => {
+            const serverValue = value(server, employees);
+            const mineValue = mine ? value(mine, employees) : "";
+            const isDifferent = mine !== null && serverValue !== mineValue;
+            return (
+              <tr key={label} className={`border-t border-gray-100 ${isDifferent ? "bg-yellow-50" : ""}`}>
+                <td className="p-2 font-semibold text-gray-700">{label}</td>
+                <td className="p-2 text-gray-800">{serverValue}</td>
+                <td className="p-2 text-gray-800">{mine ? mineValue : <span className="italic text-red-600">Supprimé</span>}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex justify-end gap-2 mt-6">
+        <button
+          type="button"
+          onClick={() => onKeepServer(conflict)}
+          className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-700 font-semibold transition"
+        >
+          Garder la version du serveur
+        </button>
+        <button
+          type="button"
+          onClick={() => onKeepMine(conflict)}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold transition"
+        >
+          {mine ? "Garder ma version" : "Supprimer quand même"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ConflictModal;
@@ -0,0 +1,90 @@
+"use client";
+import React from "react";
+import { format } from "date-fns";
+import { Appointment, ContractViolation, Employee, SchedulingConflict, TimeSlot } from "../types";
+import { getSlotAt } from "../utils/slots";
+
+/**
+ * Props du composant ConflictsPanel
+ * Liste les infractions aux règles de planification et les rendez-vous hors contrat,
+ * et permet d'aller au rendez-vous concerné.
+ */
+interface ConflictsPanelProps {
+  isOpen: boolean;
+  conflicts: SchedulingConflict[];
+  contractViolations: ContractViolation[]; // Rendez-vous hors de la période de contrat de l'employé
+  appointments: Appointment[]; // Pour afficher le libellé des rendez-vous en conflit
+  employees: Employee[]; // Pour afficher le nom de l'employé concerné
+  slots: TimeSlot[]; // Pour afficher le créneau concerné
+  onSelect: (date: Date, appointmentId: number) => void; // Aller à la date du conflit
+  onClose: () => void;
+}
+
+/**
+ * Composant ConflictsPanel
+ * Panneau latéral listant les conflits par date, puis les rendez-vous hors contrat, avec un lien vers chacun.
+ */
+const ConflictsPanel: React.FC<ConflictsPanelProps> = ({ isOpen, conflicts, contractViolations, appointments, employees, slots, onSelect, onClose }) => {
+  if (!isOpen) return null;
+
+  const appointmentLabel = (id: number) => {
+    const app = appointments.find(a => a.id === id);
+    return app ? app.libelle || app.title : `#${id}`;
+  };
+  const employeeName = (id: number) => employees.find(emp => emp.id === id)?.name ?? id;
+  const slotLabel = (date: Date) =>
+    `${format(date, "dd/MM/yyyy")} ${getSlotAt(date, slots)?.label.toLowerCase() ?? format(date, "HH:mm")}`;
+
+  return (
+    <div className="fixed top-24 right-6 z-40 w-96 max-h-[70vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <span className="font-bold text-gray-800">Conflits ({conflicts.length + contractViolations.length})</span>
+        <button className="text-gray-500 hover:text-gray-800 text-xl font-bold" onClick={onClose} title="Fermer">×</button>
+      </div>
+      {conflicts.length + contractViolations.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Aucun conflit sur la période chargée.</p>
+      ) : (
+        <ul className="overflow-y-auto divide-y divide-gray-100">
+          {conflicts.map((conflict) => (
+            <li key={`${conflict.ruleId}-${conflict.appointmentIds.join("-")}`} className="p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-semibold ${conflict.severity === "block" ? "text-red-700" : "text-amber-700"}`}>{conflict.label}</span>
+                <button
+                  className="text-blue-600 hover:underline font-semibold whitespace-nowrap"
+                  onClick={() => onSelect(conflict.date, conflict.appointmentIds[0])}
+                >
+                  Voir →
+                </button>
+              </div>
+              <div className="text-gray-700">
+                {employeeName(conflict.employeeId)} · {slotLabel(conflict.date)}
+              </div>
+              <div className="text-gray-500 truncate">
+                {conflict.appointmentIds.map(appointmentLabel).join(" / ")}
+              </div>
+            </li>
+          ))}
+          {contractViolations.map((violation) => (
+            <li key={`contract-${violation.appointmentId}`} className="p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-red-700">Hors contrat</span>
+                <button
+                  className="text-blue-600 hover:underline font-semibold whitespace-nowrap"
+                  onClick={() => onSelect(violation.date, violation.appointmentId)}
+                >
+                  Voir →
+                </button>
+              </div>
+              <div className="text-gray-700">
+                {employeeName(violation.employeeId)} · {slotLabel(violation.date)}
+              </div>
+              <div className="text-gray-500 truncate">{appointmentLabel(violation.appointmentId)}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ConflictsPanel;
@@ -1,10 +1,14 @@
 "use client";
 import React, {memo, useMemo, useState}from 'react';
-import { format, setHours, setMinutes, setSeconds, setMilliseconds, isSameDay } from 'date-fns';
+import { addDays, format, isSameDay } from 'date-fns';
 import IntervalCell from './IntervalCell';
-import { Appointment, HalfDayInterval, } from '../types';
-import { isHoliday } from '../utils/dates'; // Assurez-vous d'avoir une fonction isHoliday pour vérifier les jours fériés
-import { CELL_HEIGHT, HALF_DAY_INTERVALS, DAY_INTERVALS } from '../utils/constants';
+import { Appointment, TimeSlot, WorkingPattern } from '../types';
+import { isPatternWorked } from '../utils/dates';
+import { getHolidayName } from '../utils/holidays';
+import { CELL_HEIGHT } from '../utils/constants';
+import { getSlotEnd, getSlotStart } from '../utils/slots';
+import { useTimeSlots } from '../context/TimeSlotsContext';
+import { useHolidayRegion } from '../context/HolidayRegionContext';
 import { fr } from 'date-fns/locale';
 
 /**
@@ -13,20 +17,23 @@ import { fr } from 'date-fns/locale';
  */
 interface DayCellProps {
   day: Date;
+  columnEnd?: Date; // Fin de la colonne en zoom semaine / mois (la cellule couvre toute la période)
   employeeId: number;
   appointments: (Appointment & { top: number })[];
-  intervals: HalfDayInterval[];
+  intervals: TimeSlot[]; // Créneaux affichés (créneaux du calendrier, ou un seul en journées complètes)
   isCellActive?: boolean; // Pour gérer l'état actif de la cellule si nécessaire
   isWeekend: boolean; // Pour appliquer des styles de week-end si besoin
+  isOutOfContract?: boolean; // Jour hors de la période de contrat de l'employé (grisé, non planifiable)
+  workingPattern?: WorkingPattern; // Semaine type de l'employé (demi-journées de repos fixes)
   isFullDay?: boolean; // Indique si la cellule représente une journée complète
   RowHeight?: number; // Hauteur de la ligne pour l'employé, si nécessaire
   nonWorkingDates?: Date[]; // Dates non travaillées (week-ends, fériés, etc.)
   isMobile: boolean; // Indique si l'affichage est en mode mobile
   includeWeekend?: boolean; // Indique si les week-ends doivent être inclus dans la vue mobile
-  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => void;
-  onCellDoubleClick: (date: Date, employeeId: number, intervalName: "morning" | "afternoon" | "day") => void;
+  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => string | null; // Retourne l'explication d'un refus
+  onCellDoubleClick: (date: Date, employeeId: number, intervalName: string) => void;
   onAppointmentClick: (appointment: Appointment) => void;
-  onExternalDragDrop: (title: string, date: Date, intervalName: 'morning' | 'afternoon', employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => void;
+  onExternalDragDrop: (title: string, date: Date, intervalName: string, employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => string | null; // Retourne l'explication d'un refus
   handleContextMenu?: (e: React.MouseEvent, origin: 'cell' | 'appointment', appointment?: Appointment | null, cell?: { employeeId: number; date: Date }) => void; // Fonction pour gérer le clic droit
 }
 
@@ -35,11 +42,14 @@ interface DayCellProps {
  *
  * @param {DayCellProps} props - Les propriétés du composant.
  * @param {Date} props.day - La date du jour affiché dans la cellule.
+ * @param {Date} [props.columnEnd] - Fin de la période couverte en zoom semaine / mois (jour seul par défaut).
  * @param {string} props.employeeId - L'identifiant de l'employé associé à la cellule.
  * @param {Appointment[]} [props.appointments=[]] - Liste des rendez-vous à afficher dans la cellule.
- * @param {Interval[]} [props.intervals=[]] - Liste des intervalles (matin, après-midi, etc.) pour le jour.
+ * @param {TimeSlot[]} [props.intervals=[]] - Liste des créneaux (matin, après-midi, soir...) pour le jour.
  * @param {boolean} [props.isCellActive=true] - Indique si la cellule est active (cliquable/éditable).
  * @param {boolean} props.isWeekend - Indique si le jour est un week-end.
+ * @param {boolean} [props.isOutOfContract=false] - Indique si le jour est hors du contrat de l'employé.
+ * @param {WorkingPattern} [props.workingPattern] - Semaine type de l'employé (repos fixes affichés par demi-journée).
  * @param {boolean} props.isFullDay - Indique si la cellule couvre toute la journée.
  * @param {number} props.RowHeight - Hauteur de la ligne (optionnelle).
  * @param {Date[]} props.nonWorkingDates - Liste des dates considérées comme non travaillées.
@@ -56,7 +66,7 @@ interface DayCellProps {
  * @remarks
  * - Utilise `useMemo` pour optimiser le calcul des jours fériés et non travaillés.
  * - Applique des classes CSS dynamiquement selon l'état de la cellule.
- * - Pour chaque intervalle (matin/après-midi ou journée pleine), affiche un composant `IntervalCell` avec les rendez-vous correspondants.
+ * - Pour chaque créneau (créneaux du calendrier ou journée pleine), affiche un composant `IntervalCell` avec les rendez-vous correspondants.
  * - Les rendez-vous sont filtrés différemment selon le mode mobile ou non.
  * - La hauteur minimale de la cellule est définie par `CELL_HEIGHT`.
  *
@@ -83,11 +93,14 @@ interface DayCellProps {
  */
 const DayCell: React.FC<DayCellProps> = ({
   day,
+  columnEnd,
   employeeId,
   appointments = [],
   intervals = [],
   isCellActive = true,
   isWeekend,
+  isOutOfContract = false,
+  workingPattern,
   isFullDay,
   RowHeight,
   nonWorkingDates,
@@ -100,10 +113,22 @@ const DayCell: React.FC<DayCellProps> = ({
   handleContextMenu,
 }) => {
   
+  const slots = useTimeSlots();
+  const holidayRegion = useHolidayRegion();
+
   // Calcul du style de la cellule selon férié/week-end/jour normal
-  const isFerie = useMemo(() => isHoliday(day), [day]);
+  // (une colonne de semaine ou de mois n'est pas colorée d'après son premier jour)
+  // Férié selon le pays / la région du calendrier (nom affiché au survol)
+  const holidayName = useMemo(() => columnEnd ? undefined : getHolidayName(day, holidayRegion), [day, columnEnd, holidayRegion]);
+  const isFerie = holidayName !== undefined;
+  // Date non travaillée saisie ou fermeture (les fériés, compris dans les dates non travaillées, gardent leur couleur)
   const isNonWorkingDay = useMemo(() => 
-    nonWorkingDates?.some(date => isSameDay(date, day)) ?? false, [nonWorkingDates, day]
+    !columnEnd && !isFerie && (nonWorkingDates?.some(date => isSameDay(date, day)) ?? false), [nonWorkingDates, day, columnEnd, isFerie]
+  );
+  // Jour de repos complet dans la semaine type de l'employé (temps partiel)
+  const isFullDayOff = useMemo(() =>
+    !columnEnd && !isWeekend && slots.every(slot => !isPatternWorked(getSlotStart(day, slot), slots, workingPattern)),
+    [day, columnEnd, isWeekend, slots, workingPattern]
   );
   
   // Affichage mobile compact et lecture seule
@@ -122,6 +147,8 @@ const DayCell: React.FC<DayCellProps> = ({
           ${isWeekend ? 'bg-gray-50 text-gray-400' : ''} 
           ${isFerie ? 'bg-yellow-100 text-yellow-700' : ''} 
           ${isNonWorkingDay ? 'bg-red-100 text-red-700' : ''}
+          ${isOutOfContract ? 'OUT-OF-CONTRACT text-gray-400' : ''}
+          ${isFullDayOff ? 'DAY-OFF' : ''}
           ${isToday ? 'ring-2 ring-blue-400 shadow-md' : ''}
         `}
         key={`${format(day, 'yyyy-MM-dd')}-${employeeId}`}
@@ -139,6 +166,7 @@ const DayCell: React.FC<DayCellProps> = ({
           <span className="font-bold text-base">{format(day, 'd')}</span>
           <span className="text-xs text-gray-500">{format(day, 'EEE', { locale: fr })}</span>
           {isToday && <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 text-xs font-bold">Aujourd’hui</span>}
+          {holidayName && <span className="text-xs font-semibold">{holidayName}</span>}
         </div>
         {/* Pastilles rendez-vous */}
         <div className="flex flex-row flex-wrap gap-1">
@@ -188,11 +216,10 @@ const DayCell: React.FC<DayCellProps> = ({
             {tooltip.app.description && <div className="text-xs mb-1">{tooltip.app.description}</div>}
             <div className="text-xs text-gray-500">
               {
-                tooltip.app.startDate.getHours() === HALF_DAY_INTERVALS[0].startHour && tooltip.app.endDate.getHours() === HALF_DAY_INTERVALS[0].endHour
-                  ? 'Matin'
-                  : tooltip.app.startDate.getHours() === HALF_DAY_INTERVALS[1].startHour && tooltip.app.endDate.getHours() === HALF_DAY_INTERVALS[1].endHour
-                    ? 'Après-midi'
-                    : 'Journée complète'
+                slots.find(slot =>
+                  tooltip.app!.startDate.getTime() === getSlotStart(tooltip.app!.startDate, slot).getTime() &&
+                  tooltip.app!.endDate.getTime() === getSlotEnd(tooltip.app!.startDate, slot).getTime()
+                )?.label ?? 'Journée complète'
               }
             </div>
             <button
@@ -219,12 +246,14 @@ const DayCell: React.FC<DayCellProps> = ({
               isWeekend ? 'WEEKEND' : '',
               isFerie ? 'FERIE' : '',
               isNonWorkingDay ? 'NON-WORKING' : '',
+              isOutOfContract ? 'OUT-OF-CONTRACT' : '',
             ].join(' ')
           : 'bg-gray-200'
         }
       `}
       key={`${format(day, 'yyyy-MM-dd')}-${employeeId}`}
       id={format(day, 'yyyy-MM-dd')}
+      title={holidayName}
       style={{ 
         height: 'auto',
         minHeight: CELL_HEIGHT,
@@ -232,8 +261,8 @@ const DayCell: React.FC<DayCellProps> = ({
     >
       {/* Le numéro du jour est maintenant géré par l'en-tête global dans CalendarGrid */}
       {intervals.map((interval) => {
-        const intervalStart = setMilliseconds(setSeconds(setMinutes(setHours(day, interval.startHour), 0), 0), 0);
-        const intervalEnd = setMilliseconds(setSeconds(setMinutes(setHours(day, interval.endHour), 0), 0), 0);
+        const intervalStart = getSlotStart(day, interval);
+        const intervalEnd = getSlotEnd(columnEnd ? addDays(columnEnd, -1) : day, interval);
         const intervalAppointments = appointments.filter((app) =>
           app.startDate >= intervalStart && app.startDate < intervalEnd
         );
@@ -242,7 +271,9 @@ const DayCell: React.FC<DayCellProps> = ({
             key={`${format(day, 'yyyy-MM-dd')}-${interval.name}-${employeeId}`}
             date={day}
             employeeId={employeeId}
-            intervalName={interval.name as 'morning' | 'afternoon'}
+            intervalName={interval.name}
+            intervalLabel={interval.label}
+            intervals={intervals}
             intervalStart={intervalStart}
             intervalEnd={intervalEnd}
             appointments={intervalAppointments}
@@ -253,12 +284,15 @@ const DayCell: React.FC<DayCellProps> = ({
             isNonWorkingDay={isNonWorkingDay}
             includeWeekend={includeWeekend}
             onAppointmentMoved={onAppointmentMoved}
-            onCellDoubleClick={() => onCellDoubleClick(intervalStart, employeeId, interval.name as 'morning' | 'afternoon')}
+            onCellDoubleClick={() => onCellDoubleClick(intervalStart, employeeId, interval.name)}
             onAppointmentDoubleClick={onAppointmentClick}
             onExternalDragDrop={onExternalDragDrop}
             isCellActive={isCellActive}
             isWeekend={isWeekend}
             isFerie={isFerie}
+            isOutOfContract={isOutOfContract}
+            isDayOff={!columnEnd && !isWeekend && !isPatternWorked(intervalStart, slots, workingPattern)}
+            workingPattern={workingPattern}
             handleContextMenu={handleContextMenu}
           />
         );
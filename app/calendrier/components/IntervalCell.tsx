@@ -1,36 +1,39 @@
 "use client";
 import React, { useState, memo, useCallback, useRef } from 'react';
 import { useDrop } from 'react-dnd';
-import { format, addDays, add, addHours } from 'date-fns';
+import { format } from 'date-fns';
 import AppointmentItem from './AppointmentItem';
 import InfoBubble from './InfoBubble';
-import { Appointment } from '../types';
+import { Appointment, TimeSlot, WorkingPattern } from '../types';
 import {
-  CELL_WIDTH, 
   CELL_HEIGHT, 
   colors, 
-  DAY_INTERVALS, 
-  HALF_DAY_INTERVALS,
 } from '../utils/constants';
 import { getNextWorkedDay } from '../utils/dates';
+import { addSlots, eachSlot, getSlotAt, getSlotEndAt } from '../utils/slots';
+import { isCellSelected } from '../utils/selection';
+import { useZoomScale } from '../context/ZoomScaleContext';
 import { useSelectedCell } from '../context/SelectedCellContext';
+import { useCellSelection } from '../context/CellSelectionContext';
 import { useSelectedAppointment } from '../context/SelectedAppointmentContext';
 
 /**
  * IntervalCell
- * Représente une demi-journée (matin/après-midi) pour un employé à une date donnée.
+ * Représente un créneau de la journée (matin, après-midi, soir...) pour un employé à une date donnée.
  * Gère le drag & drop, l'affichage des rendez-vous, les interactions et le style selon le contexte.
  *
  * Props :
  * - date : Date de la cellule
  * - employeeId : ID de l'employé
- * - intervalName : 'morning' | 'afternoon'
+ * - intervalName, intervalLabel : nom et libellé du créneau
+ * - intervals : créneaux affichés dans la journée
  * - intervalStart, intervalEnd : bornes de l'intervalle
  * - appointments : rendez-vous à afficher
  * - isCellActive, isWeekend, isFerie : états de la cellule
  * - isHoliday : fonction utilitaire pour les jours fériés
  * - onAppointmentMoved, onCellDoubleClick, onAppointmentDoubleClick, onExternalDragDrop : callbacks
  * - handleContextMenu : gestion du clic droit
+ * - sélection rectangulaire : glisser ou Maj+clic (useCellSelection)
  */
 
 
@@ -41,23 +44,28 @@ import { useSelectedAppointment } from '../context/SelectedAppointmentContext';
 interface IntervalCellProps {
   date: Date;
   employeeId: number;
-  intervalName: 'morning' | 'afternoon';
+  intervalName: string;
+  intervalLabel: string; // Libellé du créneau (bulle d'info)
+  intervals: TimeSlot[]; // Créneaux affichés dans la colonne (largeur des cellules)
   intervalStart: Date;
   intervalEnd: Date;
   appointments: (Appointment & { top: number })[];
   isCellActive?: boolean;
   isWeekend: boolean;
   isFerie: boolean;
+  isOutOfContract?: boolean; // Créneau hors de la période de contrat de l'employé
+  isDayOff?: boolean; // Créneau de repos dans la semaine type de l'employé
+  workingPattern?: WorkingPattern; // Semaine type de l'employé (placement sur le prochain créneau travaillé)
   isFullDay: boolean; // Indique si la cellule représente une journée complète
   RowHeight?: number; // Hauteur de la ligne pour l'employé, si nécessaire
   nonWorkingDates: Date[]; // Dates non travaillées (week-ends, fériés, etc.)
   isNonWorkingDay: boolean; // Indique si la cellule représente un jour non travaillé
   isMobile: boolean; // Indique si l'affichage est en mode mobile
   includeWeekend?: boolean; // Indique si les week-ends sont visibles.
-  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => void;
-  onCellDoubleClick: (date: Date, employeeId: number, intervalName: "morning" | "afternoon" | "day") => void;
+  onAppointmentMoved: (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: 'left' | 'right') => string | null; // Retourne l'explication d'un refus
+  onCellDoubleClick: (date: Date, employeeId: number, intervalName: string) => void;
   onAppointmentDoubleClick: (appointment: Appointment) => void;
-  onExternalDragDrop: (title: string, date: Date, intervalName: 'morning' | 'afternoon', employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => void;
+  onExternalDragDrop: (title: string, date: Date, intervalName: string, employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => string | null; // Retourne l'explication d'un refus
   handleContextMenu?: (e: React.MouseEvent, origin: 'cell' | 'appointment', appointment?: Appointment | null, cell?: { employeeId: number; date: Date }) => void;
 }
 
@@ -84,13 +92,18 @@ interface DragItem {
  * @param {Object} props - Propriétés du composant
  * @param {Date} props.date - Date de la cellule
  * @param {number} [props.employeeId=0] - Identifiant de l'employé associé à la cellule
- * @param {string} props.intervalName - Nom de l'intervalle (ex : 'morning', 'afternoon')
+ * @param {string} props.intervalName - Nom du créneau (ex : 'morning', 'afternoon', 'evening')
+ * @param {string} props.intervalLabel - Libellé du créneau (ex : 'Matin')
+ * @param {TimeSlot[]} props.intervals - Créneaux affichés dans la colonne
  * @param {Date} props.intervalStart - Date/heure de début de l'intervalle
  * @param {Date} props.intervalEnd - Date/heure de fin de l'intervalle
  * @param {Appointment[]} [props.appointments=[]] - Liste des rendez-vous dans la cellule
  * @param {boolean} [props.isCellActive=true] - Indique si la cellule est active (modifiable)
  * @param {boolean} props.isWeekend - Indique si la cellule correspond à un week-end
  * @param {boolean} props.isFerie - Indique si la cellule correspond à un jour férié
+ * @param {boolean} [props.isOutOfContract=false] - Indique si la cellule est hors du contrat de l'employé (dépôts refusés)
+ * @param {boolean} [props.isDayOff=false] - Indique si la cellule est un repos de la semaine type de l'employé
+ * @param {WorkingPattern} [props.workingPattern] - Semaine type de l'employé
  * @param {boolean} props.isFullDay - Indique si la cellule couvre toute la journée
  * @param {number} props.RowHeight - Hauteur de la ligne (en pixels)
  * @param {Date[]} props.nonWorkingDates - Liste des dates non travaillées
@@ -110,6 +123,8 @@ interface DragItem {
  *   date={new Date()}
  *   employeeId={1}
  *   intervalName="morning"
+ *   intervalLabel="Matin"
+ *   intervals={slots}
  *   intervalStart={new Date()}
  *   intervalEnd={new Date()}
  *   appointments={[]}
@@ -133,7 +148,9 @@ interface DragItem {
  * - Utilise react-dnd pour le drag & drop.
  * - Affiche une bulle d'information temporaire au clic.
  * - Permet la création de rendez-vous par double-clic.
+ * - Glisser sur les cellules (ou Maj+clic) sélectionne un rectangle de créneaux et d'employés.
  * - Gère les jours non travaillés, week-ends et jours fériés.
+ * - Le décalage au dépôt suit le zoom (useZoomScale) : heure, créneau, jour, semaine ou mois.
  * 
  * @ligne
  * // Gestion de l'état local pour la bulle d'info et sa position
@@ -149,12 +166,17 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
   date,
   employeeId = 0,
   intervalName,
+  intervalLabel,
+  intervals,
   intervalStart,
   intervalEnd,
   appointments = [],
   isCellActive = true,
   isWeekend,
   isFerie,
+  isOutOfContract = false,
+  isDayOff = false,
+  workingPattern,
   isFullDay,
   RowHeight,
   nonWorkingDates,
@@ -172,9 +194,21 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
   const [showInfoBubble, setShowInfoBubble] = useState(false);
   const [bubbleContent, setBubbleContent] = useState('');
   const bubblePosition = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+  const cellRef = useRef<HTMLDivElement | null>(null);
+  const scale = useZoomScale();
   const { selectedAppointment, setSelectedAppointment } = useSelectedAppointment();
   const { selectedCell, setSelectedCell } = useSelectedCell();
   const isSelected = selectedCell?.date.getTime() === intervalStart.getTime() && selectedCell?.employeeId === employeeId;
+  const { selection, selectCells } = useCellSelection();
+  const isInSelection = isCellSelected(selection, employeeId, intervalStart);
+
+  // Affiche dans la bulle d'info la raison d'un dépôt ou d'un redimensionnement refusé
+  const showRefusal = (reason: string) => {
+    setBubbleContent(`Action refusée : ${reason}`);
+    const rect = cellRef.current?.getBoundingClientRect();
+    if (rect) bubblePosition.current = { x: rect.left, y: rect.top };
+    setShowInfoBubble(true);
+  };
 
   // Gestion du drop (drag & drop)
   const [{ isOver, canDrop }, drop] = useDrop({
@@ -184,37 +218,48 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
         console.warn('Cell is not active, cannot drop item');
         return;
       }
+      if (isOutOfContract) {
+        showRefusal("hors de la période de contrat de l'employé");
+        return;
+      }
 
       let targetDate = intervalStart;
       let targetInterval = intervalName;
       // Si on a dragOffset et width, on centre l'event sur la cellule cible
       if (item.dragOffset !== undefined && item.width) {
         // Largeur d'une cellule (en px)
-        const intervalWidth = isFullDay ? CELL_WIDTH : CELL_WIDTH / 2;
+        const intervalWidth = scale.columnWidth / intervals.length;
         // Décalage en nombre de cellules (arrondi)
         const cellOffset = Math.ceil(-item.dragOffset / intervalWidth); // +1 pour centrer sur la cellule
         
-        targetDate = isFullDay 
-        ? addDays(intervalStart, cellOffset) 
-        : addHours(
-          intervalStart, 
-          cellOffset * HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour
-        );
+        // Unités du zoom : créneaux affichés, ou début de semaine / mois
+        targetDate = scale.addUnits(intervalStart, cellOffset);
               
         // Décale la date cible
-        targetDate = getNextWorkedDay(targetDate, isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS, nonWorkingDates);
+        const workedDate = getNextWorkedDay(targetDate, intervals, nonWorkingDates, workingPattern);
+        if (!workedDate) {
+          showRefusal("aucun créneau travaillé pour cet employé");
+          return;
+        }
+        targetDate = workedDate;
       }
 
       
-      // Si la cellule est un week-end ou férié, on place sur le prochain jour ouvré
-      if (isWeekend || isFerie || isNonWorkingDay ) {        
-        targetDate = getNextWorkedDay(date, isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS, nonWorkingDates);
-        targetInterval = 'morning'; // Par défaut, matin du prochain jour ouvré
+      // Si la cellule est un week-end, un férié ou un repos de l'employé, on place sur le prochain créneau travaillé
+      if (isWeekend || isFerie || isNonWorkingDay || isDayOff) {        
+        const workedDate = getNextWorkedDay(intervalStart, intervals, nonWorkingDates, workingPattern);
+        if (!workedDate) {
+          showRefusal("aucun créneau travaillé pour cet employé");
+          return;
+        }
+        targetDate = workedDate;
+        targetInterval = getSlotAt(targetDate, intervals)?.name ?? intervalName;
       }
       
+      let refusal: string | null;
       if (item.sourceType === 'external') {        
         // Création d'un rendez-vous depuis une source externe
-        onExternalDragDrop(
+        refusal = onExternalDragDrop(
           item.title || 'Nouveau rendez-vous', 
           targetDate, 
           targetInterval, 
@@ -223,11 +268,13 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
           item.typeEvent
         );
       } else {
-        // Déplacement d'un rendez-vous existant
-        const diff = item.endDate.getTime() - item.startDate.getTime(); // Durée du rendez-vous
-        const newDate = new Date(targetDate.getTime() + diff);        
-        onAppointmentMoved(item.id, targetDate, newDate, employeeId);
+        // Déplacement d'un rendez-vous existant : il conserve son nombre de créneaux (heures en zoom horaire)
+        const slotCount = Math.max(1, eachSlot(item.startDate, item.endDate, scale.slots).length);
+        const newDate = getSlotEndAt(addSlots(targetDate, slotCount - 1, scale.slots), scale.slots);
+        refusal = onAppointmentMoved(item.id, targetDate, newDate, employeeId);
       }
+      // Dépôt refusé par une règle bloquante : on explique pourquoi dans la bulle d'info
+      if (refusal) showRefusal(refusal);
     },
     collect: (monitor) => ({
       isOver: monitor.isOver(),
@@ -236,7 +283,7 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
   });
 
   // Détermine le style de fond selon l'état de drop et d'activité
-  const isActive = isCellActive && isOver && canDrop;
+  const isActive = isCellActive && !isOutOfContract && isOver && canDrop;
   let bgColor = '';
   if (isActive) {
     bgColor = 'bg-green-100';
@@ -251,7 +298,7 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
     if (appointments.length > 0) {
       setBubbleContent(appointments.map((app) => app.title).join(', '));
     } else {
-      setBubbleContent(`Créneau du ${format(date, 'dd/MM')} ${!isFullDay ? (intervalName === 'morning' ? '- Matin' : '- Après-midi') : ''}`);
+      setBubbleContent(`Créneau du ${format(date, 'dd/MM')} ${!isFullDay ? `- ${intervalLabel}` : ''}`);
     }
     setShowInfoBubble(true);
     const rect = (event.currentTarget as HTMLDivElement).getBoundingClientRect();
@@ -262,6 +309,14 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
     //setTimeout(() => setShowInfoBubble(false), 3000);
   };
 
+  // Début d'une sélection (ou Maj+clic : extension depuis le premier coin), hors rendez-vous de la cellule
+  const handleCellMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || event.target !== event.currentTarget) return;
+    if (!isCellActive || isOutOfContract || !employeeId) return;
+    event.preventDefault(); // Pas de sélection de texte pendant le glisser
+    selectCells({ employeeId, start: intervalStart, end: intervalEnd }, event.shiftKey ? "extend" : "start");
+  };
+
   // Double-clic pour créer un rendez-vous
   const handleCellDoubleClick = () => {    
     onCellDoubleClick(date, employeeId, isFullDay ? 'day' : intervalName);
@@ -273,24 +328,31 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
     <div
       ref={
         isCellActive ? (node) => {
+          cellRef.current = node;
           if (node) drop(node);
         } : undefined
       }
       onClick={handleCellClick}
+      onMouseDown={handleCellMouseDown}
+      onMouseEnter={() => {
+        if (isCellActive && !isOutOfContract && employeeId) selectCells({ employeeId, start: intervalStart, end: intervalEnd }, "hover");
+      }}
       onDoubleClick={() =>{  
-        if (isCellActive && !!employeeId) handleCellDoubleClick();
+        if (isCellActive && !isOutOfContract && !!employeeId) handleCellDoubleClick();
       }}
       className={`
         relative flex-1 border-b ${isCellActive ? 'border-r' : ''} 
-        ${!isCellActive && canDrop ? 'cursor-not-allowed' : ''} border-gray-200  
+        ${(!isCellActive || isOutOfContract) && canDrop ? 'cursor-not-allowed' : ''} border-gray-200  
         ${bgColor} ${canDrop ? 'cursor-pointer' : ''}
         flex flex-row items-start gap-1
         ${isSelected ? 'bg-blue-200' : ''}
+        ${isInSelection && !isSelected ? 'bg-blue-100' : ''}
+        ${isDayOff ? 'DAY-OFF' : ''}
         interval-cell
         `
       }
       style={{
-        width: !isMobile ? CELL_WIDTH / 2 : undefined,
+        width: !isMobile ? scale.columnWidth / intervals.length : undefined,
         height: Math.max(CELL_HEIGHT, RowHeight ?? CELL_HEIGHT),
         willChange: 'background-color, border-color',
       }}
@@ -307,9 +369,13 @@ const IntervalCell: React.FC<IntervalCellProps> = ({
             appointment={app}
             isFullDay={isFullDay}
             includeWeekend={includeWeekend}
+            nonWorkingDates={nonWorkingDates}
+            workingPattern={workingPattern}
             onDoubleClick={() => onAppointmentDoubleClick(app)}
             onResize={(id, newStartDate, newEndDate, resizeDirection) => {
-              onAppointmentMoved(id, newStartDate, newEndDate, app.employeeId as number, resizeDirection);
+              const refusal = onAppointmentMoved(id, newStartDate, newEndDate, app.employeeId as number, resizeDirection);
+              if (refusal) showRefusal(refusal);
+              return refusal;
             }}
             handleContextMenu={(e, origin, appointment) => handleContextMenu && handleContextMenu(e, origin, appointment, { employeeId, date: intervalStart })}
             color={colors[app.employeeId as number % colors.length]}
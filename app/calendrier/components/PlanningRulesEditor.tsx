@@ -0,0 +1,151 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Appointment, AppointmentMatcher, PlanningRule, TimeSlot } from "../types";
+
+/**
+ * Props du composant PlanningRulesEditor
+ * Édition des règles de planification dans la fenêtre des paramètres.
+ */
+interface PlanningRulesEditorProps {
+  rules: PlanningRule[]; // Règles enregistrées
+  slots: TimeSlot[]; // Créneaux proposés pour les créneaux interdits
+  onSave: (rules: PlanningRule[]) => void;
+}
+
+const TYPES: Appointment["type"][] = ["Chantier", "Absence", "Autre"];
+const WEEKDAYS = ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"];
+const inputClass = "border border-gray-300 rounded px-2 py-1 text-sm bg-white";
+
+/**
+ * Saisie d'un critère de rendez-vous (type et libellé)
+ */
+const MatcherInput: React.FC<{ matcher: AppointmentMatcher; onChange: (matcher: AppointmentMatcher) => void }> = ({ matcher, onChange }) => (
+  <span className="inline-flex gap-1">
+    <select
+      className={inputClass}
+      value={matcher.type ?? ""}
+      onChange={e => onChange({ ...matcher, type: (e.target.value || undefined) as Appointment["type"] | undefined })}
+    >
+      <option value="">Tout type</option>
+      {TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+    </select>
+    <input
+      className={`${inputClass} w-28`}
+      placeholder="Libellé"
+      value={matcher.label ?? ""}
+      onChange={e => onChange({ ...matcher, label: e.target.value || undefined })}
+    />
+  </span>
+);
+
+/**
+ * Composant PlanningRulesEditor
+ * Liste les règles (activation, gravité, critères) ; les modifications sont enregistrées ensemble.
+ */
+const PlanningRulesEditor: React.FC<PlanningRulesEditorProps> = ({ rules, slots, onSave }) => {
+  const [draft, setDraft] = useState<PlanningRule[]>(rules);
+
+  useEffect(() => setDraft(rules), [rules]);
+
+  const updateRule = (id: number, changes: Partial<PlanningRule>) =>
+    setDraft(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } as PlanningRule : rule));
+
+  const addRule = (kind: PlanningRule["kind"]) => {
+    const id = draft.reduce((max, rule) => Math.max(max, rule.id), 0) + 1;
+    const base = { id, label: "Nouvelle règle", severity: "warn" as const, enabled: true };
+    setDraft(prev => [
+      ...prev,
+      kind === "overlap"
+        ? { ...base, kind, first: { type: "Chantier" }, second: { type: "Chantier" }, scope: "halfDay" }
+        : { ...base, kind, match: { type: "Autre" }, weekday: 5, interval: slots[slots.length - 1]?.name },
+    ]);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      {draft.length === 0 && <p className="text-gray-400 italic text-sm">Aucune règle</p>}
+      {draft.map(rule => (
+        <div key={rule.id} className="flex flex-col gap-2 p-3 rounded-lg border border-gray-200 bg-white">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              title="Activer la règle"
+            />
+            <input
+              className={`${inputClass} flex-1`}
+              value={rule.label}
+              onChange={e => updateRule(rule.id, { label: e.target.value })}
+            />
+            <select
+              className={`${inputClass} ${rule.severity === "block" ? "text-red-700" : "text-amber-700"}`}
+              value={rule.severity}
+              onChange={e => updateRule(rule.id, { severity: e.target.value as PlanningRule["severity"] })}
+            >
+              <option value="warn">Avertir</option>
+              <option value="block">Bloquer</option>
+            </select>
+            <button
+              className="text-red-600 hover:text-red-800 text-xs px-2 py-1 rounded"
+              onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+            >
+              Supprimer
+            </button>
+          </div>
+          {rule.kind === "overlap" ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <MatcherInput matcher={rule.first} onChange={first => updateRule(rule.id, { first })} />
+              <span>ne peut pas chevaucher</span>
+              <MatcherInput matcher={rule.second} onChange={second => updateRule(rule.id, { second })} />
+              <select
+                className={inputClass}
+                value={rule.scope}
+                onChange={e => updateRule(rule.id, { scope: e.target.value as "halfDay" | "day" })}
+              >
+                <option value="halfDay">sur le même créneau</option>
+                <option value="day">sur la même journée</option>
+              </select>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <MatcherInput matcher={rule.match} onChange={match => updateRule(rule.id, { match })} />
+              <span>interdit le</span>
+              <select
+                className={inputClass}
+                value={rule.weekday}
+                onChange={e => updateRule(rule.id, { weekday: Number(e.target.value) })}
+              >
+                {WEEKDAYS.map((day, index) => <option key={day} value={index}>{day}</option>)}
+              </select>
+              <select
+                className={inputClass}
+                value={rule.interval ?? ""}
+                onChange={e => updateRule(rule.id, { interval: e.target.value || undefined })}
+              >
+                <option value="">toute la journée</option>
+                {slots.map(slot => <option key={slot.name} value={slot.name}>{slot.label.toLowerCase()}</option>)}
+                {rule.interval && !slots.some(slot => slot.name === rule.interval) && (
+                  <option value={rule.interval}>{rule.interval}</option>
+                )}
+              </select>
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <button className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm" onClick={() => addRule("overlap")}>
+          + Chevauchement interdit
+        </button>
+        <button className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm" onClick={() => addRule("forbiddenSlot")}>
+          + Créneau interdit
+        </button>
+        <button className="ml-auto px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition text-sm" onClick={() => onSave(draft)}>
+          Enregistrer les règles
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanningRulesEditor;
@@ -0,0 +1,104 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { addDays, endOfWeek, format, parseISO, startOfWeek } from "date-fns";
+import Modal from "./Modal";
+import { RangeCopyScope } from "../types";
+
+/**
+ * Props du composant RangeCopyModal
+ * Choix de la période et de la portée (employé, équipe, calendrier) à copier.
+ */
+interface RangeCopyModalProps {
+  date: Date | null; // Jour de la cellule d'origine (null = fermé) ; la semaine qui le contient est proposée
+  scopeLabels: Record<RangeCopyScope, string>; // Employé, équipe et calendrier de la cellule
+  onCopy: (scope: RangeCopyScope, start: Date, end: Date) => void; // end : fin exclue du dernier jour
+  onClose: () => void;
+}
+
+// Portées proposées
+const scopes: { scope: RangeCopyScope; label: string }[] = [
+  { scope: "employee", label: "Employé" },
+  { scope: "team", label: "Équipe" },
+  { scope: "calendar", label: "Calendrier" },
+];
+
+/**
+ * Composant RangeCopyModal
+ * Copie les rendez-vous d'une période, collés ensuite avec « Coller la période » sur le premier jour cible.
+ */
+const RangeCopyModal: React.FC<RangeCopyModalProps> = ({ date, scopeLabels, onCopy, onClose }) => {
+  const [scope, setScope] = useState<RangeCopyScope>("employee");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Semaine de la cellule par défaut
+  useEffect(() => {
+    if (!date) return;
+    setFrom(format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+    setTo(format(endOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+  }, [date]);
+
+  const isValid = from !== "" && to !== "" && from <= to;
+
+  return (
+    <Modal isOpen={!!date} onClose={onClose} title="Copier une période">
+      <div className="flex flex-col gap-3">
+        <div className="flex gap-2">
+          {scopes.map(({ scope: value, label }) => (
+            <button
+              key={value}
+              type="button"
+              className={`flex-1 flex flex-col items-start p-3 rounded-xl border shadow-sm transition
+                ${scope === value ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white hover:bg-blue-50"}`}
+              onClick={() => setScope(value)}
+            >
+              <span className="font-semibold text-blue-700">{label}</span>
+              <span className="text-sm text-gray-500 truncate max-w-full">{scopeLabels[value]}</span>
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="w-8">Du</span>
+          <input
+            type="date"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition flex-1"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-8">Au</span>
+          <input
+            type="date"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition flex-1"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </label>
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            disabled={!isValid}
+            onClick={() => {
+              onCopy(scope, parseISO(from), addDays(parseISO(to), 1));
+              onClose();
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Copier
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RangeCopyModal;
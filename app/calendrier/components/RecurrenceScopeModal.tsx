@@ -0,0 +1,62 @@
+"use client";
+import React from "react";
+import Modal from "./Modal";
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+/**
+ * Props du composant RecurrenceScopeModal
+ * Demande à l'utilisateur sur quelles occurrences d'une récurrence appliquer une action.
+ */
+interface RecurrenceScopeModalProps {
+  isOpen: boolean;
+  action: "edit" | "delete"; // Action en attente (modification ou suppression)
+  onSelect: (scope: RecurrenceScope) => void;
+  onClose: () => void;
+}
+
+// Libellés des choix proposés
+const scopes: { scope: RecurrenceScope; label: string; description: string }[] = [
+  { scope: "this", label: "Cette occurrence", description: "Les autres occurrences ne changent pas." },
+  { scope: "following", label: "Cette occurrence et les suivantes", description: "Les occurrences précédentes ne changent pas." },
+  { scope: "all", label: "Toutes les occurrences", description: "La récurrence entière est concernée." },
+];
+
+/**
+ * Composant RecurrenceScopeModal
+ * Affiche les trois portées possibles : cette occurrence / celle-ci et les suivantes / toutes.
+ */
+const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({ isOpen, action, onSelect, onClose }) => (
+  <Modal
+    isOpen={isOpen}
+    onClose={onClose}
+    title={action === "edit" ? "Modifier un rendez-vous récurrent" : "Supprimer un rendez-vous récurrent"}
+  >
+    <div className="flex flex-col gap-3">
+      {scopes.map(({ scope, label, description }) => (
+        <button
+          key={scope}
+          type="button"
+          className={`flex flex-col items-start p-4 rounded-xl border border-gray-200 bg-white shadow-sm transition
+            ${action === "delete" ? "hover:bg-red-50" : "hover:bg-blue-50"}`}
+          onClick={() => {
+            onSelect(scope);
+            onClose();
+          }}
+        >
+          <span className={`font-semibold ${action === "delete" ? "text-red-700" : "text-blue-700"}`}>{label}</span>
+          <span className="text-sm text-gray-500">{description}</span>
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onClose}
+        className="mt-2 w-full py-2 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-700 font-semibold transition"
+      >
+        Annuler
+      </button>
+    </div>
+  </Modal>
+);
+
+export default RecurrenceScopeModal;
@@ -0,0 +1,220 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { addDays, endOfWeek, format, parseISO, startOfWeek } from "date-fns";
+import { fr } from "date-fns/locale";
+import { CatalogItem, Employee, StaffingNeed, StaffingProposal, StaffingResult, TimeSlot } from "../types";
+import { getSlotAt } from "../utils/slots";
+import { SPREAD_PENALTY, SWITCH_PENALTY, WARNING_PENALTY } from "../utils/staffing";
+
+/**
+ * Props du composant StaffingPanel
+ * Saisie des besoins en personnel des chantiers, lancement du solveur et acceptation des propositions.
+ */
+interface StaffingPanelProps {
+  isOpen: boolean;
+  needs: StaffingNeed[]; // Besoins enregistrés
+  chantiers: CatalogItem[]; // Catalogue des chantiers
+  employees: Employee[]; // Pour afficher le nom des employés proposés
+  slots: TimeSlot[]; // Pour afficher les créneaux non couverts
+  date: Date; // Jour dont la semaine est proposée comme période
+  result: StaffingResult | null; // Proposition en cours, affichée en brouillon dans la grille
+  onSolve: (needs: StaffingNeed[], start: Date, end: Date) => void; // end : fin exclue du dernier jour
+  onAccept: (proposals: StaffingProposal[]) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "border border-gray-300 rounded px-2 py-1 text-sm bg-white";
+
+/**
+ * Composant StaffingPanel
+ * Panneau latéral « Proposer un planning » : besoins par chantier et période, puis score détaillé de la proposition
+ * et liste des rendez-vous proposés, acceptés en totalité ou en partie (cases cochées).
+ */
+const StaffingPanel: React.FC<StaffingPanelProps> = ({ isOpen, needs, chantiers, employees, slots, date, result, onSolve, onAccept, onDiscard, onClose }) => {
+  const [draft, setDraft] = useState<StaffingNeed[]>(needs);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [checked, setChecked] = useState<Set<number>>(new Set()); // Propositions retenues
+
+  useEffect(() => setDraft(needs), [needs]);
+
+  // Semaine du jour courant par défaut
+  useEffect(() => {
+    if (!isOpen) return;
+    setFrom(format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+    setTo(format(endOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+  }, [isOpen]);
+
+  // Toutes les propositions sont cochées à chaque nouveau calcul (le score n'est pas recalculé après une acceptation partielle)
+  useEffect(() => {
+    setChecked(new Set(result?.proposals.map(proposal => proposal.appointment.id) ?? []));
+  }, [result?.score]);
+
+  if (!isOpen) return null;
+
+  const updateNeed = (id: number, changes: Partial<StaffingNeed>) =>
+    setDraft(prev => prev.map(need => need.id === id ? { ...need, ...changes } : need));
+  const addNeed = () => {
+    const id = draft.reduce((max, need) => Math.max(max, need.id), 0) + 1;
+    setDraft(prev => [...prev, { id, chantier: chantiers[0]?.label ?? "", start: from, end: to, headcount: 1 }]);
+  };
+  const isValid = from !== "" && to !== "" && from <= to
+    && draft.every(need => need.chantier && need.start && need.end && need.start <= need.end && need.headcount >= 1);
+
+  const employeeName = (id: number | string) => employees.find(emp => emp.id === Number(id))?.name ?? id;
+  const selected = result?.proposals.filter(proposal => checked.has(proposal.appointment.id)) ?? [];
+  const score = result?.score;
+  const coverage = (proposed: number) =>
+    score && score.needed > 0 ? Math.round(100 * (score.covered + proposed) / score.needed) : 100;
+
+  return (
+    <div className="fixed top-24 right-6 z-40 w-[28rem] max-h-[75vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <span className="font-bold text-gray-800">Proposer un planning</span>
+        <button className="text-gray-500 hover:text-gray-800 text-xl font-bold" onClick={onClose} title="Fermer">×</button>
+      </div>
+      <div className="overflow-y-auto p-4 flex flex-col gap-3 text-sm">
+        <span className="font-semibold text-gray-700">Besoins des chantiers (employés par créneau travaillé)</span>
+        {draft.length === 0 && <p className="text-gray-400 italic">Aucun besoin</p>}
+        {draft.map(need => (
+          <div key={need.id} className="flex flex-wrap items-center gap-1 p-2 rounded-lg border border-gray-200">
+            <select
+              className={`${inputClass} flex-1`}
+              value={need.chantier}
+              onChange={e => updateNeed(need.id, { chantier: e.target.value })}
+            >
+              {!chantiers.some(item => item.label === need.chantier) && <option value={need.chantier}>{need.chantier || "Choisir un chantier"}</option>}
+              {chantiers.map(item => <option key={item.id} value={item.label}>{item.label}</option>)}
+            </select>
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} w-14`}
+              value={need.headcount}
+              onChange={e => updateNeed(need.id, { headcount: Math.max(1, Math.floor(Number(e.target.value))) })}
+              title="Employés demandés"
+            />
+            <button
+              className="text-red-600 hover:text-red-800 font-bold px-1"
+              onClick={() => setDraft(prev => prev.filter(item => item.id !== need.id))}
+              title="Supprimer ce besoin"
+            >
+              ×
+            </button>
+            <div className="flex items-center gap-1 w-full">
+              <span>Du</span>
+              <input type="date" className={`${inputClass} flex-1`} value={need.start} onChange={e => updateNeed(need.id, { start: e.target.value })} />
+              <span>au</span>
+              <input type="date" className={`${inputClass} flex-1`} value={need.end} min={need.start || undefined} onChange={e => updateNeed(need.id, { end: e.target.value })} />
+            </div>
+          </div>
+        ))}
+        <button className="self-start text-blue-600 hover:underline font-semibold" onClick={addNeed}>+ Ajouter un besoin</button>
+
+        <span className="font-semibold text-gray-700 mt-2">Période à planifier</span>
+        <div className="flex items-center gap-1">
+          <span>Du</span>
+          <input type="date" className={`${inputClass} flex-1`} value={from} onChange={e => setFrom(e.target.value)} />
+          <span>au</span>
+          <input type="date" className={`${inputClass} flex-1`} value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+        </div>
+        <button
+          disabled={!isValid}
+          onClick={() => onSolve(draft, parseISO(from), addDays(parseISO(to), 1))}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Proposer un planning
+        </button>
+
+        {result && score && (
+          <>
+            <div className="mt-2 p-3 rounded-lg bg-gray-50 border border-gray-200 flex flex-col gap-1">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-700">Score</span>
+                <span className="text-lg font-bold text-blue-700">{score.total} / 100</span>
+              </div>
+              <div>Couverture : {score.covered + score.proposed} / {score.needed} créneaux ({coverage(score.proposed)} %)</div>
+              <div className="text-gray-500 pl-2">dont {score.covered} déjà planifiés, {score.proposed} proposés</div>
+              <div>Changements de chantier : {score.switches} (−{SWITCH_PENALTY} chacun)</div>
+              <div>Écart de charge : {score.spread} créneau{score.spread > 1 ? "x" : ""} (−{SPREAD_PENALTY} chacun)</div>
+              <div>Avertissements : {score.warnings} (−{WARNING_PENALTY} chacun)</div>
+              {result.shortages.length > 0 && (
+                <div className="text-red-700" title={result.shortages.map(shortage =>
+                  `${shortage.chantier} · ${format(shortage.date, "dd/MM")} ${getSlotAt(shortage.date, slots)?.label.toLowerCase() ?? ""} : ${shortage.missing} manquant${shortage.missing > 1 ? "s" : ""}`
+                ).join("\n")}>
+                  {result.shortages.length} créneau{result.shortages.length > 1 ? "x" : ""} non couvert{result.shortages.length > 1 ? "s" : ""} (aucun employé disponible)
+                </div>
+              )}
+            </div>
+            {result.proposals.length === 0 ? (
+              <p className="text-gray-500 italic">Aucune proposition : les besoins sont couverts ou personne n&apos;est disponible.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between font-semibold text-gray-700">
+                  <span>Propositions ({selected.length} / {result.proposals.length})</span>
+                  <span className="text-gray-500 font-normal">couverture de la sélection : {coverage(selected.reduce((sum, proposal) => sum + proposal.slots, 0))} %</span>
+                </div>
+                <ul className="flex flex-col gap-1">
+                  {result.proposals.map(({ appointment, slots: count, warn }) => (
+                    <li
+                      key={appointment.id}
+                      className={`flex items-start gap-2 rounded-lg px-3 py-2 border border-dashed ${warn ? "border-yellow-400 bg-yellow-50" : "border-blue-300 bg-blue-50"}`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={checked.has(appointment.id)}
+                        onChange={e => setChecked(prev => {
+                          const next = new Set(prev);
+                          if (e.target.checked) next.add(appointment.id);
+                          else next.delete(appointment.id);
+                          return next;
+                        })}
+                      />
+                      <div>
+                        <span className="font-semibold">{appointment.title}</span>
+                        {" – "}{employeeName(appointment.employeeId)}
+                        <div className="text-gray-600">
+                          {format(appointment.startDate, "EEE dd/MM HH:mm", { locale: fr })} → {format(appointment.endDate, "EEE dd/MM HH:mm", { locale: fr })}
+                          {" · "}{count} créneau{count > 1 ? "x" : ""}
+                        </div>
+                        {warn && <div className="text-yellow-700">{warn}</div>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+      </div>
+      {result && (
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200">
+          <button
+            onClick={onDiscard}
+            className="px-3 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Écarter
+          </button>
+          <button
+            disabled={selected.length === 0}
+            onClick={() => onAccept(selected)}
+            className="px-3 py-2 bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors disabled:opacity-50"
+          >
+            Accepter la sélection
+          </button>
+          <button
+            disabled={result.proposals.length === 0}
+            onClick={() => onAccept(result.proposals)}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Tout accepter
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffingPanel;
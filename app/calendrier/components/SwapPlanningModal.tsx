@@ -0,0 +1,125 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { addDays, endOfWeek, format, parseISO, startOfWeek } from "date-fns";
+import Modal from "./Modal";
+import { Appointment, Employee } from "../types";
+
+/**
+ * Props du composant SwapPlanningModal
+ * Échange les rendez-vous de deux employés sur une période.
+ */
+interface SwapPlanningModalProps {
+  origin: { employeeId: number; date: Date } | null; // Premier employé et jour proposés (null = fermé)
+  employees: Employee[]; // Employés dans l'ordre d'affichage
+  onSwap: (firstId: number, secondId: number, start: Date, end: Date, types: Appointment["type"][]) => void; // end : fin exclue
+  onClose: () => void;
+}
+
+// Types de rendez-vous proposés (tous échangés par défaut)
+const swapTypes: Appointment["type"][] = ["Chantier", "Absence", "Autre"];
+
+/**
+ * Composant SwapPlanningModal
+ * Choix des deux employés, de la période (semaine du jour d'origine par défaut) et des types échangés.
+ */
+const SwapPlanningModal: React.FC<SwapPlanningModalProps> = ({ origin, employees, onSwap, onClose }) => {
+  const [firstId, setFirstId] = useState<number | null>(null);
+  const [secondId, setSecondId] = useState<number | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [types, setTypes] = useState<Appointment["type"][]>(swapTypes);
+
+  // Employé d'origine, son voisin dans la grille et la semaine du jour d'origine par défaut
+  useEffect(() => {
+    if (!origin) return;
+    const index = employees.findIndex(emp => emp.id === origin.employeeId);
+    setFirstId(origin.employeeId);
+    setSecondId(employees[index + 1]?.id ?? employees[index - 1]?.id ?? null);
+    setFrom(format(startOfWeek(origin.date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+    setTo(format(endOfWeek(origin.date, { weekStartsOn: 1 }), "yyyy-MM-dd"));
+    setTypes(swapTypes);
+  }, [origin, employees]);
+
+  if (!origin) return null;
+  const isValid = firstId !== null && secondId !== null && firstId !== secondId
+    && from !== "" && to !== "" && from <= to && types.length > 0;
+
+  const employeeSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select
+      className="border border-gray-300 rounded-lg px-3 py-2 flex-1"
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+    >
+      <option value="" disabled>Choisir un employé</option>
+      {employees.map(emp => (
+        <option key={emp.id} value={emp.id}>{emp.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Échanger les plannings">
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+          {employeeSelect(firstId, setFirstId)}
+          <span className="text-gray-500">⇄</span>
+          {employeeSelect(secondId, setSecondId)}
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="w-8">Du</span>
+          <input
+            type="date"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition flex-1"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-8">Au</span>
+          <input
+            type="date"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition flex-1"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </label>
+        <div className="flex gap-4">
+          {swapTypes.map(type => (
+            <label key={type} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                onChange={(e) => setTypes(prev => e.target.checked ? [...prev, type] : prev.filter(item => item !== type))}
+              />
+              {type}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          type="button"
+          disabled={!isValid}
+          onClick={() => {
+            if (firstId === null || secondId === null) return;
+            onSwap(firstId, secondId, parseISO(from), addDays(parseISO(to), 1), types);
+            onClose();
+          }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Échanger
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default SwapPlanningModal;
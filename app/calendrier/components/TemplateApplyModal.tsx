@@ -0,0 +1,151 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import Modal from "./Modal";
+import { Employee, PlanningTemplate, TemplatePreviewItem } from "../types";
+
+/**
+ * Props du composant TemplateApplyModal
+ * Applique un modèle de planning à une date et à des employés, après aperçu.
+ */
+interface TemplateApplyModalProps {
+  cell: { employeeId: number; date: Date } | null; // Cellule d'origine : date et premier employé proposés (null = fermé)
+  templates: PlanningTemplate[]; // Modèles disponibles
+  employees: Employee[]; // Employés dans l'ordre d'affichage
+  getPreview: (template: PlanningTemplate, start: Date, employeeIds: (number | undefined)[]) => TemplatePreviewItem[];
+  onApply: (template: PlanningTemplate, start: Date, employeeIds: (number | undefined)[]) => void;
+  onDelete: (template: PlanningTemplate) => void;
+  onClose: () => void;
+}
+
+/**
+ * Composant TemplateApplyModal
+ * Choix du modèle, du premier jour et de l'employé de chaque ligne ; l'aperçu liste les rendez-vous
+ * qui seront créés et les conflits avec le planning (les rendez-vous refusés ne seront pas créés).
+ */
+const TemplateApplyModal: React.FC<TemplateApplyModalProps> = ({ cell, templates, employees, getPreview, onApply, onDelete, onClose }) => {
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [start, setStart] = useState("");
+  const [rowEmployees, setRowEmployees] = useState<(number | undefined)[]>([]);
+  const template = templates.find(item => item.id === templateId) ?? templates[0];
+
+  // Date de la cellule par défaut
+  useEffect(() => {
+    if (cell) setStart(format(cell.date, "yyyy-MM-dd"));
+  }, [cell]);
+
+  // Employés proposés : celui de la cellule puis les suivants dans l'ordre d'affichage
+  useEffect(() => {
+    if (!cell || !template) return;
+    const first = Math.max(0, employees.findIndex(emp => emp.id === cell.employeeId));
+    setRowEmployees(template.rows.map((_, index) => employees[first + index]?.id));
+  }, [cell, template, employees]);
+
+  const preview = useMemo(
+    () => cell && template && start ? getPreview(template, parseISO(start), rowEmployees) : [],
+    [cell, template, start, rowEmployees, getPreview]
+  );
+  const blocked = preview.filter(item => item.block).length;
+
+  if (!cell) return null;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Appliquer un modèle">
+      {!template ? (
+        <div className="text-gray-500 italic text-center">
+          Aucun modèle : sélectionnez des cellules puis « Enregistrer comme modèle ».
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <div className="flex gap-2">
+            <select
+              className="border border-gray-300 rounded-lg px-3 py-2 flex-1"
+              value={template.id}
+              onChange={(e) => setTemplateId(Number(e.target.value))}
+            >
+              {templates.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onDelete(template)}
+              className="px-3 py-2 rounded-lg bg-red-100 text-red-700 hover:bg-red-200 transition"
+              title="Supprimer ce modèle"
+            >
+              Supprimer
+            </button>
+          </div>
+          <label className="flex items-center gap-2">
+            <span>À partir du</span>
+            <input
+              type="date"
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition flex-1"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+            />
+          </label>
+          {template.rows.map((row, index) => (
+            <label key={index} className="flex items-center gap-2">
+              <span className="w-1/3 truncate" title={row}>{row}</span>
+              <select
+                className="border border-gray-300 rounded-lg px-3 py-2 flex-1"
+                value={rowEmployees[index] ?? ""}
+                onChange={(e) => {
+                  const value = e.target.value ? Number(e.target.value) : undefined;
+                  setRowEmployees(prev => template.rows.map((_, i) => i === index ? value : prev[i]));
+                }}
+              >
+                <option value="">— Ligne ignorée —</option>
+                {employees.map(emp => (
+                  <option key={emp.id} value={emp.id}>{emp.name}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <div className="text-sm font-semibold text-gray-700 mt-2">
+            Aperçu : {preview.length - blocked} rendez-vous créé{preview.length - blocked > 1 ? "s" : ""}
+            {blocked > 0 && `, ${blocked} refusé${blocked > 1 ? "s" : ""}`}
+          </div>
+          <ul className="max-h-60 overflow-y-auto flex flex-col gap-1 text-sm">
+            {preview.map(({ appointment, block, warn }, index) => (
+              <li
+                key={index}
+                className={`rounded-lg px-3 py-2 border ${block ? "border-red-300 bg-red-50 line-through decoration-red-400" : warn ? "border-yellow-300 bg-yellow-50" : "border-gray-200 bg-white"}`}
+              >
+                <span className="font-semibold">{appointment.title}</span>
+                {" – "}{employees.find(emp => emp.id === appointment.employeeId)?.name}
+                {" – "}{format(appointment.startDate, "EEE dd/MM HH:mm", { locale: fr })} → {format(appointment.endDate, "EEE dd/MM HH:mm", { locale: fr })}
+                {(block || warn) && <div className={`no-underline ${block ? "text-red-700" : "text-yellow-700"}`}>{block ?? warn}</div>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          type="button"
+          disabled={!template || preview.length === blocked}
+          onClick={() => {
+            if (!template) return;
+            onApply(template, parseISO(start), rowEmployees);
+            onClose();
+          }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Appliquer
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateApplyModal;
@@ -0,0 +1,86 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import Modal from "./Modal";
+import { CellSelection, Employee } from "../types";
+
+/**
+ * Props du composant TemplateSaveModal
+ * Enregistre la sélection rectangulaire comme modèle de planning.
+ */
+interface TemplateSaveModalProps {
+  selection: CellSelection | null; // Sélection enregistrée (null = fermé)
+  employees: Employee[]; // Pour nommer les lignes par défaut
+  assignmentCount: number; // Rendez-vous repris dans le modèle
+  onSave: (name: string, rows: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Composant TemplateSaveModal
+ * Demande le nom du modèle et le libellé de chaque ligne (rôle ou place d'employé).
+ */
+const TemplateSaveModal: React.FC<TemplateSaveModalProps> = ({ selection, employees, assignmentCount, onSave, onClose }) => {
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<string[]>([]);
+
+  // Lignes nommées d'après les employés sélectionnés
+  useEffect(() => {
+    if (!selection) return;
+    setName("");
+    setRows(selection.employeeIds.map(id => employees.find(emp => emp.id === id)?.name ?? `Employé ${id}`));
+  }, [selection, employees]);
+
+  if (!selection) return null;
+  const isValid = !!name.trim() && rows.every(row => row.trim());
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Enregistrer comme modèle">
+      <div className="mb-4 text-sm text-gray-600">
+        {assignmentCount} rendez-vous du {format(selection.start, "dd/MM/yyyy")} au {format(selection.end, "dd/MM/yyyy")},
+        repris relativement au premier jour.
+      </div>
+      <div className="flex flex-col gap-3">
+        <input
+          type="text"
+          placeholder="Nom du modèle"
+          className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <span className="text-sm font-semibold text-gray-700">Lignes (rôle ou place d&apos;employé)</span>
+        {rows.map((row, index) => (
+          <input
+            key={index}
+            type="text"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
+            value={row}
+            onChange={(e) => setRows(prev => prev.map((item, i) => i === index ? e.target.value : item))}
+          />
+        ))}
+      </div>
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          type="button"
+          disabled={!isValid}
+          onClick={() => {
+            onSave(name.trim(), rows.map(row => row.trim()));
+            onClose();
+          }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Enregistrer
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateSaveModal;
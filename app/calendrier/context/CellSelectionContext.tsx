@@ -0,0 +1,11 @@
+// CellSelectionContext.tsx
+import { createContext, useContext } from "react";
+import { CellSelection, GridCell } from "../types";
+// Sélection rectangulaire de cellules (glisser ou Maj+clic) :
+// "start" pose le premier coin, "extend" déplace le second, "hover" le déplace seulement pendant un glisser
+export const CellSelectionContext = createContext<{
+  selection: CellSelection | null;
+  selectCells: (cell: GridCell, mode: "start" | "extend" | "hover") => void;
+}>({ selection: null, selectCells: () => {} });
+
+export const useCellSelection = () => useContext(CellSelectionContext);
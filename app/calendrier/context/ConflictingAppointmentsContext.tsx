@@ -0,0 +1,7 @@
+// ConflictingAppointmentsContext.tsx
+import { createContext, useContext } from "react";
+import { SchedulingConflict } from "../types";
+// Conflits de planification indexés par ID de rendez-vous (badge affiché sur chaque rendez-vous concerné)
+export const ConflictingAppointmentsContext = createContext<Map<number, SchedulingConflict[]>>(new Map());
+
+export const useAppointmentConflicts = (id: number) => useContext(ConflictingAppointmentsContext).get(id);
@@ -0,0 +1,6 @@
+// DraftAppointmentsContext.tsx
+import { createContext, useContext } from "react";
+// IDs des rendez-vous proposés par le solveur de planning, affichés en brouillon jusqu'à leur acceptation
+export const DraftAppointmentsContext = createContext<Set<number>>(new Set());
+
+export const useDraftAppointments = () => useContext(DraftAppointmentsContext);
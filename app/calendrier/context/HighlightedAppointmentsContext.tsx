@@ -0,0 +1,6 @@
+// HighlightedAppointmentsContext.tsx
+import { createContext, useContext } from "react";
+// IDs des rendez-vous modifiés récemment par un autre utilisateur (mis en évidence quelques secondes)
+export const HighlightedAppointmentsContext = createContext<Set<number>>(new Set());
+
+export const useHighlightedAppointments = () => useContext(HighlightedAppointmentsContext);
@@ -0,0 +1,8 @@
+// HolidayRegionContext.tsx
+import { createContext, useContext } from "react";
+import { HolidayRegion } from "../types";
+import { DEFAULT_HOLIDAY_REGION } from "../utils/constants";
+// Pays et région des jours fériés du calendrier affiché (fériés nationaux français par défaut)
+export const HolidayRegionContext = createContext<HolidayRegion>(DEFAULT_HOLIDAY_REGION);
+
+export const useHolidayRegion = () => useContext(HolidayRegionContext);
@@ -3,7 +3,14 @@ import { createContext, useContext } from "react";
 import { Appointment } from "../types";
 export const SelectedAppointmentContext = createContext<{
   selectedAppointment: Appointment | null;
-  setSelectedAppointment: (appointment: Appointment | null) => void;
-}>({ selectedAppointment: null, setSelectedAppointment: () => {} });
+  setSelectedAppointment: (appointment: Appointment | null) => void; // Sélection simple (remplace la sélection multiple)
+  selectedAppointmentIds: Set<number>; // Rendez-vous sélectionnés (Ctrl/Maj+clic ou lasso)
+  toggleAppointmentSelection: (appointment: Appointment) => void; // Ajoute ou retire un rendez-vous de la sélection
+}>({
+  selectedAppointment: null,
+  setSelectedAppointment: () => {},
+  selectedAppointmentIds: new Set(),
+  toggleAppointmentSelection: () => {},
+});
 
-export const useSelectedAppointment = () => useContext(SelectedAppointmentContext);
\ No newline at end of file
+export const useSelectedAppointment = () => useContext(SelectedAppointmentContext);
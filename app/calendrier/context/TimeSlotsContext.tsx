@@ -0,0 +1,8 @@
+// TimeSlotsContext.tsx
+import { createContext, useContext } from "react";
+import { TimeSlot } from "../types";
+import { HALF_DAY_INTERVALS } from "../utils/constants";
+// Créneaux de la journée du calendrier affiché (demi-journées par défaut)
+export const TimeSlotsContext = createContext<TimeSlot[]>(HALF_DAY_INTERVALS);
+
+export const useTimeSlots = () => useContext(TimeSlotsContext);
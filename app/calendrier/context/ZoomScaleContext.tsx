@@ -0,0 +1,8 @@
+// ZoomScaleContext.tsx
+import { createContext, useContext } from "react";
+import { HALF_DAY_INTERVALS } from "../utils/constants";
+import { createZoomScale, ZoomScale } from "../utils/zoom";
+// Échelle de la grille pour le niveau de zoom choisi (colonnes, largeur, pas des déplacements)
+export const ZoomScaleContext = createContext<ZoomScale>(createZoomScale("halfDay", HALF_DAY_INTERVALS, true));
+
+export const useZoomScale = () => useContext(ZoomScaleContext);
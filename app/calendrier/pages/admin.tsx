@@ -0,0 +1,815 @@
+/**
+ * Page Administration
+ * -----------------------------------
+ * Gestion des employés, des équipes et des calendriers sans redéploiement.
+ * - Création et modification via les routes /api/employees, /api/teams et /api/calendars.
+ * - Désactivation (active: false) plutôt que suppression, pour conserver l'historique du planning.
+ * - Pour les employés : contrat et ses dates, missions des intérimaires, semaine type (temps partiel),
+ *   équipe (groupId) et calendriers associés (calendarId).
+ * - Pour les calendriers : créneaux de la journée (matin / après-midi par défaut) et pays / région des jours fériés.
+ * - Fermetures : périodes de fermeture nommées (ponctuelles ou annuelles), rattachées à des calendriers ou des équipes.
+ * - Sauvegarde : export JSON complet du planning et import (fusion ou remplacement) via /api/snapshot.
+ *
+ * Auteur : GandaraSolution
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Calendar, ClosureCalendar, ClosurePeriod, Employee, Groupe, MissionPeriod, SnapshotImportReport, TimeSlot, WorkingPattern } from "../types";
+import { DEFAULT_HOLIDAY_REGION, FULL_TIME_PATTERN, HALF_DAY_INTERVALS } from "../utils/constants";
+import { getHolidayCountries, getHolidayRegions } from "../utils/holidays";
+import { formatSlotHour } from "../utils/slots";
+import {
+  fetchCalendars,
+  fetchClosures,
+  fetchEmployees,
+  fetchTeams,
+  importSnapshotApi,
+  saveCalendarApi,
+  saveClosureApi,
+  saveEmployeeApi,
+  saveTeamApi,
+  SNAPSHOT_EXPORT_URL,
+} from "../utils/api";
+
+type AdminTab = "employees" | "teams" | "calendars" | "closures" | "backup";
+
+const tabs: { id: AdminTab; label: string }[] = [
+  { id: "employees", label: "Employés" },
+  { id: "teams", label: "Équipes" },
+  { id: "calendars", label: "Calendriers" },
+  { id: "closures", label: "Fermetures" },
+  { id: "backup", label: "Sauvegarde" },
+];
+
+const CONTRATS: Employee["contrat"][] = ["CDI", "CDD", "Intérimaire"];
+
+const inputClassName = "border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition";
+
+/**
+ * Page d'administration des référentiels du planning.
+ *
+ * @component
+ * @returns {JSX.Element} Onglets Employés / Équipes / Calendriers avec formulaires d'édition.
+ */
+export default function AdminPage() {
+  const [activeTab, setActiveTab] = useState<AdminTab>("employees");
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [teams, setTeams] = useState<Groupe[]>([]);
+  const [calendars, setCalendars] = useState<Calendar[]>([]);
+  const [closures, setClosures] = useState<ClosureCalendar[]>([]);
+  const [editedEmployee, setEditedEmployee] = useState<Partial<Employee> | null>(null);
+  const [editedTeam, setEditedTeam] = useState<Partial<Groupe> | null>(null);
+  const [editedCalendar, setEditedCalendar] = useState<Partial<Calendar> | null>(null);
+  const [editedClosure, setEditedClosure] = useState<Partial<ClosureCalendar> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Chargement initial des référentiels
+  const reload = useCallback(() => {
+    Promise.all([fetchEmployees(), fetchTeams(), fetchCalendars(), fetchClosures()])
+      .then(([emps, grps, cals, closed]) => {
+        setEmployees(emps);
+        setTeams(grps);
+        setCalendars(cals);
+        setClosures(closed);
+      })
+      .catch((err) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Enregistre un élément puis recharge les listes
+  const save = useCallback(<T,>(request: Promise<T>, onDone: () => void) => {
+    request
+      .then(() => {
+        setError(null);
+        onDone();
+        reload();
+      })
+      .catch((err) => setError(err.message));
+  }, [reload]);
+
+  const contractPeriod = (emp: Employee) =>
+    [
+      emp.contractStart && `du ${formatDateKey(emp.contractStart)}`,
+      emp.contractEnd && `au ${formatDateKey(emp.contractEnd)}`,
+      emp.contrat === "Intérimaire" && emp.missions?.length && `${emp.missions.length} mission(s)`,
+      emp.workingPattern?.slice(1, 6).some((day) => !day.morning || !day.afternoon) && "temps partiel",
+    ].filter(Boolean).join(" ");
+  const teamName = (id?: number) => teams.find((team) => team.id === id)?.name ?? "Sans équipe";
+  const calendarNames = (ids: number[]) =>
+    ids.map((id) => calendars.find((cal) => cal.id === id)?.name ?? `#${id}`).join(", ");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="sticky top-0 z-30 bg-white shadow-lg px-8 py-4 flex items-center justify-between rounded-b-2xl border-b border-gray-200">
+        <span className="text-2xl font-bold text-blue-700 tracking-tight">Administration</span>
+        <Link href="/" className="px-4 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition font-semibold shadow">
+          Retour au planning
+        </Link>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6 flex flex-col gap-4">
+        <div className="flex gap-2">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              className={`px-4 py-2 rounded-xl font-semibold transition ${activeTab === tab.id ? "bg-blue-600 text-white" : "bg-white border border-gray-300 hover:bg-blue-50"}`}
+              onClick={() => setActiveTab(tab.id)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-800 px-4 py-2 rounded-xl border border-red-300">{error}</div>
+        )}
+
+        {/* Onglet Employés */}
+        {activeTab === "employees" && (
+          <div className="bg-white rounded-2xl shadow p-4 flex flex-col gap-4">
+            <button
+              className="self-end px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+              onClick={() => setEditedEmployee({ name: "", contrat: "CDI", calendarId: [], active: true })}
+            >
+              Nouvel employé
+            </button>
+            {editedEmployee && (
+              <form
+                className="flex flex-col gap-3 bg-gray-50 rounded-xl p-4 border border-gray-200"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  // Modification : une date de contrat vidée est envoyée à null pour être retirée
+                  const contractDates = editedEmployee.id
+                    ? { contractStart: editedEmployee.contractStart ?? null, contractEnd: editedEmployee.contractEnd ?? null }
+                    : {};
+                  save(saveEmployeeApi({ ...editedEmployee, ...contractDates } as Partial<Employee>), () => setEditedEmployee(null));
+                }}
+              >
+                <div className="flex flex-wrap gap-3">
+                  <input
+                    className={inputClassName}
+                    placeholder="Nom"
+                    required
+                    value={editedEmployee.name ?? ""}
+                    onChange={(e) => setEditedEmployee({ ...editedEmployee, name: e.target.value })}
+                  />
+                  <input
+                    className={inputClassName}
+                    placeholder="URL de l'avatar (optionnel)"
+                    value={editedEmployee.avatarUrl ?? ""}
+                    onChange={(e) => setEditedEmployee({ ...editedEmployee, avatarUrl: e.target.value || undefined })}
+                  />
+                  <select
+                    className={inputClassName}
+                    value={editedEmployee.contrat}
+                    onChange={(e) => setEditedEmployee({ ...editedEmployee, contrat: e.target.value as Employee["contrat"] })}
+                  >
+                    {CONTRATS.map((contrat) => (
+                      <option key={contrat} value={contrat}>{contrat}</option>
+                    ))}
+                  </select>
+                  <select
+                    className={inputClassName}
+                    value={editedEmployee.groupId ?? ""}
+                    onChange={(e) => setEditedEmployee({ ...editedEmployee, groupId: e.target.value ? Number(e.target.value) : undefined })}
+                  >
+                    <option value="">Sans équipe</option>
+                    {teams.filter((team) => team.active !== false).map((team) => (
+                      <option key={team.id} value={team.id}>{team.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2">
+                    Début du contrat
+                    <input
+                      type="date"
+                      className={inputClassName}
+                      value={editedEmployee.contractStart ?? ""}
+                      onChange={(e) => setEditedEmployee({ ...editedEmployee, contractStart: e.target.value || undefined })}
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Fin du contrat
+                    <input
+                      type="date"
+                      className={inputClassName}
+                      value={editedEmployee.contractEnd ?? ""}
+                      onChange={(e) => setEditedEmployee({ ...editedEmployee, contractEnd: e.target.value || undefined })}
+                    />
+                  </label>
+                </div>
+                {editedEmployee.contrat === "Intérimaire" && (
+                  <MissionsEditor
+                    missions={editedEmployee.missions ?? []}
+                    onChange={(missions) => setEditedEmployee({ ...editedEmployee, missions })}
+                  />
+                )}
+                <WorkingPatternEditor
+                  pattern={editedEmployee.workingPattern ?? FULL_TIME_PATTERN}
+                  onChange={(workingPattern) => setEditedEmployee({ ...editedEmployee, workingPattern })}
+                />
+                <div className="flex flex-wrap gap-4">
+                  <span className="text-sm font-medium text-gray-700">Calendriers :</span>
+                  {calendars.filter((cal) => cal.active !== false).map((cal) => (
+                    <label key={cal.id} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={editedEmployee.calendarId?.includes(cal.id) ?? false}
+                        onChange={(e) => {
+                          const ids = editedEmployee.calendarId ?? [];
+                          setEditedEmployee({
+                            ...editedEmployee,
+                            calendarId: e.target.checked ? [...ids, cal.id] : ids.filter((id) => id !== cal.id),
+                          });
+                        }}
+                      />
+                      {cal.name}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-3">
+                  <button type="button" className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors" onClick={() => setEditedEmployee(null)}>
+                    Annuler
+                  </button>
+                  <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors">
+                    Enregistrer
+                  </button>
+                </div>
+              </form>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">Nom</th>
+                  <th>Contrat</th>
+                  <th>Équipe</th>
+                  <th>Calendriers</th>
+                  <th>Statut</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map((emp) => (
+                  <tr key={emp.id} className={`border-b ${emp.active === false ? "opacity-50" : ""}`}>
+                    <td className="py-2 font-semibold">{emp.name}</td>
+                    <td>
+                      {emp.contrat}
+                      {contractPeriod(emp) && <span className="block text-xs text-gray-500">{contractPeriod(emp)}</span>}
+                    </td>
+                    <td>{emp.groupId ? teamName(emp.groupId) : "Sans équipe"}</td>
+                    <td>{calendarNames(emp.calendarId)}</td>
+                    <td>{emp.active === false ? "Désactivé" : "Actif"}</td>
+                    <td className="flex gap-2 justify-end py-2">
+                      <button className="text-blue-600 hover:underline" onClick={() => setEditedEmployee(emp)}>Modifier</button>
+                      <button
+                        className={emp.active === false ? "text-green-700 hover:underline" : "text-red-600 hover:underline"}
+                        onClick={() => save(saveEmployeeApi({ id: emp.id, active: emp.active === false }), () => undefined)}
+                      >
+                        {emp.active === false ? "Réactiver" : "Désactiver"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Onglet Équipes */}
+        {activeTab === "teams" && (
+          <NamedItemsPanel
+            items={teams}
+            edited={editedTeam}
+            newLabel="Nouvelle équipe"
+            setEdited={setEditedTeam}
+            onSave={(team, onDone) => save(saveTeamApi(team), onDone)}
+            countLabel={(team) => `${employees.filter((emp) => emp.groupId === team.id && emp.active !== false).length} employé(s)`}
+          />
+        )}
+
+        {/* Onglet Calendriers */}
+        {activeTab === "calendars" && (
+          <NamedItemsPanel
+            items={calendars}
+            edited={editedCalendar}
+            newLabel="Nouveau calendrier"
+            setEdited={setEditedCalendar}
+            onSave={(calendar, onDone) =>
+              // Modification : des créneaux retirés sont envoyés à null pour revenir aux créneaux par défaut
+              // (de même pour les fériés, qui reviennent aux fériés nationaux français)
+              save(saveCalendarApi((calendar.id && calendar.name !== undefined
+                ? { ...calendar, slots: calendar.slots ?? null, holidayCountry: calendar.holidayCountry ?? null, holidayRegion: calendar.holidayRegion ?? null }
+                : calendar) as Partial<Calendar>), onDone)
+            }
+            countLabel={(calendar) =>
+              [
+                `${employees.filter((emp) => emp.calendarId.includes(calendar.id) && emp.active !== false).length} employé(s)`,
+                calendar.slots && calendar.slots.map((slot) => slot.label).join(" / "),
+                (calendar.holidayCountry || calendar.holidayRegion) &&
+                  `Fériés ${[calendar.holidayCountry ?? DEFAULT_HOLIDAY_REGION.country, calendar.holidayRegion].filter(Boolean).join("-")}`,
+              ].filter(Boolean).join(" · ")
+            }
+            renderExtraFields={(calendar, setCalendar) => (
+              <>
+                <SlotsEditor slots={calendar.slots} onChange={(slots) => setCalendar({ ...calendar, slots })} />
+                <HolidayRegionEditor
+                  country={calendar.holidayCountry}
+                  region={calendar.holidayRegion}
+                  onChange={(holidayCountry, holidayRegion) => setCalendar({ ...calendar, holidayCountry, holidayRegion })}
+                />
+              </>
+            )}
+          />
+        )}
+
+        {/* Onglet Fermetures */}
+        {activeTab === "closures" && (
+          <NamedItemsPanel
+            items={closures}
+            edited={editedClosure}
+            newLabel="Nouvelle fermeture"
+            setEdited={setEditedClosure}
+            onSave={(closure, onDone) => save(saveClosureApi(closure), onDone)}
+            countLabel={(closure) =>
+              [
+                closure.periods.map(formatClosurePeriod).join(", ") || "Aucune période",
+                closure.calendarIds.length === 0 && closure.teamIds.length === 0
+                  ? "Tout le planning"
+                  : [calendarNames(closure.calendarIds), closure.teamIds.map(teamName).join(", ")].filter(Boolean).join(" · "),
+              ].join(" · ")
+            }
+            renderExtraFields={(closure, setClosure) => (
+              <>
+                <ClosurePeriodsEditor periods={closure.periods ?? []} onChange={(periods) => setClosure({ ...closure, periods })} />
+                <ClosureScopeEditor
+                  label="Calendriers"
+                  items={calendars}
+                  selectedIds={closure.calendarIds ?? []}
+                  onChange={(calendarIds) => setClosure({ ...closure, calendarIds })}
+                />
+                <ClosureScopeEditor
+                  label="Équipes"
+                  items={teams}
+                  selectedIds={closure.teamIds ?? []}
+                  onChange={(teamIds) => setClosure({ ...closure, teamIds })}
+                />
+                <span className="text-xs text-gray-500">Sans calendrier ni équipe cochés, la fermeture s&apos;applique à tout le planning.</span>
+              </>
+            )}
+          />
+        )}
+
+        {/* Onglet Sauvegarde */}
+        {activeTab === "backup" && <BackupPanel onImported={reload} />}
+      </div>
+    </div>
+  );
+}
+
+
+// Affiche une date yyyy-MM-dd au format dd/MM/yyyy
+const formatDateKey = (key: string) => key.split("-").reverse().join("/");
+
+// Périodes de mission d'un intérimaire (hors de ces périodes, il n'est pas planifiable)
+const MissionsEditor = ({ missions, onChange }: { missions: MissionPeriod[]; onChange: (missions: MissionPeriod[]) => void }) => (
+  <div className="flex flex-col gap-2 text-sm">
+    <span className="font-medium text-gray-700">Missions :</span>
+    {missions.length === 0 && <span className="text-gray-400 italic">Aucune mission : seules les dates de contrat s&apos;appliquent</span>}
+    {missions.map((mission, index) => (
+      <div key={index} className="flex items-center gap-2">
+        du
+        <input
+          type="date"
+          required
+          className={inputClassName}
+          value={mission.start}
+          onChange={(e) => onChange(missions.map((m, i) => (i === index ? { ...m, start: e.target.value } : m)))}
+        />
+        au
+        <input
+          type="date"
+          required
+          min={mission.start}
+          className={inputClassName}
+          value={mission.end}
+          onChange={(e) => onChange(missions.map((m, i) => (i === index ? { ...m, end: e.target.value } : m)))}
+        />
+        <button type="button" className="text-red-600 hover:underline" onClick={() => onChange(missions.filter((_, i) => i !== index))}>
+          Retirer
+        </button>
+      </div>
+    ))}
+    <button type="button" className="self-start text-blue-600 hover:underline" onClick={() => onChange([...missions, { start: "", end: "" }])}>
+      + Ajouter une mission
+    </button>
+  </div>
+);
+
+// Semaine type d'un employé : demi-journées travaillées du lundi au vendredi
+const WORKING_DAYS = [
+  { index: 1, label: "Lun" },
+  { index: 2, label: "Mar" },
+  { index: 3, label: "Mer" },
+  { index: 4, label: "Jeu" },
+  { index: 5, label: "Ven" },
+];
+
+const WorkingPatternEditor = ({ pattern, onChange }: { pattern: WorkingPattern; onChange: (pattern: WorkingPattern) => void }) => (
+  <div className="flex flex-col gap-2 text-sm">
+    <span className="font-medium text-gray-700">Semaine type :</span>
+    <table className="w-auto">
+      <thead>
+        <tr className="text-gray-600">
+          <th />
+          {WORKING_DAYS.map((day) => <th key={day.index} className="px-2 font-medium">{day.label}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {(["morning", "afternoon"] as const).map((half) => (
+          <tr key={half}>
+            <td className="pr-2 text-gray-600">{half === "morning" ? "Matin" : "Après-midi"}</td>
+            {WORKING_DAYS.map((day) => (
+              <td key={day.index} className="px-2 text-center">
+                <input
+                  type="checkbox"
+                  checked={pattern[day.index][half]}
+                  onChange={(e) => onChange(pattern.map((d, i) => (i === day.index ? { ...d, [half]: e.target.checked } : d)))}
+                />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Créneaux de la journée d'un calendrier (heures saisies en HH:mm, 00:00 en fin = minuit)
+const toHour = (value: string, isEnd: boolean) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  const hour = hours + minutes / 60;
+  return isEnd && hour === 0 ? 24 : hour;
+};
+
+const SlotsEditor = ({ slots, onChange }: { slots?: TimeSlot[]; onChange: (slots: TimeSlot[] | undefined) => void }) => {
+  const updateSlot = (index: number, changes: Partial<TimeSlot>) =>
+    onChange(slots?.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  // Nom technique d'un nouveau créneau (référencé par les règles de planification)
+  const newName = () => {
+    let n = (slots?.length ?? 0) + 1;
+    while (slots?.some((slot) => slot.name === `slot${n}`)) n++;
+    return `slot${n}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <label className="flex items-center gap-2 font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!slots}
+          onChange={(e) => onChange(e.target.checked ? HALF_DAY_INTERVALS.map((slot) => ({ ...slot })) : undefined)}
+        />
+        Créneaux personnalisés
+        {!slots && <span className="font-normal text-gray-400 italic">(matin / après-midi par défaut)</span>}
+      </label>
+      {slots?.map((slot, index) => (
+        <div key={slot.name} className="flex items-center gap-2">
+          <input
+            className={inputClassName}
+            placeholder="Libellé"
+            required
+            value={slot.label}
+            onChange={(e) => updateSlot(index, { label: e.target.value })}
+          />
+          de
+          <input
+            type="time"
+            required
+            className={inputClassName}
+            value={formatSlotHour(slot.startHour)}
+            onChange={(e) => e.target.value && updateSlot(index, { startHour: toHour(e.target.value, false) })}
+          />
+          à
+          <input
+            type="time"
+            required
+            className={inputClassName}
+            value={formatSlotHour(slot.endHour % 24)}
+            onChange={(e) => e.target.value && updateSlot(index, { endHour: toHour(e.target.value, true) })}
+          />
+          <button
+            type="button"
+            className="text-red-600 hover:underline disabled:opacity-40"
+            disabled={slots.length === 1}
+            onClick={() => onChange(slots.filter((_, i) => i !== index))}
+          >
+            Retirer
+          </button>
+        </div>
+      ))}
+      {slots && (
+        <button
+          type="button"
+          className="self-start text-blue-600 hover:underline"
+          onClick={() => {
+            const last = slots[slots.length - 1];
+            const startHour = Math.min(last.endHour, 23);
+            onChange([...slots, { name: newName(), label: "Nouveau créneau", startHour, endHour: Math.min(startHour + 4, 24) }]);
+          }}
+        >
+          + Ajouter un créneau
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Pays et région des jours fériés d'un calendrier (ex : Moselle / Alsace et leurs fériés propres)
+const HolidayRegionEditor = ({ country, region, onChange }: {
+  country?: string;
+  region?: string;
+  onChange: (country: string | undefined, region: string | undefined) => void;
+}) => {
+  const countries = useMemo(() => Object.entries(getHolidayCountries()).sort((a, b) => a[1].localeCompare(b[1])), []);
+  const selectedCountry = country ?? DEFAULT_HOLIDAY_REGION.country;
+  const regions = useMemo(() => Object.entries(getHolidayRegions(selectedCountry)), [selectedCountry]);
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="font-medium text-gray-700">Jours fériés :</span>
+      <select
+        className={inputClassName}
+        value={selectedCountry}
+        onChange={(e) => onChange(e.target.value === DEFAULT_HOLIDAY_REGION.country ? undefined : e.target.value, undefined)}
+      >
+        {countries.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+      </select>
+      <select
+        className={inputClassName}
+        value={region ?? ""}
+        onChange={(e) => onChange(country, e.target.value || undefined)}
+      >
+        <option value="">Fériés nationaux</option>
+        {regions.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+// Période de fermeture affichée dans la liste (jour et mois seulement pour une période annuelle)
+const formatClosurePeriod = (period: ClosurePeriod) => {
+  const format = (key: string) => (period.yearly ? formatDateKey(key).slice(0, 5) : formatDateKey(key));
+  const range = period.start === period.end ? format(period.start) : `${format(period.start)} – ${format(period.end)}`;
+  return period.yearly ? `${range} (chaque année)` : range;
+};
+
+// Périodes d'un calendrier de fermetures (ponctuelles ou répétées chaque année)
+const ClosurePeriodsEditor = ({ periods, onChange }: { periods: ClosurePeriod[]; onChange: (periods: ClosurePeriod[]) => void }) => (
+  <div className="flex flex-col gap-2 text-sm">
+    <span className="font-medium text-gray-700">Périodes :</span>
+    {periods.length === 0 && <span className="text-gray-400 italic">Aucune période de fermeture</span>}
+    {periods.map((period, index) => (
+      <div key={index} className="flex items-center gap-2">
+        du
+        <input
+          type="date"
+          required
+          className={inputClassName}
+          value={period.start}
+          onChange={(e) => onChange(periods.map((p, i) => (i === index ? { ...p, start: e.target.value, end: p.end || e.target.value } : p)))}
+        />
+        au
+        <input
+          type="date"
+          required
+          min={period.start}
+          className={inputClassName}
+          value={period.end}
+          onChange={(e) => onChange(periods.map((p, i) => (i === index ? { ...p, end: e.target.value } : p)))}
+        />
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={period.yearly ?? false}
+            onChange={(e) => onChange(periods.map((p, i) => (i === index ? { ...p, yearly: e.target.checked } : p)))}
+          />
+          Chaque année
+        </label>
+        <button type="button" className="text-red-600 hover:underline" onClick={() => onChange(periods.filter((_, i) => i !== index))}>
+          Retirer
+        </button>
+      </div>
+    ))}
+    <button type="button" className="self-start text-blue-600 hover:underline" onClick={() => onChange([...periods, { start: "", end: "" }])}>
+      + Ajouter une période
+    </button>
+  </div>
+);
+
+// Calendriers ou équipes auxquels s'applique une fermeture
+const ClosureScopeEditor = ({ label, items, selectedIds, onChange }: {
+  label: string;
+  items: { id: number; name: string; active?: boolean }[];
+  selectedIds: number[];
+  onChange: (ids: number[]) => void;
+}) => (
+  <div className="flex flex-wrap items-center gap-3 text-sm">
+    <span className="font-medium text-gray-700">{label} :</span>
+    {items.filter((item) => item.active !== false || selectedIds.includes(item.id)).map((item) => (
+      <label key={item.id} className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={selectedIds.includes(item.id)}
+          onChange={(e) => onChange(e.target.checked ? [...selectedIds, item.id] : selectedIds.filter((id) => id !== item.id))}
+        />
+        {item.name}
+      </label>
+    ))}
+  </div>
+);
+
+// Panneau générique pour les référentiels simples (nom + statut actif)
+type NamedItemsPanelProps<T extends { id: number; name: string; active?: boolean }> = {
+  items: T[];
+  edited: Partial<T> | null;
+  newLabel: string;
+  setEdited: (item: Partial<T> | null) => void;
+  onSave: (item: Partial<T>, onDone: () => void) => void;
+  countLabel: (item: T) => string;
+  renderExtraFields?: (item: Partial<T>, setItem: (item: Partial<T>) => void) => React.ReactNode; // Champs propres au référentiel
+};
+
+const NamedItemsPanel = <T extends { id: number; name: string; active?: boolean }>({
+  items,
+  edited,
+  newLabel,
+  setEdited,
+  onSave,
+  countLabel,
+  renderExtraFields,
+}: NamedItemsPanelProps<T>) => (
+  <div className="bg-white rounded-2xl shadow p-4 flex flex-col gap-4">
+    <button
+      className="self-end px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+      onClick={() => setEdited({ name: "", active: true } as Partial<T>)}
+    >
+      {newLabel}
+    </button>
+    {edited && (
+      <form
+        className="flex flex-col gap-3 bg-gray-50 rounded-xl p-4 border border-gray-200"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSave(edited, () => setEdited(null));
+        }}
+      >
+        <div className="flex gap-3 items-center">
+          <input
+            className={`${inputClassName} flex-1`}
+            placeholder="Nom"
+            required
+            value={edited.name ?? ""}
+            onChange={(e) => setEdited({ ...edited, name: e.target.value })}
+          />
+          <button type="button" className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors" onClick={() => setEdited(null)}>
+            Annuler
+          </button>
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors">
+            Enregistrer
+          </button>
+        </div>
+        {renderExtraFields?.(edited, setEdited)}
+      </form>
+    )}
+    <table className="w-full text-sm">
+      <tbody>
+        {items.map((item) => (
+          <tr key={item.id} className={`border-b ${item.active === false ? "opacity-50" : ""}`}>
+            <td className="py-2 font-semibold">{item.name}</td>
+            <td>{countLabel(item)}</td>
+            <td>{item.active === false ? "Désactivé" : "Actif"}</td>
+            <td className="flex gap-2 justify-end py-2">
+              <button className="text-blue-600 hover:underline" onClick={() => setEdited(item)}>Modifier</button>
+              <button
+                className={item.active === false ? "text-green-700 hover:underline" : "text-red-600 hover:underline"}
+                onClick={() => onSave({ id: item.id, active: item.active === false } as Partial<T>, () => undefined)}
+              >
+                {item.active === false ? "Réactiver" : "Désactiver"}
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+
+// Panneau d'export / import de la sauvegarde complète du planning
+const BackupPanel = ({ onImported }: { onImported: () => void }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<"merge" | "replace">("merge");
+  const [report, setReport] = useState<SnapshotImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = useCallback(async () => {
+    if (!file) return;
+    if (mode === "replace" && !window.confirm("Les collections présentes dans le fichier remplaceront les données actuelles. Continuer ?")) return;
+    setIsImporting(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await importSnapshotApi(await file.text(), mode));
+      onImported();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [file, mode, onImported]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <h2 className="font-bold text-blue-700">Exporter</h2>
+        <p className="text-sm text-gray-600">
+          Employés, équipes, calendriers, catalogues, dates non travaillées et rendez-vous dans un fichier JSON.
+        </p>
+        <a
+          href={SNAPSHOT_EXPORT_URL}
+          download
+          className="self-start px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+        >
+          Télécharger la sauvegarde
+        </a>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <h2 className="font-bold text-blue-700">Importer</h2>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <div className="flex gap-6 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+            Fusionner (ajoute ou met à jour par ID)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+            Remplacer les données existantes
+          </label>
+        </div>
+        <button
+          className="self-start px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          disabled={!file || isImporting}
+          onClick={handleImport}
+        >
+          {isImporting ? "Import en cours..." : "Importer"}
+        </button>
+        {error && (
+          <div className="bg-red-100 text-red-800 px-4 py-2 rounded-xl border border-red-300">{error}</div>
+        )}
+        {report && (
+          <div className="flex flex-col gap-2 text-sm">
+            <div className="bg-green-50 text-green-800 px-4 py-2 rounded-xl border border-green-200">
+              Import terminé ({report.mode === "merge" ? "fusion" : "remplacement"}) :{" "}
+              {Object.entries(report.imported).map(([collection, count]) => `${collection} ${count}`).join(", ") || "aucune donnée"}
+            </div>
+            {report.errors.length > 0 && (
+              <table className="w-full">
+                <thead className="text-left text-gray-600">
+                  <tr>
+                    <th>Collection</th>
+                    <th>Position</th>
+                    <th>ID</th>
+                    <th>Erreur</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.errors.map((err, idx) => (
+                    <tr key={idx} className="border-b text-red-700">
+                      <td className="py-1">{err.collection}</td>
+                      <td>{err.index >= 0 ? err.index + 1 : "-"}</td>
+                      <td>{err.id ?? "-"}</td>
+                      <td>{err.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,19 @@
  * -----------------------------------
  * Cette page affiche l'agenda des employés sous forme de calendrier interactif.
  * - Vue desktop : calendrier horizontal multi-employés, multi-équipes, scroll horizontal.
+ * - Zoom : colonnes horaires, par créneau, par jour, par semaine ou par mois (utils/zoom.ts).
  * - Vue mobile : calendrier vertical , un seul employé affiché, scroll infini.
  * - Drag & drop des rendez-vous (react-dnd).
+ * - Sélection rectangulaire de cellules (glisser ou Maj+clic) : "Ajouter" ou un dépôt depuis le tiroir
+ *   crée le rendez-vous pour chaque employé sélectionné sur tous ses créneaux travaillés.
+ * - Sélection multiple de rendez-vous (Ctrl/Maj+clic ou lasso) : déplacement en bloc en conservant les écarts,
+ *   suppression, copie, changement de chantier ou d'employé en une seule action annulable.
+ * - Copier / coller d'une période (employé, équipe ou calendrier), recalée sur les jours travaillés.
+ * - Modèles de planning : enregistrés depuis une sélection rectangulaire, appliqués à une date et à des employés
+ *   après aperçu des rendez-vous créés et des conflits.
+ * - Échange des plannings de deux employés sur une période (clic droit sur un employé ou une cellule).
+ * - Proposition de planning : un solveur local couvre les besoins en personnel des chantiers sur les créneaux
+ *   travaillés libres ; les propositions s'affichent en brouillon, avec leur score, et s'acceptent en tout ou partie.
  * - Gestion des sélections, contextes, et affichage dynamique selon la taille d'écran.
  *
  * Props principales :
@@ -25,49 +36,98 @@
 "use client";
 
 // Imports React, hooks, DnD, date-fns, types, composants, et données
-import React, { useState, useCallback, useRef, useEffect, JSX} from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo, JSX} from "react";
 import { DndProvider } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import {
   addDays,
   eachDayOfInterval,
-  setHours,
-  setMinutes,
   format,
   addWeeks,
   addMonths,
-  isSameDay,
-  addMinutes,
+  startOfDay,
+  endOfDay,
 } from "date-fns";
-import { Appointment, Employee } from "../types";
+import { Appointment, AppointmentConflict, Calendar, CatalogItem, Catalogs, CellSelection, ClosureCalendar, Employee, GridCell, Groupe, PlanningRule, PlanningTemplate, RangeClipboard, RangeCopyScope, Recurrence, RecurrenceException, StaffingNeed, StaffingProposal, StaffingResult, TemplatePreviewItem, TimeSlot, ZoomLevel } from "../types";
 import CalendarGrid from "../components/CalendarGrid";
 import Modal from "../components/Modal";
 import AppointmentForm from "../components/AppointmentForm";
 import DraggableSource from "../components/DraggableSource";
 import Drawer from "../components/Drawer";
 import RightClickComponent from "../components/RightClickComponent";
-import {
-  initialTeams,
-  initialEmployees,
-  initialAppointments,
-  chantier,
-  absences,
-  autres,
-} from "../../datasource";
+import RecurrenceScopeModal, { RecurrenceScope } from "../components/RecurrenceScopeModal";
+import RangeCopyModal from "../components/RangeCopyModal";
+import TemplateSaveModal from "../components/TemplateSaveModal";
+import TemplateApplyModal from "../components/TemplateApplyModal";
+import SwapPlanningModal from "../components/SwapPlanningModal";
+import StaffingPanel from "../components/StaffingPanel";
+import ConflictModal from "../components/ConflictModal";
+import ConflictsPanel from "../components/ConflictsPanel";
+import PlanningRulesEditor from "../components/PlanningRulesEditor";
 import { SelectedAppointmentContext } from "../context/SelectedAppointmentContext";
 import { SelectedCellContext } from "../context/SelectedCellContext";
-import { CELL_WIDTH, DAY_INTERVALS, DAYS_TO_ADD, HALF_DAY_INTERVALS, THRESHOLD_MAX, THRESHOLD_MIN, WINDOW_SIZE } from "../utils/constants";
-import { getNextWorkedDay, getWorkedDayIntervals, isWorkedDay, isWeekend, getBeforeWorkedDay } from "../utils/dates";
-import { calendars } from "../../datasource";
-import { get } from "http";
-
-// Définition des types d'événements pour le drawer
-const eventTypes = [
-  { label: "Chantier", color: "primary", dataSource: chantier, placeholder: "Sélectionnez un chantier" },
-  { label: "Absence", color: "warning", dataSource: absences, placeholder: "Sélectionnez une absence" },
-  { label: "Autre", color: "secondary", dataSource: autres, placeholder: "Sélectionnez autre" },
+import { CellSelectionContext } from "../context/CellSelectionContext";
+import { HighlightedAppointmentsContext } from "../context/HighlightedAppointmentsContext";
+import { DraftAppointmentsContext } from "../context/DraftAppointmentsContext";
+import { ConflictingAppointmentsContext } from "../context/ConflictingAppointmentsContext";
+import { TimeSlotsContext } from "../context/TimeSlotsContext";
+import { ZoomScaleContext } from "../context/ZoomScaleContext";
+import { HolidayRegionContext } from "../context/HolidayRegionContext";
+import { HALF_DAY_INTERVALS, REMOTE_HIGHLIGHT_DURATION, THRESHOLD_MAX, THRESHOLD_MIN, WINDOW_SIZE, ZOOM_LEVELS } from "../utils/constants";
+import { countWorkedSlots, getNextWorkedDay, isAppointmentWorkedDay, isWeekend } from "../utils/dates";
+import { eachSlot, getSlotBounds, getSlotDistance, shiftBySlots } from "../utils/slots";
+import { createZoomScale } from "../utils/zoom";
+import { getCalendarHolidayRegion, getHolidayDates } from "../utils/holidays";
+import { getClosureDates } from "../utils/closures";
+import { isCellSelected, resolveCellSelection } from "../utils/selection";
+import { getRangeAppointments, planRangePaste } from "../utils/rangeCopy";
+import { getTemplateAssignments, instantiateTemplate } from "../utils/templates";
+import { getSwapAppointments, swapEmployee } from "../utils/swap";
+import { solveStaffing } from "../utils/staffing";
+import { groupEmployeesByTeam } from "../utils/teams";
+import { detectConflicts, findConflictsFor, groupConflictsByAppointment } from "../utils/conflicts";
+import { findOutOfContractAssignments, findOutsideContract } from "../utils/contracts";
+import {
+  CLIENT_ID,
+  ConflictError,
+  createAppointmentApi,
+  createRecurrenceApi,
+  deleteAppointmentApi,
+  deleteRecurrenceApi,
+  fetchAppointments,
+  fetchCalendars,
+  fetchCatalogs,
+  fetchClosures,
+  fetchEmployees,
+  fetchNonWorkingDates,
+  fetchPlanningRules,
+  fetchRecurrences,
+  fetchStaffingNeeds,
+  fetchTeams,
+  fetchTemplates,
+  updateAppointmentApi,
+  updateRecurrenceApi,
+  reviveAppointment,
+  reviveRecurrence,
+  saveNonWorkingDatesApi,
+  savePlanningRulesApi,
+  saveStaffingNeedsApi,
+  saveTemplateApi,
+} from "../utils/api";
+import { DateWindow, getLoadWindow, getMissingRanges, isInWindow } from "../utils/appointmentWindow";
+import { applyChanges, createCommand, HistoryCommand, invertCommand, MAX_HISTORY, PlanningSnapshot, remapAppointmentId, remapRecurrenceId } from "../utils/history";
+import { expandRecurrence, formatRRule, getFollowingRRule, RRuleFrequency, shiftRecurrence, truncateRecurrence } from "../utils/rrule";
+import Link from "next/link";
+
+// Définition des types d'événements pour le drawer (catalogues chargés depuis l'API)
+const getEventTypes = (catalogs: Catalogs) => [
+  { label: "Chantier", color: "primary", dataSource: catalogs.chantier, placeholder: "Sélectionnez un chantier" },
+  { label: "Absence", color: "warning", dataSource: catalogs.absences, placeholder: "Sélectionnez une absence" },
+  { label: "Autre", color: "secondary", dataSource: catalogs.autres, placeholder: "Sélectionnez autre" },
 ];
 
+type EventType = ReturnType<typeof getEventTypes>[number];
+
 
 // Petite fonction utilitaire pour éviter les appels trop fréquents (scroll, etc.)
 function debounce<T extends (...args: any[]) => void>(func: T, delay: number) {
@@ -78,6 +138,13 @@ function debounce<T extends (...args: any[]) => void>(func: T, delay: number) {
   };
 }
 
+// Correspondance entre les intervalles de répétition de l'interface et les fréquences RRULE
+const repeatFrequencies: Record<"day" | "week" | "month", RRuleFrequency> = {
+  day: "DAILY",
+  week: "WEEKLY",
+  month: "MONTHLY",
+};
+
 
 /**
  * Page principale du calendrier (HomePage).
@@ -109,33 +176,73 @@ export default function HomePage() {
   const [addAppointmentStep, setAddAppointmentStep] = useState<"select" | "form" | "">("");
   const [includeWeekend, setIncludeWeekend] = useState(true);
   const [nonWorkingDates, setNonWorkingDates] = useState<Date[]>([]);
+  const [closures, setClosures] = useState<ClosureCalendar[]>([]); // Calendriers de fermetures de l'entreprise
+  const [templates, setTemplates] = useState<PlanningTemplate[]>([]); // Modèles de planning actifs
+  const [templateSelection, setTemplateSelection] = useState<CellSelection | null>(null); // Sélection à enregistrer comme modèle
+  const [templateCell, setTemplateCell] = useState<{ employeeId: number; date: Date } | null>(null); // Cellule d'origine de "Appliquer un modèle"
+  const [swapOrigin, setSwapOrigin] = useState<{ employeeId: number; date: Date } | null>(null); // Employé et jour proposés pour l'échange de plannings
+  const [staffingNeeds, setStaffingNeeds] = useState<StaffingNeed[]>([]); // Besoins en personnel des chantiers
+  const [staffingResult, setStaffingResult] = useState<StaffingResult | null>(null); // Proposition du solveur affichée en brouillon
+  const [isStaffingPanelOpen, setIsStaffingPanelOpen] = useState(false);
   const [newNonWorkingDate, setNewNonWorkingDate] = useState<string>("");
   const [dayInTimeline, setDayInTimeline] = useState<Date[]>([]);
   const mainScrollRef = useRef<HTMLDivElement>(null);
   const [searchInput, setSearchInput] = useState<string>('');
   const isLoadingMoreDays = useRef(false);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  const [selectedCalendarId, setSelectedCalendarId] = useState<number>(calendars[0]?.id ?? 1);
-  const employees = useRef<Employee[]>(initialEmployees);
+  const [calendars, setCalendars] = useState<Calendar[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<number>(1);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [teams, setTeams] = useState<Groupe[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const isAutoScrolling = useRef(false);
   const isAddingLeft = useRef(false);
   const isAddingRight = useRef(false);
-  const appointments = useRef<Appointment[]>(initialAppointments);
+  const scrollAdjustment = useRef(0); // Largeur (px) ajoutée à gauche ou retirée à gauche lors du dernier défilement
+  const appointments = useRef<Appointment[]>([]);
+  const recurrencesRef = useRef<Recurrence[]>([]); // Copie synchrone des récurrences (pour l'historique)
+  const undoStack = useRef<HistoryCommand[]>([]);
+  const redoStack = useRef<HistoryCommand[]>([]);
+  const historyDepth = useRef(0); // > 0 pendant une action enregistrée (les actions imbriquées sont fusionnées)
+  const serverVersions = useRef(new Map<number, number>()); // Dernière version connue du serveur par rendez-vous
+  const pendingWrites = useRef(new Map<number, Promise<unknown>>()); // Écriture en cours par rendez-vous
+  const serverIds = useRef(new Map<number, number>()); // ID attribué par le serveur pour un ID local de création
+  const loadedWindow = useRef<DateWindow & { calendarId: number } | null>(null); // Période et calendrier chargés
+  const loadRequest = useRef(0); // Numéro du dernier chargement demandé (les réponses plus anciennes sont ignorées)
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [filteredAppointments, setFilteredAppointments] = useState<Appointment[]>(initialAppointments);
+  const [filteredAppointments, setFilteredAppointments] = useState<Appointment[]>([]);
+  const [recurrences, setRecurrences] = useState<Recurrence[]>([]);
+  const [historyLabels, setHistoryLabels] = useState<{ undo?: string; redo?: string }>({});
+  const [reloadCount, setReloadCount] = useState(0); // Incrémenté pour recharger toutes les données (import d'une sauvegarde)
+  const [conflicts, setConflicts] = useState<AppointmentConflict[]>([]); // Écritures refusées en attente d'arbitrage
+  const [highlightedIds, setHighlightedIds] = useState<Set<number>>(new Set()); // Rendez-vous modifiés par un autre utilisateur
+  const [isConflictsPanelOpen, setIsConflictsPanelOpen] = useState(false);
+  const [planningRules, setPlanningRules] = useState<PlanningRule[]>([]);
+  const [recurrencePrompt, setRecurrencePrompt] = useState<{ action: "edit" | "delete"; occurrence: Appointment; changes?: Appointment } | null>(null);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [selectedAppointmentIds, setSelectedAppointmentIds] = useState<Set<number>>(new Set()); // Sélection multiple (Ctrl/Maj+clic ou lasso)
   const [selectedAppointmentForm, setSelectedAppointmentForm] = useState<Appointment | null>(null);
-  const [newAppointmentInfo, setNewAppointmentInfo] = useState<{ date: Date; employeeId: number ; intervalName: "morning" | "afternoon" | "day"} | null>(null);
-  const [drawerOptionsSelected, setDrawerOptionsSelected] = useState(eventTypes[0]);
+  const [newAppointmentInfo, setNewAppointmentInfo] = useState<{ date: Date; employeeId: number ; intervalName: string} | null>(null);
+  const [catalogs, setCatalogs] = useState<Catalogs>({ chantier: [], absences: [], autres: [] });
+  const eventTypes = useMemo(() => getEventTypes(catalogs), [catalogs]);
+  const [drawerTypeLabel, setDrawerTypeLabel] = useState("Chantier");
+  const drawerOptionsSelected = eventTypes.find(ev => ev.label === drawerTypeLabel) ?? eventTypes[0];
   const [repeatAppointmentData, setRepeatAppointmentData] = useState<{numberCount:number, repeatCount: number | null; repeatInterval: "day" | "week" | "month"; endDate: Date | null } | null>(null);
   const [extendAppointmentData, setExtendAppointmentData] = useState<Date | null>(null);
   const lastScrollLeft = useRef(0);
   const lastScrollTime = useRef(Date.now());
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number, item: { label: string; logo: JSX.Element; action: () => void; actif?: boolean }[]} | null>(null);
   const clipboardAppointment= useRef<Appointment | null>(null);
+  const clipboardGroup = useRef<Appointment[]>([]); // Sélection multiple copiée (collée en conservant les écarts)
+  const rangeClipboard = useRef<RangeClipboard | null>(null); // Période copiée (employé, équipe ou calendrier)
+  const [rangeCopyCell, setRangeCopyCell] = useState<{ employeeId: number; date: Date } | null>(null); // Cellule d'origine de "Copier une période"
   const [selectedCell, setSelectedCell] = useState<{ employeeId: number; date: Date } | null>(null);
-  const [isFullDay, setIsFullDay] = useState(false);
+  const [selectionCorners, setSelectionCorners] = useState<{ anchor: GridCell; focus: GridCell } | null>(null); // Coins de la sélection rectangulaire
+  const isSelectingCells = useRef(false); // Bouton de la souris enfoncé depuis le début d'une sélection
+  // Choix d'un élément du catalogue pour plusieurs rendez-vous (sélection à remplir, chantier à changer)
+  const [catalogPick, setCatalogPick] = useState<{ title: string; detail: string; apply: (type: Appointment["type"], item: CatalogItem) => void } | null>(null);
+  const [employeeChange, setEmployeeChange] = useState<number | null>(null); // Employé choisi pour la sélection multiple
+  const [zoomLevel, setZoomLevel] = useState<ZoomLevel>("halfDay");
   const [isAlertVisible, setIsAlertVisible] = useState(false);
   const [alertTitle, setAlertTitle] = useState<"Êtes-vous sûr de vouloir supprimer ce rendez-vous ?" | "Êtes-vous sûr de vouloir diviser ce rendez-vous ?">("Êtes-vous sûr de vouloir supprimer ce rendez-vous ?");
   const [selectedDate, setSelectedDate] = useState<Date>(dayInTimeline[Math.floor(WINDOW_SIZE / 2)]);
@@ -143,6 +250,61 @@ export default function HomePage() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
+  // Sélection simple : remplace la sélection multiple
+  const selectAppointment = useCallback((appointment: Appointment | null) => {
+    setSelectedAppointment(appointment);
+    setSelectedAppointmentIds(appointment ? new Set([appointment.id]) : new Set());
+  }, []);
+
+  // Ajoute ou retire un rendez-vous de la sélection multiple (il devient le rendez-vous courant)
+  const toggleAppointmentSelection = useCallback((appointment: Appointment) => {
+    setSelectedAppointmentIds(prev => {
+      const next = new Set(prev);
+      if (next.has(appointment.id)) next.delete(appointment.id);
+      else next.add(appointment.id);
+      return next;
+    });
+    setSelectedAppointment(appointment);
+  }, []);
+
+  // Créneaux de la journée du calendrier sélectionné
+  const timeSlots = useMemo(
+    () => calendars.find(cal => cal.id === selectedCalendarId)?.slots ?? HALF_DAY_INTERVALS,
+    [calendars, selectedCalendarId]
+  );
+  // Région des jours fériés du calendrier sélectionné (pays et région)
+  const holidayRegion = useMemo(
+    () => getCalendarHolidayRegion(calendars.find(cal => cal.id === selectedCalendarId)),
+    [calendars, selectedCalendarId]
+  );
+  // Échelle de la grille pour le zoom choisi (colonnes, créneaux affichés, pas des déplacements)
+  const zoomScale = useMemo(() => createZoomScale(zoomLevel, timeSlots, includeWeekend), [zoomLevel, timeSlots, includeWeekend]);
+  const zoomWindow = ZOOM_LEVELS.find(level => level.id === zoomLevel) ?? ZOOM_LEVELS[1];
+  // Un seul créneau par jour (zoom jour, semaine ou mois)
+  const isFullDay = zoomLevel === "day" || zoomScale.aggregated;
+
+  // Modifie les dates non travaillées et les enregistre sur le serveur
+  const updateNonWorkingDates = useCallback((update: (prev: Date[]) => Date[]) => {
+    const next = update(nonWorkingDates);
+    setNonWorkingDates(next);
+    saveNonWorkingDatesApi(next).catch((error) => {
+      console.error("Échec de l'enregistrement des dates non travaillées :", error);
+      setModaltInfo("Erreur lors de l'enregistrement des dates non travaillées.");
+    });
+  }, [nonWorkingDates]);
+
+  // Enregistre les règles de planification modifiées dans les paramètres
+  const updatePlanningRules = useCallback((rules: PlanningRule[]) => {
+    savePlanningRulesApi(rules)
+      .then((saved) => {
+        setPlanningRules(saved);
+        setModaltInfo("Règles de planification enregistrées");
+      })
+      .catch((error) => {
+        console.error("Échec de l'enregistrement des règles :", error);
+        setModaltInfo(`Règles non enregistrées : ${(error as Error).message}`);
+      });
+  }, []);
 
   // --- PARAMÈTRES D'AFFICHAGE ET DE FILTRAGE ---
   const settings = [
@@ -155,13 +317,6 @@ export default function HomePage() {
           type: "checkbox", value: includeWeekend, 
           onChange: (value : boolean) => setIncludeWeekend(value) 
         },
-        {
-          id: 'isFullDay',
-          label: "Afficher les journées complète",
-          type: "checkbox",
-          value: isFullDay,
-          onChange: (value: boolean) => setIsFullDay(value)
-        }
       ]
     },
     {
@@ -172,11 +327,24 @@ export default function HomePage() {
           label: "Dates non travaillées :", 
           type: "custom-non-working-dates", // type personnalisé
           nonWorkingDates,
-          setNonWorkingDates,
+          setNonWorkingDates: updateNonWorkingDates,
           newNonWorkingDate,
           setNewNonWorkingDate,  
         }
       ]
+    },
+    {
+      category: "Règles de planification",
+      items: [
+        {
+          id: "planningRules",
+          label: "Règles :",
+          type: "custom-planning-rules", // type personnalisé
+          planningRules,
+          slots: timeSlots,
+          setPlanningRules: updatePlanningRules,
+        }
+      ]
     }
   ];
 
@@ -194,179 +362,525 @@ export default function HomePage() {
     );
   }, [searchInput]);
 
-  const isConsecutive = useCallback((app1: Appointment, app2: Appointment): boolean => {
-    
-    const intervals = isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS;
-    const nextWorkedDay = getNextWorkedDay(
-      new Date(app1.endDate.getTime() + (intervals[0].endHour - intervals[0].startHour) * 60 * 60 * 1000),
-      intervals,
-      nonWorkingDates
-    );
-    // Consécutif si le startDate de app2 est le prochain jour travaillé après la fin de app1
-    return isSameDay(app2.startDate, nextWorkedDay);
-  }, [isFullDay, nonWorkingDates]);
-
-  const getFullSequence = useCallback((appointmentId: number): Appointment[] => {
-    const found = appointments.current.find(app => app.id === appointmentId);
-    if (!found) return [];
-    const sequence: Appointment[] = [found];
-
-    // Trouve les RDV avant
-    let prev = sequence[0];
-    while (true) {
-      const prevApp = appointments.current.find(app =>
-        app.employeeId === prev.employeeId &&
-        app.title === prev.title &&
-        isConsecutive(app, prev) &&
-        !sequence.some(seqApp => seqApp.id === app.id) // <-- Empêche la boucle infinie
-      );
-      if (prevApp) {
-        sequence.unshift(prevApp);
-        prev = prevApp;
-      } else {
-        break;
-      }
-    }
-    
+  // Semaine type d'un employé (temps partiel, repos fixes)
+  const workingPatternOf = useCallback(
+    (employeeId: Appointment["employeeId"]) => employees.find(emp => emp.id === Number(employeeId))?.workingPattern,
+    [employees]
+  );
 
-    // Trouve les RDV après
-    let next = sequence[sequence.length - 1];
-    while (true) {
-      const nextApp = appointments.current.find(app =>
-        app.employeeId === next.employeeId &&
-        app.title === next.title &&
-        isConsecutive(next, app) &&
-        !sequence.some(seqApp => seqApp.id === app.id) // <-- Empêche la boucle infinie
-      );
-      
-      if (nextApp) {
-        sequence.push(nextApp);
-        next = nextApp;
-      } else {
-        break;
+  // Employés dans l'ordre d'affichage de la grille (lignes couvertes par une sélection rectangulaire)
+  const employeeOrder = useMemo(
+    () => groupEmployeesByTeam(employees, teams, selectedCalendarId).flatMap(team => team.employees.map(emp => emp.id)),
+    [employees, teams, selectedCalendarId]
+  );
+  const cellSelection = useMemo(
+    () => selectionCorners && resolveCellSelection(selectionCorners.anchor, selectionCorners.focus, employeeOrder),
+    [selectionCorners, employeeOrder]
+  );
+
+  // Pose ou déplace un coin de la sélection rectangulaire
+  const selectCells = useCallback((cell: GridCell, mode: "start" | "extend" | "hover") => {
+    if (mode === "hover" && !isSelectingCells.current) return;
+    if (mode === "start") isSelectingCells.current = true;
+    setSelectionCorners(prev => {
+      if (mode === "start" || !prev) return { anchor: cell, focus: cell };
+      if (prev.focus.employeeId === cell.employeeId && prev.focus.start.getTime() === cell.start.getTime()) return prev;
+      return { ...prev, focus: cell };
+    });
+  }, []);
+
+  // Années couvertes par les fermetures calculées : période affichée, plus une année de part et d'autre
+  const closureFromYear = (dayInTimeline[0] ?? new Date()).getFullYear() - 1;
+  const closureToYear = (dayInTimeline[dayInTimeline.length - 1] ?? new Date()).getFullYear() + 1;
+  // Dates non travaillées du calendrier sélectionné : dates saisies et jours fériés de sa région
+  const calendarNonWorkingDates = useMemo(
+    () => [...nonWorkingDates, ...getHolidayDates(holidayRegion, closureFromYear, closureToYear)],
+    [nonWorkingDates, holidayRegion, closureFromYear, closureToYear]
+  );
+  // Dates non travaillées d'un employé : dates du calendrier, fermetures du calendrier sélectionné et de son équipe
+  // (calculées une fois par équipe)
+  const nonWorkingDatesOf = useMemo(() => {
+    const byTeam = new Map<number | undefined, Date[]>();
+    return (employeeId: Appointment["employeeId"]): Date[] => {
+      const teamId = employees.find(emp => emp.id === Number(employeeId))?.groupId;
+      if (!byTeam.has(teamId)) {
+        const closed = getClosureDates(closures, { calendarId: selectedCalendarId, teamId }, closureFromYear, closureToYear);
+        byTeam.set(teamId, closed.length > 0 ? [...calendarNonWorkingDates, ...closed] : calendarNonWorkingDates);
       }
-    }
-    
-    return sequence;
-  }, [isConsecutive]);
+      return byTeam.get(teamId)!;
+    };
+  }, [employees, closures, calendarNonWorkingDates, selectedCalendarId, closureFromYear, closureToYear]);
+
+  // Occurrences des récurrences calculées uniquement sur la période affichée
+  const occurrences = useMemo(() => {
+    if (dayInTimeline.length === 0) return [];
+    const rangeStart = startOfDay(dayInTimeline[0]);
+    const rangeEnd = endOfDay(dayInTimeline[dayInTimeline.length - 1]);
+    return recurrences.flatMap(rec =>
+      expandRecurrence(rec, rangeStart, rangeEnd, timeSlots, nonWorkingDatesOf(rec.template.employeeId), workingPatternOf(rec.template.employeeId))
+    );
+  }, [recurrences, dayInTimeline, timeSlots, nonWorkingDatesOf, workingPatternOf]);
 
-  // Création de rendez-vous répétés
-  const createRepeatedAppointments = useCallback((repeatInterval: "day" | "week" | "month", repeatCount: number, endDate?: Date, numberCount?: number) => {
-    const startDateOriginal = selectedAppointment?.startDate;
-    const endDateOriginal = selectedAppointment?.endDate;
-    if (!startDateOriginal || !endDateOriginal) {
-      console.warn("Start date or end date is undefined.");
-      return;
-    }
-    const diff = endDateOriginal.getTime() - startDateOriginal.getTime();
+  // Rendez-vous affichés dans la grille : rendez-vous filtrés et occurrences correspondant à la recherche
+  const displayedAppointments = useMemo(() => {
+    const lowercasedQuery = searchInput.toLowerCase();
+    return [
+      ...filteredAppointments,
+      ...occurrences.filter(app => !searchInput || app.title.toLowerCase().includes(lowercasedQuery)),
+    ];
+  }, [filteredAppointments, occurrences, searchInput]);
+
+  // Rendez-vous de la sélection multiple (au moins deux), occurrences de récurrence comprises
+  const selectedGroup = useMemo(
+    () => selectedAppointmentIds.size > 1
+      ? [...appointments.current, ...occurrences].filter(app => selectedAppointmentIds.has(app.id))
+      : [],
+    [selectedAppointmentIds, filteredAppointments, occurrences]
+  );
 
-    const newAppointments: Appointment[] = [];
-    let currentStartDate = repeatInterval === "day" ? addDays(startDateOriginal, numberCount || 0) 
-    : repeatInterval === "week" ? addWeeks(startDateOriginal, numberCount || 0) 
-    : addMonths(startDateOriginal, numberCount || 0);    
+  // Lasso : la sélection rectangulaire sélectionne les rendez-vous affichés qui la recoupent
+  useEffect(() => {
+    if (!cellSelection) return;
+    setSelectedAppointmentIds(new Set(displayedAppointments
+      .filter(app => cellSelection.employeeIds.includes(Number(app.employeeId))
+        && app.startDate < cellSelection.end && app.endDate > cellSelection.start)
+      .map(app => app.id)));
+  }, [cellSelection]);
+
+  // Conflits de planification sur tous les rendez-vous chargés (recalculés après chaque modification,
+  // researchAppointments mettant à jour filteredAppointments)
+  const schedulingConflicts = useMemo(
+    () => detectConflicts([...appointments.current, ...occurrences], planningRules, timeSlots, nonWorkingDatesOf, workingPatternOf),
+    [filteredAppointments, occurrences, planningRules, timeSlots, nonWorkingDatesOf, workingPatternOf]
+  );
+  const conflictsByAppointment = useMemo(() => groupConflictsByAppointment(schedulingConflicts), [schedulingConflicts]);
+  // Rendez-vous placés en dehors du contrat de leur employé (listés avec les conflits)
+  const contractViolations = useMemo(
+    () => findOutOfContractAssignments([...appointments.current, ...occurrences], employees, timeSlots, nonWorkingDatesOf),
+    [filteredAppointments, occurrences, employees, timeSlots, nonWorkingDatesOf]
+  );
 
-    currentStartDate = getNextWorkedDay(
-      currentStartDate, 
-      isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-      nonWorkingDates
-    );
+  /**
+   * Évalue les règles de planification pour un rendez-vous tel qu'il serait enregistré
+   * Un rendez-vous hors du contrat de l'employé est toujours refusé.
+   * @param candidate Rendez-vous créé, modifié ou déplacé (id 0 pour un nouveau rendez-vous)
+   * @param planning Rendez-vous comparés (par défaut le planning chargé ; une action groupée y place ses autres candidats)
+   * @returns Règles bloquantes (refus) et règles d'avertissement enfreintes
+   */
+  const evaluatePlanningRules = useCallback(
+    (candidate: Appointment, planning: Appointment[] = [...appointments.current, ...occurrences]): { block: string | null; warn: string | null } => {
+      const employee = employees.find(emp => emp.id === Number(candidate.employeeId));
+      const outside = employee && findOutsideContract(candidate, employee, timeSlots, nonWorkingDatesOf(employee.id));
+      if (employee && outside) return { block: `${employee.name} n'est pas sous contrat le ${format(outside, "dd/MM/yyyy")}`, warn: null };
+      const found = findConflictsFor(candidate, planning, planningRules, timeSlots, nonWorkingDatesOf(candidate.employeeId), workingPatternOf(candidate.employeeId));
+      const labels = (severity: PlanningRule["severity"]) =>
+        [...new Set(found.filter(conflict => conflict.severity === severity).map(conflict => conflict.label))].join(", ");
+      return { block: labels("block") || null, warn: labels("warn") || null };
+    },
+    [employees, occurrences, planningRules, timeSlots, nonWorkingDatesOf, workingPatternOf]
+  );
 
-    if (repeatCount) {
-      for (let i = 0; i < repeatCount; i++) {
-        const newStartDate = getNextWorkedDay(
-          new Date(currentStartDate.getTime()),
-          isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-          nonWorkingDates
-        );
-        const newEndDate = new Date(newStartDate.getTime() + diff);
-
-        const days = getWorkedDayIntervals(
-          newStartDate,
-          newEndDate,
-          isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-          false,
-          nonWorkingDates
-        );
+  /**
+   * Vérifie les règles de planification avant une action :
+   * les règles "warn" sont signalées à l'utilisateur, les règles "block" empêchent l'action
+   * @param candidate Rendez-vous créé, modifié ou déplacé (id 0 pour un nouveau rendez-vous)
+   * @param planning Rendez-vous comparés (par défaut le planning chargé)
+   * @returns Explication du refus, ou null si l'action peut être appliquée
+   */
+  const checkPlanningRules = useCallback((candidate: Appointment, planning?: Appointment[]): string | null => {
+    const { block, warn } = evaluatePlanningRules(candidate, planning);
+    if (block) return block;
+    if (warn) setModaltInfo(`Attention : ${warn}`);
+    return null;
+  }, [evaluatePlanningRules]);
+
+  // Envoie une modification au serveur et signale l'échec éventuel à l'utilisateur
+  const persist = useCallback((request: Promise<unknown>) => {
+    request.catch((error) => {
+      console.error("Échec de l'enregistrement :", error);
+      setModaltInfo("Erreur lors de l'enregistrement, la modification n'a pas été sauvegardée.");
+    });
+  }, []);
 
-        days.forEach(day => {
-          newAppointments.push({
-          id: Number(Date.now() + i), // Assure l'unicité de l'ID
-          title: selectedAppointment?.title || "Rendez-vous répété",
-          libelle: selectedAppointment?.libelle || "Rendez-vous répété",
-          description: selectedAppointment?.description || "Description du rendez-vous répété",
-          startDate: day.start ,
-          endDate: day.end,
-          imageUrl: selectedAppointment?.imageUrl,
-          employeeId: selectedAppointment?.employeeId,
-          type: selectedAppointment?.type || "Chantier", // Type de rendez-vous
-        });
-      });
+  // Remplace l'ID local d'un rendez-vous créé par l'ID attribué par le serveur (copie locale, sélection et historique)
+  const remapAppointment = useCallback((fromId: number, toId: number) => {
+    serverIds.current.set(fromId, toId);
+    appointments.current = appointments.current.map(app => app.id === fromId ? { ...app, id: toId } : app);
+    setSelectedAppointment(prev => prev?.id === fromId ? { ...prev, id: toId } : prev);
+    undoStack.current = remapAppointmentId(undoStack.current, fromId, toId);
+    redoStack.current = remapAppointmentId(redoStack.current, fromId, toId);
+    researchAppointments(); // Met à jour la liste filtrée
+  }, [researchAppointments]);
 
-      // Incrémente la date pour le prochain rendez-vous
-      currentStartDate = repeatInterval === "day" ? addDays(newStartDate, numberCount || 1)
-        : repeatInterval === "week" ? addWeeks(newStartDate, numberCount || 1) 
-        : addMonths(newStartDate, numberCount || 1);
+  /**
+   * Envoie l'écriture d'un rendez-vous au serveur avec la version connue.
+   * Les écritures d'un même rendez-vous partent l'une après l'autre pour toujours transmettre la dernière version ;
+   * un refus pour conflit est mis en attente d'arbitrage par l'utilisateur.
+   * Une écriture partie avec l'ID local d'une création est envoyée sous l'ID attribué par le serveur.
+   * @param action Type d'écriture
+   * @param appointment Rendez-vous concerné
+   */
+  const persistAppointment = useCallback((action: "create" | "update" | "delete", appointment: Appointment) => {
+    const { id } = appointment;
+    const send = async () => {
+      const serverId = serverIds.current.get(id) ?? id;
+      const version = serverVersions.current.get(serverId) ?? 0;
+      try {
+        if (action === "delete") {
+          await deleteAppointmentApi(serverId, version);
+          serverVersions.current.delete(serverId);
+          return;
+        }
+        const saved = action === "create"
+          ? await createAppointmentApi(appointment)
+          : await updateAppointmentApi({ ...appointment, id: serverId, version });
+        serverVersions.current.set(saved.id, saved.version ?? 0);
+        if (action === "create" && saved.id !== id) {
+          // Les écritures suivantes s'enchaînent sous le nouvel ID, après celles déjà en attente sous l'ID local
+          const queued = pendingWrites.current.get(id);
+          if (queued) {
+            pendingWrites.current.set(saved.id, queued);
+            const release = () => {
+              if (pendingWrites.current.get(saved.id) === queued) pendingWrites.current.delete(saved.id);
+            };
+            queued.then(release, release);
+          }
+          remapAppointment(id, saved.id);
+        }
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+        const server = error.current as Appointment;
+        serverVersions.current.set(serverId, server.version ?? 0);
+        setConflicts(prev => [...prev, { mine: action === "delete" ? null : { ...appointment, id: serverId }, server }]);
       }
-    }
-    else if(endDate){      
-      while (currentStartDate <= endDate) {
-        const newStartDate = getNextWorkedDay(
-          new Date(currentStartDate.getTime()), 
-          isFullDay
-          ? DAY_INTERVALS
-          : HALF_DAY_INTERVALS,
-          nonWorkingDates
-        );
-        const newEndDate = new Date(newStartDate.getTime() + diff);
-
-        const days = getWorkedDayIntervals(
-          newStartDate, 
-          newEndDate,
-          isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-          false,
-          nonWorkingDates
-        );
+    };
+    const next = (pendingWrites.current.get(id) ?? Promise.resolve()).catch(() => undefined).then(send);
+    pendingWrites.current.set(id, next);
+    const cleanup = () => {
+      if (pendingWrites.current.get(id) === next) pendingWrites.current.delete(id);
+    };
+    next.then(cleanup, cleanup);
+    persist(next);
+  }, [persist, remapAppointment]);
+
+  // Conflit : on remplace la copie locale par celle du serveur
+  const keepServerVersion = useCallback((conflict: AppointmentConflict) => {
+    const { server } = conflict;
+    appointments.current = [...appointments.current.filter(app => app.id !== server.id), server];
+    researchAppointments(); // Met à jour la liste filtrée
+    setConflicts(prev => prev.slice(1));
+  }, [researchAppointments]);
 
-        days.forEach(day => {
-          newAppointments.push({
-          id: Number(Date.now() + day.start.getTime()), // Assure l'unicité de l'ID
-          title: selectedAppointment?.title || "Rendez-vous répété",
-          libelle: selectedAppointment?.libelle || "Rendez-vous répété",
-          description: selectedAppointment?.description || "Description du rendez-vous répété",
-          startDate: day.start ,
-          endDate: day.end,
-          imageUrl: selectedAppointment?.imageUrl,
-          employeeId: selectedAppointment?.employeeId,
-          type: selectedAppointment?.type || "Chantier", // Type de rendez-vous
-        });
+  // Conflit : on renvoie ma copie (ou ma suppression) avec la version du serveur
+  const keepMyVersion = useCallback((conflict: AppointmentConflict) => {
+    const { mine, server } = conflict;
+    if (mine) persistAppointment("update", appointments.current.find(app => app.id === mine.id) ?? mine);
+    else persistAppointment("delete", server);
+    setConflicts(prev => prev.slice(1));
+  }, [persistAppointment]);
+
+  // Met en évidence un rendez-vous modifié par un autre utilisateur pendant quelques secondes
+  const highlightAppointment = useCallback((id: number) => {
+    setHighlightedIds(prev => new Set(prev).add(id));
+    setTimeout(() => {
+      setHighlightedIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
       });
+    }, REMOTE_HIGHLIGHT_DURATION);
+  }, []);
 
-      // Incrémente la date pour le prochain rendez-vous
-      currentStartDate = repeatInterval === "day" ? addDays(newStartDate, numberCount || 1)
-        : repeatInterval === "week" ? addWeeks(newStartDate, numberCount || 1)
-        : addMonths(newStartDate, numberCount || 1);
+  // Remplace la liste des récurrences (référence synchrone et état d'affichage)
+  const setRecurrenceList = useCallback((list: Recurrence[]) => {
+    recurrencesRef.current = list;
+    setRecurrences(list);
+  }, []);
+
+  // Applique une modification diffusée par le serveur (création, mise à jour ou suppression par un autre utilisateur)
+  const handleServerEvent = useCallback((event: {
+    type: "created" | "updated" | "deleted";
+    entity: "appointment" | "recurrence";
+    id: number;
+    appointment?: Appointment;
+    recurrence?: Recurrence;
+    clientId?: string | null;
+  } | { type: "reload"; clientId?: string | null }) => {
+    if (event.clientId === CLIENT_ID) return; // Notre propre modification
+    // Sauvegarde importée : toutes les données sont rechargées et l'historique, devenu caduc, est vidé
+    if (event.type === "reload") {
+      undoStack.current = [];
+      redoStack.current = [];
+      setHistoryLabels({});
+      loadedWindow.current = null;
+      setReloadCount(count => count + 1);
+      setModaltInfo("Le planning a été rechargé après l'import d'une sauvegarde.");
+      return;
+    }
+    // Récurrence : ses occurrences sont recalculées à partir de la liste mise à jour
+    if (event.entity === "recurrence") {
+      const others = recurrencesRef.current.filter(rec => rec.id !== event.id);
+      setRecurrenceList(event.type === "deleted" || !event.recurrence ? others : [...others, reviveRecurrence(event.recurrence)]);
+      return;
+    }
+    // Une écriture locale en cours garde sa version : le serveur arbitrera un éventuel conflit
+    const hasPendingWrite = pendingWrites.current.has(event.id);
+    const loaded = loadedWindow.current;
+    // Un rendez-vous hors de la période ou du calendrier chargés est traité comme une suppression locale
+    const isLoaded = (app: Appointment) => !!loaded
+      && isInWindow(app, loaded)
+      && !!employees.find(emp => emp.id === Number(app.employeeId))?.calendarId.includes(loaded.calendarId);
+    const appointment = event.appointment && reviveAppointment(event.appointment);
+    if (event.type === "deleted" || !appointment || !isLoaded(appointment)) {
+      appointments.current = appointments.current.filter(app => app.id !== event.id);
+      if (!hasPendingWrite) serverVersions.current.delete(event.id);
+    } else {
+      appointments.current = [...appointments.current.filter(app => app.id !== event.id), appointment];
+      if (!hasPendingWrite) serverVersions.current.set(event.id, appointment.version ?? 0);
+      highlightAppointment(event.id);
+    }
+    researchAppointments(); // Met à jour la liste filtrée
+  }, [researchAppointments, highlightAppointment, setRecurrenceList, employees]);
+
+  // Enregistre une récurrence créée côté serveur (l'ID peut être réattribué s'il est déjà pris)
+  const persistNewRecurrence = useCallback((recurrence: Recurrence) => {
+    persist(createRecurrenceApi(recurrence).then(saved => {
+      if (saved.id !== recurrence.id) {
+        setRecurrenceList(recurrencesRef.current.map(rec => rec.id === recurrence.id ? saved : rec));
+        undoStack.current = remapRecurrenceId(undoStack.current, recurrence.id, saved.id);
+        redoStack.current = remapRecurrenceId(redoStack.current, recurrence.id, saved.id);
       }
+    }));
+  }, [persist, setRecurrenceList]);
+
+  const addRecurrence = useCallback((recurrence: Recurrence) => {
+    setRecurrenceList([...recurrencesRef.current, recurrence]);
+    persistNewRecurrence(recurrence);
+  }, [setRecurrenceList, persistNewRecurrence]);
+
+  const saveRecurrence = useCallback((recurrence: Recurrence) => {
+    setRecurrenceList(recurrencesRef.current.map(rec => rec.id === recurrence.id ? recurrence : rec));
+    persist(updateRecurrenceApi(recurrence));
+  }, [persist, setRecurrenceList]);
+
+  const removeRecurrence = useCallback((id: number) => {
+    setRecurrenceList(recurrencesRef.current.filter(rec => rec.id !== id));
+    persist(deleteRecurrenceApi(id));
+  }, [persist, setRecurrenceList]);
+
+  // --- HISTORIQUE ANNULER / RÉTABLIR ---
+
+  const takeSnapshot = useCallback((): PlanningSnapshot => ({
+    appointments: appointments.current,
+    recurrences: recurrencesRef.current,
+  }), []);
+
+  const refreshHistoryLabels = useCallback(() => {
+    setHistoryLabels({
+      undo: undoStack.current[undoStack.current.length - 1]?.label,
+      redo: redoStack.current[redoStack.current.length - 1]?.label,
+    });
+  }, []);
+
+  /**
+   * Exécute une action et l'enregistre comme une seule étape de l'historique.
+   * Les actions appelées à l'intérieur (ex: onResize depuis moveAppointment) sont fusionnées dans la même étape.
+   * @param label Libellé de l'action
+   * @param action Modifications à effectuer
+   */
+  const recordHistory = useCallback((label: string, action: () => void) => {
+    if (historyDepth.current > 0) {
+      action();
+      return;
     }
-    // Ajoute les nouveaux rendez-vous à la liste
-    appointments.current = [...appointments.current, ...newAppointments];
+    const before = takeSnapshot();
+    historyDepth.current++;
+    try {
+      action();
+    } finally {
+      historyDepth.current--;
+    }
+    const command = createCommand(label, before, takeSnapshot());
+    if (!command) return;
+    undoStack.current = [...undoStack.current, command].slice(-MAX_HISTORY);
+    redoStack.current = [];
+    refreshHistoryLabels();
+  }, [takeSnapshot, refreshHistoryLabels]);
+
+  // Applique une commande localement et sur le serveur
+  const applyCommand = useCallback((command: HistoryCommand) => {
+    appointments.current = applyChanges(appointments.current, command.appointments);
+    setRecurrenceList(applyChanges(recurrencesRef.current, command.recurrences));
+    command.appointments.forEach(({ before, after }) => {
+      if (!after) persistAppointment("delete", before!);
+      else if (!before) persistAppointment("create", after);
+      else persistAppointment("update", after);
+    });
+    command.recurrences.forEach(({ before, after }) => {
+      if (!after) persist(deleteRecurrenceApi(before!.id));
+      else if (!before) persistNewRecurrence(after);
+      else persist(updateRecurrenceApi(after));
+    });
     researchAppointments(); // Met à jour la liste filtrée
-    setModaltInfo(`${newAppointments.length} rendez-vous créé${newAppointments.length > 1 ? 's' : ''}`);
-    setRepeatAppointmentData(null);
-  }, [researchAppointments, selectedAppointment, isFullDay, nonWorkingDates]);
+    selectAppointment(null);
+  }, [persistAppointment, persistNewRecurrence, setRecurrenceList, researchAppointments]);
+
+  const undo = useCallback(() => {
+    const command = undoStack.current[undoStack.current.length - 1];
+    if (!command) return;
+    undoStack.current = undoStack.current.slice(0, -1);
+    redoStack.current = [...redoStack.current, command];
+    applyCommand(invertCommand(command));
+    refreshHistoryLabels();
+  }, [applyCommand, refreshHistoryLabels]);
+
+  const redo = useCallback(() => {
+    const command = redoStack.current[redoStack.current.length - 1];
+    if (!command) return;
+    redoStack.current = redoStack.current.slice(0, -1);
+    undoStack.current = [...undoStack.current, command];
+    applyCommand(command);
+    refreshHistoryLabels();
+  }, [applyCommand, refreshHistoryLabels]);
+
+  // Enregistre une exception (annulation ou modification) pour une seule occurrence
+  const updateOccurrence = useCallback((occurrence: Appointment, exception: Omit<RecurrenceException, "occurrenceDate">) => {
+    const recurrence = recurrencesRef.current.find(rec => rec.id === occurrence.recurrenceId);
+    if (!recurrence || !occurrence.occurrenceDate) return;
+    const previous = recurrence.exceptions.find(ex => ex.occurrenceDate === occurrence.occurrenceDate);
+    saveRecurrence({
+      ...recurrence,
+      exceptions: [
+        ...recurrence.exceptions.filter(ex => ex.occurrenceDate !== occurrence.occurrenceDate),
+        {
+          occurrenceDate: occurrence.occurrenceDate,
+          ...exception,
+          override: exception.override && { ...previous?.override, ...exception.override },
+        },
+      ],
+    });
+  }, [saveRecurrence]);
+
+  // Applique la modification ou la suppression en attente selon la portée choisie
+  const applyRecurrenceScope = useCallback((scope: RecurrenceScope) => {
+    if (!recurrencePrompt) return;
+    const { action, occurrence, changes } = recurrencePrompt;
+    recordHistory(action === "delete" ? "Supprimer" : "Modifier", () => {
+      const recurrence = recurrencesRef.current.find(rec => rec.id === occurrence.recurrenceId);
+      if (!recurrence || !occurrence.occurrenceDate) return;
+
+      if (action === "delete") {
+        if (scope === "this") {
+          updateOccurrence(occurrence, { cancelled: true });
+        } else {
+          const truncated = scope === "following" ? truncateRecurrence(recurrence, occurrence.occurrenceDate) : null;
+          if (truncated) saveRecurrence(truncated);
+          else removeRecurrence(recurrence.id);
+        }
+        selectAppointment(null);
+        return;
+      }
+
+      if (!changes) return;
+      const template = {
+        title: changes.title,
+        libelle: changes.libelle,
+        description: changes.description,
+        imageUrl: changes.imageUrl,
+        employeeId: changes.employeeId,
+        type: changes.type,
+      };
+      if (scope === "this") {
+        updateOccurrence(occurrence, { override: { ...template, startDate: changes.startDate, endDate: changes.endDate } });
+        return;
+      }
+
+      const truncated = scope === "following" ? truncateRecurrence(recurrence, occurrence.occurrenceDate) : null;
+      if (truncated) {
+        // La récurrence d'origine s'arrête avant l'occurrence, une nouvelle reprend à partir d'elle
+        saveRecurrence(truncated);
+        addRecurrence({
+          id: recurrencesRef.current.reduce((max, rec) => Math.max(max, rec.id), 0) + 1,
+          rrule: getFollowingRRule(recurrence, occurrence.occurrenceDate),
+          dtStart: changes.startDate,
+          duration: changes.endDate.getTime() - changes.startDate.getTime(),
+          template,
+          exceptions: [],
+        });
+      } else {
+        // Toutes les occurrences : on décale la récurrence (et ses exceptions) du même écart que l'occurrence modifiée
+        const offset = changes.startDate.getTime() - occurrence.startDate.getTime();
+        saveRecurrence({
+          ...shiftRecurrence(recurrence, offset),
+          duration: changes.endDate.getTime() - changes.startDate.getTime(),
+          template,
+        });
+      }
+    });
+  }, [recurrencePrompt, updateOccurrence, saveRecurrence, removeRecurrence, addRecurrence, recordHistory]);
+
+  // Création d'une récurrence à partir du rendez-vous sélectionné (qui en devient la première occurrence)
+  const createRepeatedAppointments = useCallback((repeatInterval: "day" | "week" | "month", repeatCount: number, endDate?: Date, numberCount?: number) => {
+    recordHistory("Répéter", () => {
+      if (!selectedAppointment || selectedAppointment.recurrenceId) {
+        setModaltInfo("Aucun rendez-vous simple sélectionné à répéter.");
+        return;
+      }
+      if (!repeatCount && !endDate) {
+        setModaltInfo("Nombre de répétitions ou date de fin requis.");
+        return;
+      }
+      const rrule = formatRRule({
+        freq: repeatFrequencies[repeatInterval],
+        interval: numberCount || 1,
+        ...(repeatCount ? { count: repeatCount + 1 } : { until: endOfDay(endDate as Date) }),
+      });
+      addRecurrence({
+        id: recurrencesRef.current.reduce((max, rec) => Math.max(max, rec.id), 0) + 1,
+        rrule,
+        dtStart: selectedAppointment.startDate,
+        duration: selectedAppointment.endDate.getTime() - selectedAppointment.startDate.getTime(),
+        template: {
+          title: selectedAppointment.title,
+          libelle: selectedAppointment.libelle,
+          description: selectedAppointment.description,
+          imageUrl: selectedAppointment.imageUrl,
+          employeeId: selectedAppointment.employeeId,
+          type: selectedAppointment.type,
+          weekendPolicy: selectedAppointment.weekendPolicy,
+          holidayPolicy: selectedAppointment.holidayPolicy,
+        },
+        exceptions: [],
+      });
+
+      // Le rendez-vous d'origine est remplacé par la première occurrence
+      appointments.current = appointments.current.filter(app => app.id !== selectedAppointment.id);
+      persistAppointment("delete", selectedAppointment);
+      researchAppointments(); // Met à jour la liste filtrée
+      setModaltInfo(repeatCount
+        ? `${repeatCount} répétition${repeatCount > 1 ? 's' : ''} planifiée${repeatCount > 1 ? 's' : ''}`
+        : `Répétitions planifiées jusqu'au ${format(endDate as Date, "dd/MM/yyyy")}`);
+      setRepeatAppointmentData(null);
+    });
+  }, [researchAppointments, selectedAppointment, addRecurrence, persistAppointment, recordHistory]);
 
   const onResize = useCallback(
     (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId?: number) => {     
-      appointments.current = appointments.current.map((app) =>
-        app.id === id
-          ? { ...app, startDate: newStartDate, endDate: newEndDate, employeeId: newEmployeeId || app.employeeId }
-          : app
-      );
-      researchAppointments(); // Met à jour la liste filtrée
-    }, [researchAppointments]
+      recordHistory("Redimensionner", () => {
+        appointments.current = appointments.current.map((app) =>
+          app.id === id
+            ? { ...app, startDate: newStartDate, endDate: newEndDate, employeeId: newEmployeeId || app.employeeId }
+            : app
+        );
+        const updated = appointments.current.find((app) => app.id === id);
+        if (updated) persistAppointment("update", updated);
+        researchAppointments(); // Met à jour la liste filtrée
+      });
+    }, [researchAppointments, persistAppointment, recordHistory]
   );
-  // Création d'un rendez-vous (utilisé lors du resize fractionné)
+  // Création d'un rendez-vous (policies : traitement des week-ends et fériés couverts)
   const createAppointment = useCallback(
-    (title: string, startDate: Date, endDate: Date, employeeId: number, type: "Chantier" | "Absence" | "Autre", libelle?: string, imageUrl?: string) => {
+    (title: string, startDate: Date, endDate: Date, employeeId: number, type: "Chantier" | "Absence" | "Autre", libelle?: string, imageUrl?: string, policies?: Pick<Appointment, "weekendPolicy" | "holidayPolicy">) => {
       const newApp: Appointment = {
         id: Number(Date.now() + Math.random()), // Assure l'unicité de l'ID
         title,
@@ -377,57 +891,283 @@ export default function HomePage() {
         imageUrl,
         employeeId,
         type,
+        ...policies,
       };
       appointments.current = [...appointments.current, newApp];
+      persistAppointment("create", newApp);
       researchAppointments(); // Met à jour la liste filtrée
-  }, [researchAppointments]);
+  }, [researchAppointments, persistAppointment]);
+
+  /**
+   * Décale un rendez-vous de n créneaux et de n lignes d'employés (déplacement ou collage d'une sélection multiple)
+   * @param app Rendez-vous à décaler
+   * @param slotDelta Nombre de créneaux affichés (négatif pour reculer)
+   * @param rowDelta Nombre de lignes (négatif pour remonter)
+   * @returns Rendez-vous décalé, ou null si sa ligne sort de la grille
+   */
+  const shiftAppointment = useCallback((app: Appointment, slotDelta: number, rowDelta: number): Appointment | null => {
+    const row = employeeOrder.indexOf(Number(app.employeeId));
+    const employeeId = rowDelta === 0 ? app.employeeId : employeeOrder[row + rowDelta];
+    if (employeeId === undefined || (rowDelta !== 0 && row === -1)) return null;
+    return {
+      ...app,
+      startDate: shiftBySlots(app.startDate, slotDelta, zoomScale.slots),
+      endDate: shiftBySlots(app.endDate, slotDelta, zoomScale.slots, true),
+      employeeId,
+    };
+  }, [employeeOrder, zoomScale]);
 
+  // Copie un rendez-vous ; s'il fait partie de la sélection multiple, toute la sélection est copiée
   const copyAppointmentToClipboard = useCallback((app: Appointment) => {
     if (app) {
       clipboardAppointment.current = { ...app };
+      clipboardGroup.current = selectedGroup.some(item => item.id === app.id) ? selectedGroup.map(item => ({ ...item })) : [];
     } else {
       console.warn("Aucun rendez-vous sélectionné à copier.");
     }    
-  }, [selectedAppointment]);
+  }, [selectedGroup]);
+
+  /**
+   * Colle la sélection multiple copiée : son premier rendez-vous arrive sur la cellule choisie,
+   * sa ligne la plus haute sur l'employé de la cellule, et les autres gardent leurs écarts.
+   * Les rendez-vous sans créneau travaillé ou refusés par les règles sont ignorés et signalés.
+   * @param cell Cellule de destination
+   */
+  const pasteSelection = useCallback((cell: { employeeId: number; date: Date }) => {
+    const group = clipboardGroup.current;
+    const first = group.reduce((min, app) => app.startDate < min.startDate ? app : min);
+    const rows = group.map(app => employeeOrder.indexOf(Number(app.employeeId))).filter(row => row !== -1);
+    const slotDelta = getSlotDistance(first.startDate, cell.date, zoomScale.slots);
+    const rowDelta = rows.length > 0 ? employeeOrder.indexOf(cell.employeeId) - Math.min(...rows) : 0;
+    const skipped: string[] = [];
+    let created = 0;
+    recordHistory("Coller la sélection", () => {
+      group.forEach(app => {
+        const candidate = shiftAppointment({ ...app, id: 0 }, slotDelta, rowDelta);
+        if (!candidate) {
+          skipped.push(`${app.title} (hors de la grille)`);
+          return;
+        }
+        const { employeeId } = candidate;
+        if (countWorkedSlots(candidate, timeSlots, nonWorkingDatesOf(employeeId), workingPatternOf(employeeId)) === 0) {
+          skipped.push(`${app.title} (aucun créneau travaillé)`);
+          return;
+        }
+        const refusal = checkPlanningRules(candidate);
+        if (refusal) {
+          skipped.push(`${app.title} (${refusal})`);
+          return;
+        }
+        createAppointment(
+          candidate.title,
+          candidate.startDate,
+          candidate.endDate,
+          Number(employeeId),
+          candidate.type || "Chantier",
+          candidate.libelle,
+          candidate.imageUrl,
+          { weekendPolicy: candidate.weekendPolicy, holidayPolicy: candidate.holidayPolicy }
+        );
+        created++;
+      });
+    });
+    setModaltInfo(`${created} rendez-vous collé${created > 1 ? "s" : ""}${skipped.length ? ` ; ignorés : ${skipped.join(", ")}` : ""}`);
+  }, [employeeOrder, zoomScale, shiftAppointment, createAppointment, checkPlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf, recordHistory]);
 
   const pasteAppointment = useCallback((cell: { employeeId: number; date: Date }) => {
-    if (!clipboardAppointment.current) return;
-
-    const startDate = clipboardAppointment.current.startDate;
-    const endDate = clipboardAppointment.current.endDate;
-    
-    // Différence entre les dates de début et de fin du rendez-vous copié
-    const diff = endDate.getTime() - startDate.getTime();
-
-    // Nouvelle date de début basée sur la cellule sélectionnée
-    const newStartDate = new Date(cell.date.getTime());
-    const newEndDate = new Date(newStartDate.getTime() + diff);
-
-    if (!isWorkedDay(newStartDate, nonWorkingDates)) {
-      console.warn("Les dates sélectionnées ne sont pas des jours travaillés.");
+    if (clipboardGroup.current.length > 1) {
+      pasteSelection(cell);
       return;
     }
+    recordHistory("Coller", () => {
+      if (!clipboardAppointment.current) return;
 
-    const days = getWorkedDayIntervals(
-      newStartDate, 
-      newEndDate,
-      isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-      false,
-      nonWorkingDates
-    );
+      const startDate = clipboardAppointment.current.startDate;
+      const endDate = clipboardAppointment.current.endDate;
+    
+      // Différence entre les dates de début et de fin du rendez-vous copié
+      const diff = endDate.getTime() - startDate.getTime();
+
+      // Nouvelle date de début basée sur la cellule sélectionnée,
+      // décalée au prochain créneau travaillé de l'employé comme pour le collage d'une période
+      const { weekendPolicy, holidayPolicy } = clipboardAppointment.current;
+      const nonWorkingDates = nonWorkingDatesOf(cell.employeeId);
+      const workingPattern = workingPatternOf(cell.employeeId);
+      const newStartDate = isAppointmentWorkedDay(cell.date, { weekendPolicy, holidayPolicy }, timeSlots, nonWorkingDates, workingPattern)
+        ? new Date(cell.date.getTime())
+        : getNextWorkedDay(cell.date, timeSlots, nonWorkingDates, workingPattern);
+      if (!newStartDate) {
+        setModaltInfo("Collage refusé : aucun créneau travaillé pour cet employé");
+        return;
+      }
+      const newEndDate = new Date(newStartDate.getTime() + diff);
+      const refusal = checkPlanningRules({
+        ...clipboardAppointment.current,
+        id: 0,
+        startDate: newStartDate,
+        endDate: newEndDate,
+        employeeId: cell.employeeId,
+      });
+      if (refusal) {
+        setModaltInfo(`Collage refusé : ${refusal}`);
+        return;
+      }
 
-    for (const day of days) {
+      // Le rendez-vous collé reste un seul enregistrement, avec la même politique que l'original
       createAppointment?.(
         clipboardAppointment.current.title,
-        day.start,
-        day.end,
+        newStartDate,
+        newEndDate,
         cell.employeeId,
         clipboardAppointment.current.type || "Chantier",
         clipboardAppointment.current.libelle || "Rendez-vous copié",
-        clipboardAppointment.current.imageUrl
+        clipboardAppointment.current.imageUrl,
+        { weekendPolicy, holidayPolicy }
       );
+    });
+  }, [createAppointment, pasteSelection, checkPlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf, recordHistory]);
+
+  /**
+   * Copie les rendez-vous d'une période pour un employé, son équipe ou tout le calendrier affiché
+   * Les rendez-vous hors de la période chargée sont demandés au serveur.
+   * @param cell Cellule d'origine (employé de référence)
+   * @param scope Portée de la copie
+   * @param start Début du premier jour
+   * @param end Fin (exclue) du dernier jour
+   */
+  const copyRange = useCallback(async (cell: { employeeId: number; date: Date }, scope: RangeCopyScope, start: Date, end: Date) => {
+    const teamId = employees.find(emp => emp.id === cell.employeeId)?.groupId;
+    const employeeIds = scope === "employee"
+      ? [cell.employeeId]
+      : scope === "team"
+        ? employeeOrder.filter(id => employees.find(emp => emp.id === id)?.groupId === teamId)
+        : employeeOrder;
+    const loaded = loadedWindow.current;
+    try {
+      const source = loaded?.calendarId === selectedCalendarId && loaded.from <= start && end <= loaded.to
+        ? appointments.current
+        : await fetchAppointments({ from: start, to: end, calendarId: selectedCalendarId });
+      const copied = getRangeAppointments(source, employeeIds, start, end).map(app => ({ ...app }));
+      rangeClipboard.current = { scope, employeeIds, start, end, appointments: copied };
+      setModaltInfo(`${copied.length} rendez-vous copié${copied.length > 1 ? "s" : ""} du ${format(start, "dd/MM/yyyy")} au ${format(addDays(end, -1), "dd/MM/yyyy")}`);
+    } catch (error) {
+      console.error("Impossible de copier la période :", error);
+      setModaltInfo("Impossible de charger les rendez-vous de la période copiée.");
     }
-  }, [createAppointment, isFullDay, nonWorkingDates]);
+  }, [employees, employeeOrder, selectedCalendarId]);
+
+  /**
+   * Colle la période copiée à partir du jour d'une cellule, en une seule action de l'historique
+   * Les rendez-vous sont recalés sur les jours travaillés ; ceux repoussés hors de la période (fermetures),
+   * qui recouvrent une absence ou que les règles refusent sont ignorés et signalés.
+   * @param cell Cellule cible (son employé reçoit une copie limitée à un seul employé)
+   */
+  const pasteRange = useCallback((cell: { employeeId: number; date: Date }) => {
+    const clipboard = rangeClipboard.current;
+    if (!clipboard) return;
+    const describe = (app: Appointment) =>
+      `${app.title} – ${employees.find(emp => emp.id === Number(app.employeeId))?.name ?? `#${app.employeeId}`} le ${format(app.startDate, "dd/MM")}`;
+    const { candidates, skipped } = planRangePaste(clipboard, cell.date, {
+      slots: timeSlots,
+      nonWorkingDatesOf,
+      workingPatternOf,
+      planning: [...appointments.current, ...occurrences],
+      employeeId: cell.employeeId,
+    });
+    const ignored = skipped.map(({ appointment, reason }) => `${describe(appointment)} (${reason})`);
+    let created = 0;
+    recordHistory("Coller la période", () => {
+      candidates.forEach(candidate => {
+        const refusal = checkPlanningRules(candidate);
+        if (refusal) {
+          ignored.push(`${describe(candidate)} (${refusal})`);
+          return;
+        }
+        createAppointment(
+          candidate.title,
+          candidate.startDate,
+          candidate.endDate,
+          Number(candidate.employeeId),
+          candidate.type,
+          candidate.libelle,
+          candidate.imageUrl,
+          { weekendPolicy: candidate.weekendPolicy, holidayPolicy: candidate.holidayPolicy }
+        );
+        created++;
+      });
+    });
+    setModaltInfo(`${created} rendez-vous collé${created > 1 ? "s" : ""}${ignored.length ? ` ; ignorés : ${ignored.join(", ")}` : ""}`);
+  }, [employees, occurrences, timeSlots, nonWorkingDatesOf, workingPatternOf, checkPlanningRules, createAppointment, recordHistory]);
+
+  // Employés dans l'ordre d'affichage (lignes proposées pour un modèle)
+  const displayedEmployees = useMemo(
+    () => employeeOrder.map(id => employees.find(emp => emp.id === id)).filter((emp): emp is Employee => !!emp),
+    [employeeOrder, employees]
+  );
+
+  // Enregistre la sélection rectangulaire comme modèle de planning
+  const saveTemplate = useCallback((name: string, rows: string[]) => {
+    if (!templateSelection) return;
+    const assignments = getTemplateAssignments(templateSelection, displayedAppointments);
+    saveTemplateApi({ name, rows, assignments })
+      .then(saved => {
+        setTemplates(prev => [...prev, saved]);
+        setModaltInfo(`Modèle « ${saved.name} » enregistré (${assignments.length} rendez-vous)`);
+      })
+      .catch((error) => {
+        console.error("Échec de l'enregistrement du modèle :", error);
+        setModaltInfo("Erreur lors de l'enregistrement du modèle.");
+      });
+    setSelectionCorners(null);
+  }, [templateSelection, displayedAppointments]);
+
+  // Supprime un modèle (désactivé côté serveur)
+  const deleteTemplate = useCallback((template: PlanningTemplate) => {
+    setTemplates(prev => prev.filter(item => item.id !== template.id));
+    persist(saveTemplateApi({ id: template.id, active: false }));
+  }, [persist]);
+
+  /**
+   * Calcule l'aperçu d'un modèle : rendez-vous créés et règles enfreintes
+   * Chaque rendez-vous est comparé au planning et aux rendez-vous du modèle déjà acceptés.
+   * @param template Modèle à appliquer
+   * @param start Premier jour
+   * @param employeeIds Employé de chaque ligne (undefined : ligne ignorée)
+   */
+  const previewTemplate = useCallback((template: PlanningTemplate, start: Date, employeeIds: (number | undefined)[]): TemplatePreviewItem[] => {
+    const accepted: Appointment[] = [];
+    const planning = [...appointments.current, ...occurrences];
+    // ID provisoires négatifs : les rendez-vous du modèle se comparent entre eux
+    return instantiateTemplate(template, start, employeeIds).map((appointment, index) => {
+      const candidate = { ...appointment, id: -(index + 1) };
+      const { employeeId } = candidate;
+      const result = countWorkedSlots(candidate, timeSlots, nonWorkingDatesOf(employeeId), workingPatternOf(employeeId)) === 0
+        ? { block: "aucun créneau travaillé", warn: null }
+        : evaluatePlanningRules(candidate, [...planning, ...accepted]);
+      if (!result.block) accepted.push(candidate);
+      return { appointment, ...result };
+    });
+  }, [occurrences, evaluatePlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf]);
+
+  // Applique un modèle en une seule action de l'historique (les rendez-vous refusés sont ignorés)
+  const applyTemplate = useCallback((template: PlanningTemplate, start: Date, employeeIds: (number | undefined)[]) => {
+    const preview = previewTemplate(template, start, employeeIds);
+    const created = preview.filter(item => !item.block);
+    recordHistory(`Appliquer le modèle ${template.name}`, () => {
+      created.forEach(({ appointment }) => createAppointment(
+        appointment.title,
+        appointment.startDate,
+        appointment.endDate,
+        Number(appointment.employeeId),
+        appointment.type,
+        appointment.libelle,
+        appointment.imageUrl,
+        { weekendPolicy: appointment.weekendPolicy, holidayPolicy: appointment.holidayPolicy }
+      ));
+    });
+    const refused = preview.length - created.length;
+    setModaltInfo(`${created.length} rendez-vous créé${created.length > 1 ? "s" : ""}${refused ? `, ${refused} refusé${refused > 1 ? "s" : ""}` : ""}`);
+  }, [previewTemplate, createAppointment, recordHistory]);
 
   // Gestion du scroll infini horizontal (ajout de jours à gauche/droite)
   const handleScroll = useCallback(
@@ -451,9 +1191,12 @@ export default function HomePage() {
 
         setDayInTimeline((prevDays) => {
           const lastDay = prevDays[prevDays.length - 1];
-          let newDays = Array.from({ length: DAYS_TO_ADD }, (_, i) => addDays(lastDay, i + 1));
+          let newDays = Array.from({ length: zoomWindow.daysToAdd }, (_, i) => addDays(lastDay, i + 1));
           newDays = includeWeekend ? newDays : newDays.filter(day => !isWeekend(day));
-          return [...prevDays, ...newDays].slice(-WINDOW_SIZE);
+          const nextDays = [...prevDays, ...newDays].slice(-zoomWindow.windowDays);
+          // Largeur des colonnes retirées à gauche
+          scrollAdjustment.current = (zoomScale.getColumns(prevDays).length - zoomScale.getColumns(prevDays.filter(day => day >= nextDays[0])).length) * zoomScale.columnWidth;
+          return nextDays;
         });
       }
       // Ajout de jours à gauche si on approche du bord gauche
@@ -464,9 +1207,12 @@ export default function HomePage() {
 
         setDayInTimeline((prevDays) => {
           const firstDay = prevDays[0];
-          let newDays = Array.from({ length: DAYS_TO_ADD }, (_, i) => addDays(firstDay, -(i + 1))).reverse();
+          let newDays = Array.from({ length: zoomWindow.daysToAdd }, (_, i) => addDays(firstDay, -(i + 1))).reverse();
           newDays = includeWeekend ? newDays : newDays.filter(day => !isWeekend(day));
-          return [...newDays, ...prevDays].slice(0, WINDOW_SIZE);
+          const nextDays = [...newDays, ...prevDays].slice(0, zoomWindow.windowDays);
+          // Largeur des colonnes ajoutées à gauche
+          scrollAdjustment.current = (zoomScale.getColumns(nextDays).length - zoomScale.getColumns(nextDays.filter(day => day >= firstDay)).length) * zoomScale.columnWidth;
+          return nextDays;
         });
         // On ajuste scrollLeft dans un useEffect après le rendu
       }
@@ -474,7 +1220,7 @@ export default function HomePage() {
       isLoadingMoreDays.current = false;
 
     }, 100), // Débouncing court pour plus de fluidité
-    [includeWeekend, nonWorkingDates]
+    [includeWeekend, zoomScale, zoomWindow]
   );
 
   // Centrage sur aujourd'hui au chargement
@@ -483,12 +1229,13 @@ export default function HomePage() {
     setIsLoading(true);
     setDayInTimeline(
       eachDayOfInterval({
-        start: addDays(date, -WINDOW_SIZE / 2),
-        end: addDays(date, WINDOW_SIZE / 2),
+        start: addDays(date, -zoomWindow.windowDays / 2),
+        end: addDays(date, zoomWindow.windowDays / 2),
       })
     );
     setTimeout(() => {
-      const todayCell = document.getElementById(format(date, "yyyy-MM-dd"));
+      // Colonne contenant la date (jour, ou début de semaine / mois)
+      const todayCell = document.getElementById(format(zoomScale.getColumns([date])[0], "yyyy-MM-dd"));
       if (todayCell && mainScrollRef.current) {
         isAutoScrolling.current = true;
         const container = mainScrollRef.current;
@@ -505,150 +1252,302 @@ export default function HomePage() {
       setSelectedDate(date);
       setIsLoading(false);
     }, 50);
-  }, []);
+  }, [zoomScale, zoomWindow]);
 
 
-  // Déplacement d'un rendez-vous (drag & drop ou resize)
+  // Déplacement d'un rendez-vous (drag & drop ou resize) : le rendez-vous reste un seul enregistrement
+  // Retourne l'explication du refus si une règle bloquante s'y oppose
   const moveAppointment = useCallback(
-    (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection: 'left' | 'right' = 'right') => {
-      const appointment = appointments.current.find((app) => app.id === id);
-    
-      if (!appointment) return; // Rendez-vous non trouvé 
-      
-      const seq = getFullSequence(appointment.id);
-      
-      let timeOffset = 0;
-      if (newEndDate.getTime() - newStartDate.getTime() === appointment.endDate.getTime() - appointment.startDate.getTime()) {
-        timeOffset = newEndDate.getTime() - appointment.endDate.getTime(); 
-      }
-      
-      const days = getWorkedDayIntervals(
-        newStartDate, 
-        newEndDate,
-        isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-        !includeWeekend,
-        nonWorkingDates
-    );
-
-      if (days.length === 0) return; // Pas de jours travaillés dans l'intervalle
-      
-      if (resizeDirection === 'right') {
-        // Met à jour le rendez-vous principal sur le premier intervalle
-        onResize(appointment.id, newStartDate, days[0].end, newEmployeeId);
-        // Création de nouveaux rendez-vous pour les autres intervalles travaillés
-        for (let index = 1; index < days.length; index++) {
-          const day = days[index];
-          createAppointment?.(appointment.title, day.start, day.end, newEmployeeId, appointment.type, appointment.libelle, appointment.imageUrl);
+    (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number): string | null => {
+      const occurrence = occurrences.find((app) => app.id === id);
+      const current = occurrence ?? appointments.current.find((app) => app.id === id);
+      if (!current) return null; // Rendez-vous non trouvé
+      const refusal = checkPlanningRules({ ...current, startDate: newStartDate, endDate: newEndDate, employeeId: newEmployeeId });
+      if (refusal) return refusal;
+
+      recordHistory("Déplacer", () => {
+        // Une occurrence de récurrence déplacée devient une exception
+        if (occurrence) {
+          updateOccurrence(occurrence, { override: { startDate: newStartDate, endDate: newEndDate, employeeId: newEmployeeId } });
+          return;
         }
+
+        const appointment = appointments.current.find((app) => app.id === id);
+        if (!appointment) return; // Rendez-vous non trouvé
+
+        // Pas de jour travaillé dans la nouvelle période (selon la politique du rendez-vous)
+        const moved = { ...appointment, startDate: newStartDate, endDate: newEndDate };
+        if (countWorkedSlots(moved, timeSlots, nonWorkingDatesOf(newEmployeeId), workingPatternOf(newEmployeeId)) === 0) return;
+
+        onResize(appointment.id, newStartDate, newEndDate, newEmployeeId);
+      });
+      return null;
+    },
+    [onResize, checkPlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf, occurrences, updateOccurrence, recordHistory]
+  );
+
+  /**
+   * Modifie un groupe de rendez-vous (sélection multiple, échange de plannings) en une seule action de l'historique
+   * Tout ou rien : si un rendez-vous modifié n'a plus de créneau travaillé ou est refusé par les règles
+   * (comparé aux autres rendez-vous modifiés), rien n'est appliqué.
+   * Les occurrences de récurrence deviennent des exceptions.
+   * @param label Libellé de l'action dans l'historique
+   * @param group Rendez-vous à modifier
+   * @param transform Rendez-vous modifié (null s'il ne peut pas l'être)
+   * @returns Explication du refus, ou null si le groupe a été modifié
+   */
+  const updateAppointments = useCallback(
+    (label: string, group: Appointment[], transform: (app: Appointment) => Appointment | null): string | null => {
+      const changed: Appointment[] = [];
+      for (const app of group) {
+        const next = transform(app);
+        if (!next) return `${app.title} sortirait de la grille`;
+        changed.push(next);
       }
-      if (resizeDirection === 'left') {
-        // Met à jour le rendez-vous principal sur le dernier intervalle
-        onResize(appointment.id, days[days.length - 1].start, newEndDate, newEmployeeId);
-        // Création de nouveaux rendez-vous pour les autres intervalles travaillés (sens inverse)
-        for (let index = days.length - 2; index >= 0; index--) {
-          const day = days[index];
-          createAppointment?.(appointment.title, day.start, day.end, newEmployeeId, appointment.type, appointment.libelle, appointment.imageUrl);
+      const ids = new Set(group.map(app => app.id));
+      const planning = [...appointments.current, ...occurrences].filter(app => !ids.has(app.id)).concat(changed);
+      for (const app of changed) {
+        const name = employees.find(emp => emp.id === Number(app.employeeId))?.name ?? `#${app.employeeId}`;
+        if (countWorkedSlots(app, timeSlots, nonWorkingDatesOf(app.employeeId), workingPatternOf(app.employeeId)) === 0) {
+          return `${app.title} (${name}) : aucun créneau travaillé`;
         }
+        const refusal = checkPlanningRules(app, planning);
+        if (refusal) return `${app.title} (${name}) : ${refusal}`;
       }
-      
-      seq.forEach((app) => {
-        
-        if (app.id !== appointment.id) {
-          let endDate = addMinutes(new Date(app.endDate.getTime() + timeOffset), -1);
-          endDate = endDate.getDay() === 6 
-          ? getBeforeWorkedDay(
-              endDate,
-              isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-              nonWorkingDates
-            ) 
-          : getNextWorkedDay(
-              endDate,
-              isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-              nonWorkingDates
-            );
-
-
-          onResize(
-            app.id,
-            getNextWorkedDay(
-              new Date(app.startDate.getTime() + timeOffset),
-              isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-              nonWorkingDates),
-            endDate,
-            newEmployeeId
-          );
-        }
+
+      recordHistory(label, () => {
+        changed.forEach(app => {
+          const occurrence = occurrences.find(item => item.id === app.id);
+          if (occurrence) {
+            const { title, libelle, imageUrl, employeeId, type, startDate, endDate } = app;
+            updateOccurrence(occurrence, { override: { title, libelle, imageUrl, employeeId, type, startDate, endDate } });
+            return;
+          }
+          appointments.current = appointments.current.map(item => item.id === app.id ? app : item);
+          persistAppointment("update", app);
+        });
       });
+      researchAppointments(); // Met à jour la liste filtrée
+      return null;
+    },
+    [employees, occurrences, checkPlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf, updateOccurrence, persistAppointment, researchAppointments, recordHistory]
+  );
+
+  // Déplacement depuis la grille : un rendez-vous de la sélection multiple déplace toute la sélection
+  // (mêmes écarts de créneaux et de lignes), le redimensionnement reste individuel
+  const handleAppointmentMoved = useCallback(
+    (id: number, newStartDate: Date, newEndDate: Date, newEmployeeId: number, resizeDirection?: "left" | "right"): string | null => {
+      const dragged = selectedGroup.find(app => app.id === id);
+      if (!dragged || resizeDirection) return moveAppointment(id, newStartDate, newEndDate, newEmployeeId);
+      const slotDelta = getSlotDistance(dragged.startDate, newStartDate, zoomScale.slots);
+      const rowDelta = employeeOrder.indexOf(newEmployeeId) - employeeOrder.indexOf(Number(dragged.employeeId));
+      if (slotDelta === 0 && rowDelta === 0) return null;
+      return updateAppointments("Déplacer la sélection", selectedGroup, app => shiftAppointment(app, slotDelta, rowDelta));
     },
-    [onResize, createAppointment, isFullDay, DAY_INTERVALS, HALF_DAY_INTERVALS, includeWeekend, nonWorkingDates]
+    [selectedGroup, moveAppointment, updateAppointments, shiftAppointment, employeeOrder, zoomScale]
   );
 
+  // Suppression de la sélection multiple (les occurrences de récurrence sont annulées une à une)
+  const deleteSelection = useCallback(() => {
+    const count = selectedGroup.length;
+    recordHistory("Supprimer la sélection", () => {
+      selectedGroup.forEach(app => {
+        const occurrence = occurrences.find(item => item.id === app.id);
+        if (occurrence) {
+          updateOccurrence(occurrence, { cancelled: true });
+          return;
+        }
+        appointments.current = appointments.current.filter(item => item.id !== app.id);
+        persistAppointment("delete", app);
+      });
+    });
+    researchAppointments(); // Met à jour la liste filtrée
+    selectAppointment(null);
+    setModaltInfo(`${count} rendez-vous supprimé${count > 1 ? "s" : ""}`);
+  }, [selectedGroup, occurrences, updateOccurrence, persistAppointment, researchAppointments, selectAppointment, recordHistory]);
+
+  // Changement de chantier (ou d'élément du catalogue) de la sélection multiple
+  const changeSelectionItem = useCallback((type: Appointment["type"], item: CatalogItem) => {
+    const refusal = updateAppointments("Changer de chantier", selectedGroup, app => ({ ...app, title: item.label, libelle: undefined, imageUrl: item.imageUrl, type }));
+    if (refusal) setModaltInfo(`Changement refusé : ${refusal}`);
+  }, [updateAppointments, selectedGroup]);
+
+  /**
+   * Échange les rendez-vous de deux employés sur une période, en une seule action de l'historique
+   * Chaque rendez-vous des types choisis passe à l'autre employé ; l'échange est refusé en entier
+   * si l'un d'eux enfreint une règle bloquante ou tombe sur un jour non travaillé de son nouvel employé.
+   * @param firstId Premier employé
+   * @param secondId Second employé
+   * @param start Début de la période
+   * @param end Fin de la période (exclue)
+   * @param types Types de rendez-vous échangés
+   */
+  const swapPlannings = useCallback((firstId: number, secondId: number, start: Date, end: Date, types: Appointment["type"][]) => {
+    const loaded = loadedWindow.current;
+    if (!loaded || start < loaded.from || end > loaded.to) {
+      setModaltInfo("Échange impossible : affichez la période concernée avant de l'échanger.");
+      return;
+    }
+    const group = getSwapAppointments([...appointments.current, ...occurrences], firstId, secondId, start, end, types);
+    if (group.length === 0) {
+      setModaltInfo("Aucun rendez-vous à échanger sur cette période.");
+      return;
+    }
+    const refusal = updateAppointments("Échanger les plannings", group, app => swapEmployee(app, firstId, secondId));
+    setModaltInfo(refusal
+      ? `Échange refusé : ${refusal}`
+      : `${group.length} rendez-vous échangé${group.length > 1 ? "s" : ""}`);
+  }, [occurrences, updateAppointments]);
+
+  /**
+   * Lance le solveur de planning : les besoins sont enregistrés, puis les propositions s'affichent en brouillon
+   * @param needs Besoins en personnel des chantiers
+   * @param start Premier jour de la période
+   * @param end Fin (exclue) du dernier jour
+   */
+  const proposePlanning = useCallback((needs: StaffingNeed[], start: Date, end: Date) => {
+    setStaffingNeeds(needs);
+    saveStaffingNeedsApi(needs).catch((error) => {
+      console.error("Échec de l'enregistrement des besoins :", error);
+      setModaltInfo(`Besoins non enregistrés : ${(error as Error).message}`);
+    });
+    const loaded = loadedWindow.current;
+    if (!loaded || start < loaded.from || end > loaded.to) {
+      setModaltInfo("Proposition impossible : affichez la période concernée avant de la planifier.");
+      return;
+    }
+    setStaffingResult(solveStaffing(needs, displayedEmployees, [...appointments.current, ...occurrences], start, end, {
+      slots: timeSlots,
+      chantiers: catalogs.chantier,
+      nonWorkingDates: calendarNonWorkingDates,
+      nonWorkingDatesOf,
+      evaluate: evaluatePlanningRules,
+    }));
+  }, [displayedEmployees, occurrences, timeSlots, catalogs, calendarNonWorkingDates, nonWorkingDatesOf, evaluatePlanningRules]);
+
+  // Retire des propositions du brouillon (le score affiché reste celui du calcul)
+  const discardProposals = useCallback((proposals: StaffingProposal[]) => {
+    const ids = new Set(proposals.map(proposal => proposal.appointment.id));
+    setStaffingResult(prev => {
+      const remaining = prev?.proposals.filter(proposal => !ids.has(proposal.appointment.id)) ?? [];
+      return prev && remaining.length > 0 ? { ...prev, proposals: remaining } : null;
+    });
+  }, []);
+
+  // Crée les rendez-vous proposés en une seule action de l'historique ; une proposition devenue contraire
+  // à une règle bloquante (planning modifié depuis le calcul) est refusée
+  const acceptProposals = useCallback((proposals: StaffingProposal[]) => {
+    const refused: string[] = [];
+    recordHistory("Accepter la proposition de planning", () => {
+      proposals.forEach(({ appointment }) => {
+        const { block } = evaluatePlanningRules({ ...appointment, id: 0 });
+        if (block) {
+          refused.push(`${appointment.title} (${block})`);
+          return;
+        }
+        createAppointment(appointment.title, appointment.startDate, appointment.endDate, Number(appointment.employeeId), appointment.type, undefined, appointment.imageUrl);
+      });
+    });
+    discardProposals(proposals);
+    const created = proposals.length - refused.length;
+    setModaltInfo(`${created} rendez-vous créé${created > 1 ? "s" : ""}${refused.length ? ` ; refusés : ${refused.join(", ")}` : ""}`);
+  }, [evaluatePlanningRules, createAppointment, recordHistory, discardProposals]);
+
+  // Rendez-vous proposés affichés en brouillon dans la grille
+  const draftAppointments = useMemo(() => staffingResult?.proposals.map(proposal => proposal.appointment) ?? [], [staffingResult]);
+  const draftIds = useMemo(() => new Set(draftAppointments.map(app => app.id)), [draftAppointments]);
+
+  // Une proposition ne vaut que pour le calendrier sur lequel elle a été calculée
+  useEffect(() => setStaffingResult(null), [selectedCalendarId]);
+
+  // Menu contextuel de la colonne d'un employé
+  const handleEmployeeContextMenu = useCallback((e: React.MouseEvent, employeeId: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setContextMenu({
+      x: e.clientX,
+      y: e.clientY,
+      item: [
+        {
+          label: 'Échanger le planning',
+          logo:
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-arrow-down-up" viewBox="0 0 16 16">
+              <path fillRule="evenodd" d="M11.5 15a.5.5 0 0 0 .5-.5V2.707l3.146 3.147a.5.5 0 0 0 .708-.708l-4-4a.5.5 0 0 0-.708 0l-4 4a.5.5 0 1 0 .708.708L11 2.707V14.5a.5.5 0 0 0 .5.5m-7-14a.5.5 0 0 1 .5.5v11.793l3.146-3.147a.5.5 0 0 1 .708.708l-4 4a.5.5 0 0 1-.708 0l-4-4a.5.5 0 0 1 .708-.708L4 13.293V1.5a.5.5 0 0 1 .5-.5"/>
+            </svg>,
+          action: () => setSwapOrigin({ employeeId, date: selectedDate })
+        }
+      ]
+    });
+  }, [selectedDate]);
+
+  // Réaffectation de la sélection multiple à un autre employé
+  const changeSelectionEmployee = useCallback((employeeId: number) => {
+    const refusal = updateAppointments("Changer d'employé", selectedGroup, app => ({ ...app, employeeId }));
+    if (refusal) setModaltInfo(`Réaffectation refusée : ${refusal}`);
+  }, [updateAppointments, selectedGroup]);
+
   // Gestion de la création et édition de rendez-vous
   const handleSaveAppointment = useCallback((appointment: Appointment, includeWeekend: boolean, includeNotWorkingDay: boolean) => {    
+    recordHistory("Enregistrer", () => {
+      // Occurrence de récurrence : on demande la portée de la modification
+      const occurrence = occurrences.find(app => app.id === appointment.id);
+      if (occurrence) {
+        setRecurrencePrompt({ action: "edit", occurrence, changes: appointment });
+        setIsModalOpen(false);
+        return;
+      }
     
-    const days = getWorkedDayIntervals(
-      appointment.startDate, 
-      appointment.endDate,
-      isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS,
-      includeWeekend,
-      nonWorkingDates,
-      includeNotWorkingDay
-    );    
-    
-    
-    // Fonction utilitaire pour créer les rendez-vous supplémentaires
-    const createExtraAppointments = (fromIndex = 1) => {
-      days.slice(fromIndex).forEach(day => {
+      const policies: Pick<Appointment, "weekendPolicy" | "holidayPolicy"> = {
+        weekendPolicy: includeWeekend ? "include" : "skip",
+        holidayPolicy: includeNotWorkingDay ? "include" : "skip",
+      };
+      if (countWorkedSlots({ ...appointment, ...policies }, timeSlots, nonWorkingDatesOf(appointment.employeeId), workingPatternOf(appointment.employeeId)) === 0) {
+        setModaltInfo("Aucun jour travaillé sur la période choisie");
+        return;
+      }
+      const refusal = checkPlanningRules({ ...appointment, ...policies, id: appointment.id ?? 0 });
+      if (refusal) {
+        setModaltInfo(`Enregistrement refusé : ${refusal}`);
+        return;
+      }
+
+      if (appointment.id) {
+        appointments.current = appointments.current.map(app =>
+          app.id === appointment.id
+            ? {
+                ...app,
+                title: appointment.title,
+                libelle: appointment.libelle,
+                description: appointment.description,
+                startDate: appointment.startDate,
+                endDate: appointment.endDate,
+                employeeId: appointment.employeeId,
+                imageUrl: appointment.imageUrl,
+                type: appointment.type,
+                ...policies,
+              }
+            : app
+        );
+        const updated = appointments.current.find(app => app.id === appointment.id);
+        if (updated) persistAppointment("update", updated);
+      } else {
         createAppointment(
           appointment.title,
-          day.start,
-          day.end,
+          appointment.startDate,
+          appointment.endDate,
           appointment.employeeId as number,
           appointment.type,
           appointment.libelle,
-          appointment.imageUrl
+          appointment.imageUrl,
+          policies
         );
-      });
-    };
-
-    if (appointment.id) {
-      const seq = getFullSequence(appointment.id);
-      let index = 0;
-      console.log("Updating appointments in sequence:", seq);      
-      
-      while (index < seq.length) {
-        appointments.current = appointments.current.map(app => {
-          
-          if (app.id === seq[index].id) {
-            
-            return {
-              ...app,
-              title: appointment.title,
-              description: appointment.description,
-              startDate: days[index]?.start || app.startDate,
-              endDate: days[index]?.end || app.endDate,
-              employeeId: appointment.employeeId,
-              imageUrl: appointment.imageUrl,
-            };
-          }
-          return app;
-        });
-        index++;
-      }
-      if (days.length > index) createExtraAppointments(index);
-      else {
-        // Si on a moins de jours que prévu, on supprime les RDV supplémentaires
-        appointments.current = appointments.current.filter(app => !seq.some(s => s.id === app.id && !days.some(d => d.start.getTime() === app.startDate.getTime())));
       }
-      
-    } else {
-      createExtraAppointments(0);
-    }
-    researchAppointments(); // Met à jour la liste filtrée
-    setIsModalOpen(false);
-    setSelectedAppointment(null);
-    setNewAppointmentInfo(null);
-  }, [researchAppointments, createAppointment, getFullSequence, isFullDay, nonWorkingDates]);
+      researchAppointments(); // Met à jour la liste filtrée
+      setIsModalOpen(false);
+      selectAppointment(null);
+      setNewAppointmentInfo(null);
+    });
+  }, [researchAppointments, createAppointment, checkPlanningRules, nonWorkingDatesOf, workingPatternOf, persistAppointment, occurrences, recordHistory]);
 
 
   const handleDeleteAppointmentConfirm = useCallback(() => {
@@ -662,30 +1561,40 @@ export default function HomePage() {
       return;
     }
     setIsAlertVisible(false);
-    appointments.current = appointments.current.filter((app) => app.id !== id);
+    // Occurrence de récurrence : on demande la portée de la suppression
+    const occurrence = occurrences.find(app => app.id === id);
+    if (occurrence) {
+      setRecurrencePrompt({ action: "delete", occurrence });
+      setIsModalOpen(false);
+      return;
+    }
+    recordHistory("Supprimer", () => {
+      const appointment = appointments.current.find((app) => app.id === id);
+      if (!appointment) return;
+      appointments.current = appointments.current.filter((app) => app.id !== id);
+      persistAppointment("delete", appointment);
+    });
     researchAppointments(); // Met à jour la liste filtrée
     setIsModalOpen(false);
-    setSelectedAppointment(null);
-  }, [researchAppointments]);
+    selectAppointment(null);
+  }, [researchAppointments, persistAppointment, occurrences, recordHistory]);
+
+  // Aller au conflit choisi dans le panneau : date centrée et rendez-vous sélectionné
+  const goToConflict = useCallback((date: Date, appointmentId: number) => {
+    goToDate(date);
+    const appointment = [...appointments.current, ...occurrences].find(app => app.id === appointmentId);
+    if (appointment) selectAppointment(appointment);
+  }, [goToDate, occurrences]);
 
   const handleOpenEditModal = useCallback((appointment: Appointment) => {
-    const seq = getFullSequence(appointment.id);
-    console.log(seq);
-    
-    if (seq.length > 1) {
-      appointment = {
-        ...appointment,
-        startDate: seq[0].startDate,
-        endDate: seq[seq.length - 1].endDate,
-      };
-    }
     setSelectedAppointmentForm(appointment);
     setIsModalOpen(true);
-  }, [getFullSequence]);
+  }, []);
 
-  const handleOpenNewModal = useCallback((date: Date, employeeId: number, intervalName: "morning" | "afternoon" | "day") => {
+  const handleOpenNewModal = useCallback((date: Date, employeeId: number, intervalName: string) => {
     setAddAppointmentStep("select");
     setSelectedAppointmentForm(null);
+    setCatalogPick(null);
     setNewAppointmentInfo({ date, employeeId, intervalName });
   }, []);
 
@@ -695,32 +1604,33 @@ export default function HomePage() {
   }, []);
 
   const handleDivideAppointment = useCallback((id?: number) => {
-    if (!id) return;
+    recordHistory("Diviser", () => {
+      if (!id) return;
 
-    const appointmentToDivide = appointments.current.find(app => app.id === id);
-    if (!appointmentToDivide) return;
+      const appointmentToDivide = appointments.current.find(app => app.id === id);
+      if (!appointmentToDivide) return;
 
-    const { startDate, endDate, employeeId, imageUrl } = appointmentToDivide;
-    const totalDuration = endDate.getTime() - startDate.getTime();
-    const timeInterval = isFullDay ? DAY_INTERVALS[0].endHour - DAY_INTERVALS[0].startHour : HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour;
-    const nbOfIntervals = Math.floor(totalDuration / (timeInterval * 60 * 60 * 1000)); // Nombre d'intervalles de travail dans la durée totale
+      const { startDate, endDate, employeeId, imageUrl, weekendPolicy, holidayPolicy } = appointmentToDivide;
+      const slots = eachSlot(startDate, endDate, timeSlots); // Créneaux couverts par le rendez-vous
+      if (slots.length < 2) return;
     
-    const EndDate = new Date(startDate.getTime() + (Math.floor(nbOfIntervals / 2) * (timeInterval * 60 * 60 * 1000)));
-
-    onResize(id, startDate, EndDate, employeeId as number);
-    createAppointment(
-      appointmentToDivide.title,
-      EndDate,
-      endDate,
-      employeeId as number,
-      appointmentToDivide.type,
-      appointmentToDivide.libelle,
-      imageUrl,
-     
-    );
-    setIsModalOpen(false);
-    setSelectedAppointment(null);
-  }, [onResize, createAppointment, isFullDay]);
+      const EndDate = slots[Math.floor(slots.length / 2)];
+
+      onResize(id, startDate, EndDate, employeeId as number);
+      createAppointment(
+        appointmentToDivide.title,
+        EndDate,
+        endDate,
+        employeeId as number,
+        appointmentToDivide.type,
+        appointmentToDivide.libelle,
+        imageUrl,
+        { weekendPolicy, holidayPolicy } // La seconde moitié garde la politique week-ends / fériés
+      );
+      setIsModalOpen(false);
+      selectAppointment(null);
+    });
+  }, [onResize, createAppointment, timeSlots, recordHistory]);
 
   const handleRepeat = useCallback(() => {
     if (!repeatAppointmentData) return;
@@ -735,30 +1645,74 @@ export default function HomePage() {
   const handleExtend = useCallback(() =>{
     if (!extendAppointmentData || !selectedAppointment) return;
 
-    moveAppointment(
+    const refusal = moveAppointment(
       selectedAppointment.id, 
       selectedAppointment.startDate, 
       extendAppointmentData, 
-      selectedAppointment.employeeId as number,
-      selectedAppointment.endDate.getTime() < extendAppointmentData.getTime() ? 'right' : 'left'
+      selectedAppointment.employeeId as number
     );
+    if (refusal) setModaltInfo(`Prolongation refusée : ${refusal}`);
 
     setExtendAppointmentData(null);
 
   }, [extendAppointmentData, selectedAppointment, moveAppointment]);
 
-  // Création d'un rendez-vous depuis un drag externe
+  /**
+   * Crée un rendez-vous pour chaque employé d'une sélection rectangulaire, sur toute la période sélectionnée
+   * Chaque rendez-vous saute les jours non travaillés de son employé ; les employés sans créneau travaillé
+   * ou refusés par les règles de planification sont ignorés et signalés. Une seule action est enregistrée
+   * dans l'historique.
+   * @param selection Employés et période sélectionnés
+   * @param title Titre (élément du catalogue)
+   * @param typeEvent Type de rendez-vous
+   * @param imageUrl Image de l'élément du catalogue
+   */
+  const createOnSelection = useCallback(
+    (selection: CellSelection, title: string, typeEvent: Appointment["type"], imageUrl?: string) => {
+      const skipped: string[] = [];
+      let created = 0;
+      recordHistory("Ajouter sur la sélection", () => {
+        selection.employeeIds.forEach((employeeId) => {
+          const name = employees.find(emp => emp.id === employeeId)?.name ?? `#${employeeId}`;
+          const candidate: Appointment = { id: 0, title, description: "", startDate: selection.start, endDate: selection.end, employeeId, type: typeEvent };
+          if (countWorkedSlots(candidate, timeSlots, nonWorkingDatesOf(employeeId), workingPatternOf(employeeId)) === 0) {
+            skipped.push(`${name} (aucun créneau travaillé)`);
+            return;
+          }
+          const refusal = checkPlanningRules(candidate);
+          if (refusal) {
+            skipped.push(`${name} (${refusal})`);
+            return;
+          }
+          createAppointment(title, selection.start, selection.end, employeeId, typeEvent, undefined, imageUrl);
+          created++;
+        });
+      });
+      setSelectionCorners(null);
+      setModaltInfo(`${created} rendez-vous créé${created > 1 ? "s" : ""}${skipped.length ? ` ; ignorés : ${skipped.join(", ")}` : ""}`);
+    },
+    [employees, createAppointment, checkPlanningRules, timeSlots, nonWorkingDatesOf, workingPatternOf, recordHistory]
+  );
+
+  // Création d'un rendez-vous depuis un drag externe (retourne l'explication du refus éventuel)
+  // Un dépôt dans la sélection rectangulaire crée le rendez-vous sur toute la sélection
   const createAppointmentFromDrag = useCallback(
-    (title: string, date: Date, intervalName: "morning" | "afternoon", employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre') => {
-      const startHour = HALF_DAY_INTERVALS.find(interval => interval.name === intervalName)?.startHour || 0;
-      const endHour = HALF_DAY_INTERVALS.find(interval => interval.name === intervalName)?.endHour || 24;
+    (title: string, date: Date, intervalName: string, employeeId: number, imageUrl: string, typeEvent: 'Chantier' | 'Absence' | 'Autre'): string | null => {
+      const { start: startDate, end: endDate } = getSlotBounds(date, intervalName, zoomScale.intervals);
+      if (cellSelection && isCellSelected(cellSelection, employeeId, startDate)) {
+        createOnSelection(cellSelection, title, typeEvent, imageUrl);
+        return null;
+      }
 
-      const startDate = setHours(setMinutes(new Date(date), 0), startHour);
-      const endDate = setHours(setMinutes(new Date(date), 0), endHour);
+      const refusal = checkPlanningRules({ id: 0, title, description: "", startDate, endDate, employeeId, type: typeEvent });
+      if (refusal) return refusal;
 
-      createAppointment(title, startDate, endDate, employeeId, typeEvent, imageUrl);
+      recordHistory("Ajouter", () => {
+        createAppointment(title, startDate, endDate, employeeId, typeEvent, imageUrl);
+      });
+      return null;
     },
-    [repeatAppointmentData, createAppointment]
+    [createAppointment, createOnSelection, cellSelection, checkPlanningRules, zoomScale, recordHistory]
   );
 
   // Mémorise la fonction de fermeture du menu contextuel
@@ -775,8 +1729,96 @@ export default function HomePage() {
     e.preventDefault();
     e.stopPropagation();
 
-    if (origin === 'appointment' && appointment && cell) {      
+    // Proposition du solveur de planning : acceptée ou écartée seule
+    const proposal = origin === 'appointment' && appointment
+      ? staffingResult?.proposals.find(item => item.appointment.id === appointment.id)
+      : undefined;
+    if (proposal) {
+      setContextMenu({
+        x: e.clientX,
+        y: e.clientY,
+        item: [
+          {
+            label: 'Accepter la proposition',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-check-lg" viewBox="0 0 16 16">
+                <path d="M12.736 3.97a.733.733 0 0 1 1.047 0c.286.289.29.756.01 1.05L7.88 12.01a.733.733 0 0 1-1.065.02L3.217 8.384a.757.757 0 0 1 0-1.06.733.733 0 0 1 1.047 0l3.052 3.093 5.4-6.425z"/>
+              </svg>,
+            action: () => acceptProposals([proposal])
+          },
+          {
+            label: 'Écarter la proposition',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-x-lg" viewBox="0 0 16 16">
+                <path d="M2.146 2.854a.5.5 0 1 1 .708-.708L8 7.293l5.146-5.147a.5.5 0 0 1 .708.708L8.707 8l5.147 5.146a.5.5 0 0 1-.708.708L8 8.707l-5.146 5.147a.5.5 0 0 1-.708-.708L7.293 8z"/>
+              </svg>,
+            action: () => discardProposals([proposal])
+          },
+        ]
+      });
+      return;
+    }
+
+    // Rendez-vous de la sélection multiple : actions appliquées à toute la sélection
+    if (origin === 'appointment' && appointment && cell && selectedGroup.some(app => app.id === appointment.id)) {
       setSelectedAppointment(appointment);
+      const count = selectedGroup.length;
+      setContextMenu({
+        x: e.clientX,
+        y: e.clientY,
+        item: [
+          {
+            label: `Supprimer la sélection (${count})`,
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-trash3-fill" viewBox="0 0 16 16">
+                <path d="M11 1.5v1h3.5a.5.5 0 0 1 0 1h-.538l-.853 10.66A2 2 0 0 1 11.115 16h-6.23a2 2 0 0 1-1.994-1.84L2.038 3.5H1.5a.5.5 0 0 1 0-1H5v-1A1.5 1.5 0 0 1 6.5 0h3A1.5 1.5 0 0 1 11 1.5m-5 0v1h4v-1a.5.5 0 0 0-.5-.5h-3a.5.5 0 0 0-.5.5M4.5 5.029l.5 8.5a.5.5 0 1 0 .998-.06l-.5-8.5a.5.5 0 1 0-.998.06m6.53-.528a.5.5 0 0 0-.528.47l-.5 8.5a.5.5 0 0 0 .998.058l.5-8.5a.5.5 0 0 0-.47-.528M8 4.5a.5.5 0 0 0-.5.5v8.5a.5.5 0 0 0 1 0V5a.5.5 0 0 0-.5-.5"/>
+              </svg>,
+            action: deleteSelection
+          },
+          {
+            label: 'Copier la sélection',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-copy" viewBox="0 0 16 16">
+                <path fillRule="evenodd" d="M4 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2zm2-1a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1V2a1 1 0 0 0-1-1zM2 5a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1v-1h1v1a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h1v1z"/>
+              </svg>,
+            action: () => copyAppointmentToClipboard(appointment)
+          },
+          {
+            label: 'Changer de chantier',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-arrow-left-right" viewBox="0 0 16 16">
+                <path fillRule="evenodd" d="M1 11.5a.5.5 0 0 0 .5.5h11.793l-3.147 3.146a.5.5 0 0 0 .708.708l4-4a.5.5 0 0 0 0-.708l-4-4a.5.5 0 0 0-.708.708L13.293 11H1.5a.5.5 0 0 0-.5.5m14-7a.5.5 0 0 1-.5.5H2.707l3.147 3.146a.5.5 0 1 1-.708.708l-4-4a.5.5 0 0 1 0-.708l4-4a.5.5 0 1 1 .708.708L2.707 4H14.5a.5.5 0 0 1 .5.5"/>
+              </svg>,
+            action: () => {
+              setCatalogPick({ title: `pour ${count} rendez-vous`, detail: "Remplace le titre et le type des rendez-vous sélectionnés", apply: changeSelectionItem });
+              setAddAppointmentStep("select");
+            }
+          },
+          {
+            label: "Changer d'employé",
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-person-fill" viewBox="0 0 16 16">
+                <path d="M3 14s-1 0-1-1 1-4 6-4 6 3 6 4-1 1-1 1zm5-6a3 3 0 1 0 0-6 3 3 0 0 0 0 6"/>
+              </svg>,
+            action: () => setEmployeeChange(Number(appointment.employeeId))
+          },
+          {
+            label: 'Coller',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-copy" viewBox="0 0 16 16">
+                <path fillRule="evenodd" d="M4 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2zm2-1a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1V2a1 1 0 0 0-1-1zM2 5a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1v-1h1v1a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h1v1z"/>
+              </svg>,
+            action: () => {
+              pasteAppointment(cell);
+            }
+          }
+        ]
+      });
+      return;
+    }
+
+    if (origin === 'appointment' && appointment && cell) {      
+      selectAppointment(appointment);
       setContextMenu({
         x: e.clientX,
         y: e.clientY,
@@ -823,7 +1865,8 @@ export default function HomePage() {
               repeatCount: 1,
               repeatInterval: 'day',
               endDate: null,
-            })
+            }),
+            actif: !!appointment.recurrenceId // Déjà une occurrence de récurrence
           },
           {
             label: 'Prolonger',
@@ -854,7 +1897,8 @@ export default function HomePage() {
             action: () => {
               handleDivideAppointmentConfirm(); // Appel de la fonction de division avec l'ID du rendez-vous sélectionné
             },
-            actif: appointment.endDate.getTime() - appointment.startDate.getTime() <= 12 * 60 * 60 * 1000 // Si la durée est supérieure à 12 heure
+            actif: eachSlot(appointment.startDate, appointment.endDate, timeSlots).length < 2 // Un seul créneau : rien à diviser
+              || !!appointment.recurrenceId
           },
           {
              label: 'Coller',
@@ -887,6 +1931,50 @@ export default function HomePage() {
         x: e.clientX,
         y: e.clientY,
         item: [
+          {
+            label: 'Copier une période',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-calendar-week" viewBox="0 0 16 16">
+                <path d="M11 6.5a.5.5 0 0 1 .5-.5h1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-1a.5.5 0 0 1-.5-.5zm-3 0a.5.5 0 0 1 .5-.5h1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-1a.5.5 0 0 1-.5-.5zm-5 3a.5.5 0 0 1 .5-.5h1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-1a.5.5 0 0 1-.5-.5zm3 0a.5.5 0 0 1 .5-.5h1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-1a.5.5 0 0 1-.5-.5z"/>
+                <path d="M3.5 0a.5.5 0 0 1 .5.5V1h8V.5a.5.5 0 0 1 1 0V1h1a2 2 0 0 1 2 2v11a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V3a2 2 0 0 1 2-2h1V.5a.5.5 0 0 1 .5-.5M1 4v10a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1V4z"/>
+              </svg>,
+            action: () => setRangeCopyCell(cell)
+          },
+          {
+            label: 'Coller la période',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-copy" viewBox="0 0 16 16">
+                <path fillRule="evenodd" d="M4 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2zm2-1a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1V2a1 1 0 0 0-1-1zM2 5a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1v-1h1v1a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h1v1z"/>
+              </svg>,
+            action: () => pasteRange(cell),
+            actif: !rangeClipboard.current // Aucune période copiée
+          },
+          {
+            label: 'Échanger le planning',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-arrow-down-up" viewBox="0 0 16 16">
+                <path fillRule="evenodd" d="M11.5 15a.5.5 0 0 0 .5-.5V2.707l3.146 3.147a.5.5 0 0 0 .708-.708l-4-4a.5.5 0 0 0-.708 0l-4 4a.5.5 0 1 0 .708.708L11 2.707V14.5a.5.5 0 0 0 .5.5m-7-14a.5.5 0 0 1 .5.5v11.793l3.146-3.147a.5.5 0 0 1 .708.708l-4 4a.5.5 0 0 1-.708 0l-4-4a.5.5 0 0 1 .708-.708L4 13.293V1.5a.5.5 0 0 1 .5-.5"/>
+              </svg>,
+            action: () => setSwapOrigin(cell)
+          },
+          {
+            label: 'Appliquer un modèle',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-layout-wtf" viewBox="0 0 16 16">
+                <path d="M5 1v8H1V1zM1 0a1 1 0 0 0-1 1v8a1 1 0 0 0 1 1h4a1 1 0 0 0 1-1V1a1 1 0 0 0-1-1zm13 2v5H9V2zM9 1a1 1 0 0 0-1 1v5a1 1 0 0 0 1 1h5a1 1 0 0 0 1-1V2a1 1 0 0 0-1-1zM5 13v2H3v-2zm-2-1a1 1 0 0 0-1 1v2a1 1 0 0 0 1 1h2a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1zm12-1v2H9v-2zm-6-1a1 1 0 0 0-1 1v2a1 1 0 0 0 1 1h6a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1z"/>
+              </svg>,
+            action: () => setTemplateCell(cell)
+          },
+          {
+            label: 'Enregistrer comme modèle',
+            logo:
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-bookmark-plus" viewBox="0 0 16 16">
+                <path d="M2 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v13.5a.5.5 0 0 1-.777.416L8 13.101l-5.223 2.815A.5.5 0 0 1 2 15.5zm2-1a1 1 0 0 0-1 1v12.566l4.723-2.482a.5.5 0 0 1 .554 0L13 14.566V2a1 1 0 0 0-1-1z"/>
+                <path d="M8 4a.5.5 0 0 1 .5.5V6H10a.5.5 0 0 1 0 1H8.5v1.5a.5.5 0 0 1-1 0V7H6a.5.5 0 0 1 0-1h1.5V4.5A.5.5 0 0 1 8 4"/>
+              </svg>,
+            action: () => setTemplateSelection(cellSelection),
+            actif: !cellSelection || !isCellSelected(cellSelection, cell.employeeId, cell.date) // Hors de la sélection rectangulaire
+          },
           {
             label: 'Coller',
             logo:
@@ -904,6 +1992,17 @@ export default function HomePage() {
                 <path d="M16 8A8 8 0 1 1 0 8a8 8 0 0 1 16 0M8.5 4.5a.5.5 0 0 0-1 0v3h-3a.5.5 0 0 0 0 1h3v3a.5.5 0 0 0 1 0v-3h3a.5.5 0 0 0 0-1h-3z"/>
               </svg>,
             action: () => {
+              // Dans la sélection rectangulaire : choix de l'élément à créer pour tous les employés sélectionnés
+              if (cellSelection && isCellSelected(cellSelection, cell.employeeId, cell.date)) {
+                const count = cellSelection.employeeIds.length;
+                setCatalogPick({
+                  title: `pour ${count} employé${count > 1 ? "s" : ""}`,
+                  detail: `Du ${format(cellSelection.start, "dd/MM/yyyy HH:mm")} au ${format(cellSelection.end, "dd/MM/yyyy HH:mm")}, créneaux travaillés uniquement`,
+                  apply: (type: Appointment["type"], item: CatalogItem) => createOnSelection(cellSelection, item.label, type, item.imageUrl),
+                });
+                setAddAppointmentStep("select");
+                return;
+              }
               setSelectedAppointmentForm(null);
               setIsModalOpen(true);
             }
@@ -911,20 +2010,122 @@ export default function HomePage() {
         ]
       });
     }
-  }, [handleDeleteAppointment, copyAppointmentToClipboard, pasteAppointment, handleOpenEditModal]);
+  }, [handleDeleteAppointment, copyAppointmentToClipboard, pasteAppointment, handleOpenEditModal, timeSlots, cellSelection, createOnSelection, selectedGroup, deleteSelection, changeSelectionItem, selectAppointment, pasteRange, staffingResult, acceptProposals, discardProposals]);
 
   useEffect(() => {
     goToDate(new Date());
   }, []); // Centrage initial
 
+  // Chargement des employés, équipes et calendriers actifs (de nouveau après l'import d'une sauvegarde)
+  useEffect(() => {
+    Promise.all([fetchEmployees(), fetchTeams(), fetchCalendars(), fetchCatalogs(), fetchNonWorkingDates(), fetchPlanningRules(), fetchClosures(), fetchTemplates(), fetchStaffingNeeds()])
+      .then(([emps, grps, cals, cats, dates, rules, closed, models, needs]) => {
+        setCatalogs(cats);
+        setNonWorkingDates(dates);
+        setClosures(closed);
+        setTemplates(models.filter(template => template.active !== false));
+        setStaffingNeeds(needs);
+        setPlanningRules(rules);
+        setEmployees(emps.filter(emp => emp.active !== false));
+        setTeams(grps.filter(team => team.active !== false));
+        const activeCalendars = cals.filter(cal => cal.active !== false);
+        setCalendars(activeCalendars);
+        setSelectedCalendarId(prev => activeCalendars.some(cal => cal.id === prev) ? prev : activeCalendars[0]?.id ?? prev);
+      })
+      .catch((error) => {
+        console.error("Impossible de charger les référentiels :", error);
+        setModaltInfo("Impossible de charger les employés et calendriers.");
+      });
+  }, [reloadCount]);
+
+  // Abonnement aux modifications des autres utilisateurs (Server-Sent Events)
+  const serverEventHandler = useRef(handleServerEvent);
+  useEffect(() => {
+    serverEventHandler.current = handleServerEvent;
+  }, [handleServerEvent]);
+
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+    source.onmessage = (message) => {
+      try {
+        serverEventHandler.current(JSON.parse(message.data));
+      } catch (error) {
+        console.error("Événement temps réel invalide :", error);
+      }
+    };
+    return () => source.close();
+  }, []);
+
+  // Chargement des récurrences (règles peu nombreuses, chargées en totalité)
+  useEffect(() => {
+    fetchRecurrences()
+      .then(setRecurrenceList)
+      .catch((error) => {
+        console.error("Impossible de charger les récurrences :", error);
+        setModaltInfo("Impossible de charger les rendez-vous récurrents.");
+      });
+  }, [reloadCount]);
+
+  // Chargement des rendez-vous de la période affichée (et des périodes adjacentes) pour le calendrier sélectionné
+  // Seules les parties manquantes sont demandées ; les rendez-vous sortis de la fenêtre sont libérés
+  useEffect(() => {
+    if (dayInTimeline.length === 0) return;
+    const wanted = { ...getLoadWindow(dayInTimeline), calendarId: selectedCalendarId };
+    const loaded = loadedWindow.current?.calendarId === selectedCalendarId ? loadedWindow.current : null;
+    const request = ++loadRequest.current;
+
+    Promise.all(getMissingRanges(loaded, wanted).map(range => fetchAppointments({ ...range, calendarId: selectedCalendarId })))
+      .then(results => {
+        if (request !== loadRequest.current) return; // Une période plus récente a été demandée entre-temps
+        // On garde les rendez-vous encore dans la fenêtre, et ceux dont l'écriture n'est pas terminée
+        const kept = loaded
+          ? appointments.current.filter(app => isInWindow(app, wanted) || pendingWrites.current.has(app.id))
+          : [];
+        appointments.current
+          .filter(app => !kept.includes(app))
+          .forEach(app => serverVersions.current.delete(app.id));
+        const fetched = results.flat().filter(app => !kept.some(k => k.id === app.id));
+        fetched.forEach(app => serverVersions.current.set(app.id, app.version ?? 0));
+        appointments.current = [...kept, ...fetched];
+        loadedWindow.current = wanted;
+        researchAppointments();
+      })
+      .catch((error) => {
+        console.error("Impossible de charger les rendez-vous :", error);
+        setModaltInfo("Impossible de charger les rendez-vous.");
+      });
+  }, [dayInTimeline, selectedCalendarId, researchAppointments, reloadCount]);
+
+  // Fin du glisser de sélection, où que le bouton soit relâché
+  useEffect(() => {
+    const handleMouseUp = () => {
+      isSelectingCells.current = false;
+    };
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => window.removeEventListener("mouseup", handleMouseUp);
+  }, []);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.ctrlKey && e.key === "c" && selectedAppointment) {
-        copyAppointmentToClipboard(selectedAppointment);
+      if (e.key === "Escape") {
+        setSelectionCorners(null);
+        selectAppointment(null);
+      }
+      const copied = selectedAppointment ?? selectedGroup[0]; // Lasso : aucun rendez-vous courant
+      if (e.ctrlKey && e.key === "c" && copied) {
+        copyAppointmentToClipboard(copied);
       }
       else if (e.ctrlKey && e.key === "v" && selectedCell) {
         pasteAppointment(selectedCell);
       }
+      // Annuler / rétablir (hors champs de saisie, qui gardent leur propre historique)
+      const isTyping = e.target instanceof HTMLElement && e.target.closest("input, textarea, select");
+      const key = e.key.toLowerCase();
+      if (e.ctrlKey && !isTyping && (key === "z" || key === "y")) {
+        e.preventDefault();
+        if (key === "z" && !e.shiftKey) undo();
+        else redo(); // Ctrl+Y ou Ctrl+Maj+Z
+      }
       if (e.ctrlKey && e.key === "f") {
         e.preventDefault();
         setContextMenu(null); // Ferme le menu contextuel s'il est ouvert
@@ -951,7 +2152,7 @@ export default function HomePage() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [selectedAppointment, selectedCell, copyAppointmentToClipboard, pasteAppointment]);
+  }, [selectedAppointment, selectedGroup, selectedCell, copyAppointmentToClipboard, pasteAppointment, selectAppointment, undo, redo]);
 
   // Recherche dans les rendez-vous
   useEffect(() => {
@@ -961,7 +2162,7 @@ export default function HomePage() {
   // Ajuste scrollLeft après ajout à gauche pour éviter le "saut"
   useEffect(() => {
     if (isLoadingMoreDays.current && mainScrollRef.current) {
-      const widthAdded = DAYS_TO_ADD * CELL_WIDTH;
+      const widthAdded = scrollAdjustment.current;
       // Si tu ajoutes à gauche
       if (isAddingLeft.current) {
         mainScrollRef.current.scrollLeft += widthAdded;
@@ -984,24 +2185,22 @@ export default function HomePage() {
   }
   }, [modalInfo]);
 
+  // Affichage des week-ends : seule la frise des jours est recalculée, les rendez-vous stockés ne changent pas
   useEffect(() => {
     setDayInTimeline(
       includeWeekend
-        ? eachDayOfInterval({ start: addDays(new Date(), -WINDOW_SIZE / 2), end: addDays(new Date(), WINDOW_SIZE / 2) })
-        : eachDayOfInterval({ start: addDays(new Date(), -WINDOW_SIZE / 2), end: addDays(new Date(), WINDOW_SIZE / 2) }).filter(date => !isWeekend(date))
+        ? eachDayOfInterval({ start: addDays(new Date(), -zoomWindow.windowDays / 2), end: addDays(new Date(), zoomWindow.windowDays / 2) })
+        : eachDayOfInterval({ start: addDays(new Date(), -zoomWindow.windowDays / 2), end: addDays(new Date(), zoomWindow.windowDays / 2) }).filter(date => !isWeekend(date))
     );
-
-    appointments.current.forEach(app => {
-      moveAppointment(
-        app.id,
-        app.startDate,
-        app.endDate,
-        app.employeeId as number,
-        'right'
-      );
-    });
-
   }, [includeWeekend]);
+
+  // Changement de zoom : la frise est recalculée autour de la date sélectionnée
+  const previousZoomLevel = useRef(zoomLevel);
+  useEffect(() => {
+    if (previousZoomLevel.current === zoomLevel) return;
+    previousZoomLevel.current = zoomLevel;
+    goToDate(selectedDate ?? new Date());
+  }, [zoomLevel, goToDate, selectedDate]);
     
   useEffect(() => {
     const handleResize = () => setIsMobile(window.innerWidth < 640);
@@ -1058,8 +2257,48 @@ export default function HomePage() {
                   ))}
                 </select>
               </div>
+              <div className="flex flex-col gap-1 ml-6">
+                <label htmlFor="zoom-select" className="text-xs font-medium text-gray-600">Zoom</label>
+                <select
+                  id="zoom-select"
+                  value={zoomLevel}
+                  onChange={e => setZoomLevel(e.target.value as ZoomLevel)}
+                  className="border border-gray-300 rounded-xl px-3 py-2 bg-gray-100 text-base focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+                >
+                  {ZOOM_LEVELS.map(level => (
+                    <option key={level.id} value={level.id}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
             <div className="flex items-center gap-6">
+              {/* Annuler / Rétablir */}
+              <div className="flex items-center gap-2">
+                <button
+                  className="p-3 bg-gray-100 rounded-full hover:bg-blue-100 transition shadow border border-gray-200 disabled:opacity-40 disabled:hover:bg-gray-100"
+                  onClick={undo}
+                  disabled={!historyLabels.undo}
+                  title={historyLabels.undo ? `Annuler : ${historyLabels.undo} (Ctrl+Z)` : "Rien à annuler"}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" fill="currentColor" className="bi bi-arrow-counterclockwise text-blue-700" viewBox="0 0 16 16">
+                    <path fillRule="evenodd" d="M8 3a5 5 0 1 1-4.546 2.914.5.5 0 0 0-.908-.417A6 6 0 1 0 8 2z"/>
+                    <path d="M8 4.466V.534a.25.25 0 0 0-.41-.192L5.23 2.308a.25.25 0 0 0 0 .384l2.36 1.966A.25.25 0 0 0 8 4.466"/>
+                  </svg>
+                </button>
+                <button
+                  className="p-3 bg-gray-100 rounded-full hover:bg-blue-100 transition shadow border border-gray-200 disabled:opacity-40 disabled:hover:bg-gray-100"
+                  onClick={redo}
+                  disabled={!historyLabels.redo}
+                  title={historyLabels.redo ? `Rétablir : ${historyLabels.redo} (Ctrl+Y)` : "Rien à rétablir"}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" fill="currentColor" className="bi bi-arrow-clockwise text-blue-700" viewBox="0 0 16 16">
+                    <path fillRule="evenodd" d="M8 3a5 5 0 1 0 4.546 2.914.5.5 0 0 1 .908-.417A6 6 0 1 1 8 2z"/>
+                    <path d="M8 4.466V.534a.25.25 0 0 1 .41-.192l2.36 1.966c.12.1.12.284 0 .384L8.41 4.658A.25.25 0 0 1 8 4.466"/>
+                  </svg>
+                </button>
+              </div>
               <div className="flex flex-col gap-1">
                 <div className="relative w-72 max-w-full">
                   <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
@@ -1077,6 +2316,38 @@ export default function HomePage() {
                   />
                 </div>
               </div>
+              <button
+                className="relative px-4 py-2 bg-gray-100 rounded-xl hover:bg-blue-100 transition shadow border border-gray-200 text-blue-700 font-semibold"
+                onClick={() => {
+                  setIsConflictsPanelOpen(open => !open);
+                  setIsStaffingPanelOpen(false);
+                }}
+                title="Conflits de planification"
+              >
+                Conflits
+                {schedulingConflicts.length + contractViolations.length > 0 && (
+                  <span className="absolute -top-2 -right-2 min-w-[1.5rem] h-6 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+                    {schedulingConflicts.length + contractViolations.length}
+                  </span>
+                )}
+              </button>
+              <button
+                className="px-4 py-2 bg-gray-100 rounded-xl hover:bg-blue-100 transition shadow border border-gray-200 text-blue-700 font-semibold"
+                onClick={() => {
+                  setIsStaffingPanelOpen(open => !open);
+                  setIsConflictsPanelOpen(false);
+                }}
+                title="Couvrir les besoins des chantiers sur les créneaux libres"
+              >
+                Proposer un planning
+              </button>
+              <Link
+                href="/admin"
+                className="px-4 py-2 bg-gray-100 rounded-xl hover:bg-blue-100 transition shadow border border-gray-200 text-blue-700 font-semibold"
+                title="Gérer les employés, équipes et calendriers"
+              >
+                Administration
+              </Link>
               <button
                 className="p-3 bg-gray-100 rounded-full hover:bg-blue-100 transition shadow border border-gray-200 ml-2"
                 onClick={() => setIsSettingsOpen(true)}
@@ -1101,25 +2372,40 @@ export default function HomePage() {
             <div
               className={`flex-grow rounded-lg ${isLoading ? "pointer-events-none opacity-60" : ""}`}
             >
-              <SelectedAppointmentContext.Provider value={{ selectedAppointment, setSelectedAppointment}}>
+              <SelectedAppointmentContext.Provider value={{ selectedAppointment, setSelectedAppointment: selectAppointment, selectedAppointmentIds, toggleAppointmentSelection }}>
                 <SelectedCellContext.Provider value={{ selectedCell, setSelectedCell }}>
+                <CellSelectionContext.Provider value={{ selection: cellSelection, selectCells }}>
+                <HighlightedAppointmentsContext.Provider value={highlightedIds}>
+                <DraftAppointmentsContext.Provider value={draftIds}>
+                <ConflictingAppointmentsContext.Provider value={conflictsByAppointment}>
+                <TimeSlotsContext.Provider value={timeSlots}>
+                <HolidayRegionContext.Provider value={holidayRegion}>
+                <ZoomScaleContext.Provider value={zoomScale}>
                   <CalendarGrid
-                    employees={employees.current}
-                    appointments={filteredAppointments}
-                    initialTeams={initialTeams}
+                    employees={employees}
+                    appointments={draftAppointments.length > 0 ? [...displayedAppointments, ...draftAppointments] : displayedAppointments}
+                    initialTeams={teams}
                     dayInTimeline={dayInTimeline}
-                    HALF_DAY_INTERVALS={isFullDay ? DAY_INTERVALS : HALF_DAY_INTERVALS}
+                    HALF_DAY_INTERVALS={zoomScale.intervals}
                     isFullDay={isFullDay}
                     selectedCalendarId={selectedCalendarId}
                     isMobile={isMobile}
                     includeWeekend={includeWeekend}
-                    nonWorkingDates={nonWorkingDates}
-                    onAppointmentMoved={moveAppointment}
+                    nonWorkingDatesOf={nonWorkingDatesOf}
+                    onAppointmentMoved={handleAppointmentMoved}
                     onCellDoubleClick={handleOpenNewModal}
                     onAppointmentDoubleClick={handleOpenEditModal}
                     onExternalDragDrop={createAppointmentFromDrag}
                     handleContextMenu={handleContextMenu}
+                    onEmployeeContextMenu={handleEmployeeContextMenu}
                   />
+                </ZoomScaleContext.Provider>
+                </HolidayRegionContext.Provider>
+                </TimeSlotsContext.Provider>
+                </ConflictingAppointmentsContext.Provider>
+                </DraftAppointmentsContext.Provider>
+                </HighlightedAppointmentsContext.Provider>
+                </CellSelectionContext.Provider>
                 </SelectedCellContext.Provider>
               </SelectedAppointmentContext.Provider>
             </div>
@@ -1295,10 +2581,11 @@ export default function HomePage() {
               appointment={selectedAppointmentForm}
               initialDate={newAppointmentInfo?.date || null}
               initialEmployeeId={newAppointmentInfo?.employeeId || null}
-              employees={employees.current}
-              HALF_DAY_INTERVALS={HALF_DAY_INTERVALS}
+              employees={employees}
+              catalogs={catalogs}
+              HALF_DAY_INTERVALS={zoomScale.slots}
               isFullDay={isFullDay}
-              nonWorkingDates={nonWorkingDates}
+              nonWorkingDatesOf={nonWorkingDatesOf}
               onSave={handleSaveAppointment}
               onDelete={() => {
                 handleDeleteAppointmentConfirm();
@@ -1315,15 +2602,95 @@ export default function HomePage() {
         />
         {/* Modal pour choisir le type de rendez-vous */}
         <ChoiceAppointmentType
+          eventTypes={eventTypes}
           setAddAppointmentStep={setAddAppointmentStep}
           newAppointmentInfo={newAppointmentInfo}
+          slots={zoomScale.intervals}
           isOpen={addAppointmentStep === "select"}
           onSelect={(appointment) => {
             setAddAppointmentStep("form");
             setSelectedAppointmentForm(appointment);
             setIsModalOpen(true);
           }}
+          catalogPick={catalogPick}
+          onSelectItem={(type, item) => {
+            catalogPick?.apply(type, item);
+            setCatalogPick(null);
+            setAddAppointmentStep("");
+          }}
+        />
+        {/* Copie d'une période (employé, équipe ou calendrier) */}
+        <RangeCopyModal
+          date={rangeCopyCell?.date ?? null}
+          scopeLabels={{
+            employee: employees.find(emp => emp.id === rangeCopyCell?.employeeId)?.name ?? "",
+            team: teams.find(team => team.id === employees.find(emp => emp.id === rangeCopyCell?.employeeId)?.groupId)?.name ?? "Sans équipe",
+            calendar: calendars.find(cal => cal.id === selectedCalendarId)?.name ?? "",
+          }}
+          onCopy={(scope, start, end) => {
+            if (rangeCopyCell) copyRange(rangeCopyCell, scope, start, end);
+          }}
+          onClose={() => setRangeCopyCell(null)}
+        />
+        {/* Modèles de planning */}
+        <TemplateSaveModal
+          selection={templateSelection}
+          employees={employees}
+          assignmentCount={templateSelection ? getTemplateAssignments(templateSelection, displayedAppointments).length : 0}
+          onSave={saveTemplate}
+          onClose={() => setTemplateSelection(null)}
+        />
+        <TemplateApplyModal
+          cell={templateCell}
+          templates={templates}
+          employees={displayedEmployees}
+          getPreview={previewTemplate}
+          onApply={applyTemplate}
+          onDelete={deleteTemplate}
+          onClose={() => setTemplateCell(null)}
         />
+        {/* Échange des plannings de deux employés */}
+        <SwapPlanningModal
+          origin={swapOrigin}
+          employees={displayedEmployees}
+          onSwap={swapPlannings}
+          onClose={() => setSwapOrigin(null)}
+        />
+        {/* Réaffectation de la sélection multiple */}
+        <Modal
+          isOpen={employeeChange !== null}
+          onClose={() => setEmployeeChange(null)}
+          title={`Changer d'employé (${selectedGroup.length} rendez-vous)`}
+        >
+          <select
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition w-full mb-4"
+            value={employeeChange ?? ""}
+            onChange={(e) => setEmployeeChange(Number(e.target.value))}
+          >
+            {employees.map(emp => (
+              <option key={emp.id} value={emp.id}>{emp.name}</option>
+            ))}
+          </select>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={() => setEmployeeChange(null)}
+              className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                if (employeeChange !== null) changeSelectionEmployee(employeeChange);
+                setEmployeeChange(null);
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              {'Enregistrer'}
+            </button>
+          </div>
+        </Modal>
         {/* Drawer latéral modernisé pour ajouter un rendez-vous par drag & drop */}
         <Drawer open={isDrawerOpen} onClose={() => setIsDrawerOpen(false)} isDragging={isDrawerOpen}>
           <div className={"flex flex-col items-center w-64"}>
@@ -1332,10 +2699,8 @@ export default function HomePage() {
             </div>
             <select
               className="p-2 w-full border border-gray-300 mb-4 rounded-xl bg-gray-100"
-              onChange={(e) => {
-                const selected = eventTypes.find((ev) => ev.label === e.target.value);
-                setDrawerOptionsSelected(selected ?? eventTypes[0]);
-              }}
+              value={drawerOptionsSelected.label}
+              onChange={(e) => setDrawerTypeLabel(e.target.value)}
             >
               {eventTypes.map((ev) => (
                 <option key={ev.label} value={ev.label}>
@@ -1349,7 +2714,7 @@ export default function HomePage() {
                   id={ev.label} 
                   title={ev.label} 
                   key={ev.label} 
-                  imageUrl={ev.imageUrl} 
+                  imageUrl={ev.imageUrl ?? ""} 
                   type={drawerOptionsSelected.label as "Chantier" | "Absence" | "Autre"}
                 />
               ))}
@@ -1388,6 +2753,46 @@ export default function HomePage() {
             : handleDivideAppointment(selectedAppointment?.id)}
           onClose={() => setIsAlertVisible(false)}
         />
+        {/* Arbitrage des conflits de modification */}
+        <ConflictModal
+          conflict={conflicts[0] ?? null}
+          employees={employees}
+          onKeepServer={keepServerVersion}
+          onKeepMine={keepMyVersion}
+          onClose={() => setConflicts(prev => prev.slice(1))}
+        />
+        {/* Liste des conflits de planification */}
+        <ConflictsPanel
+          isOpen={isConflictsPanelOpen}
+          conflicts={schedulingConflicts}
+          contractViolations={contractViolations}
+          appointments={[...appointments.current, ...occurrences]}
+          employees={employees}
+          slots={timeSlots}
+          onSelect={goToConflict}
+          onClose={() => setIsConflictsPanelOpen(false)}
+        />
+        {/* Besoins des chantiers et proposition de planning */}
+        <StaffingPanel
+          isOpen={isStaffingPanelOpen}
+          needs={staffingNeeds}
+          chantiers={catalogs.chantier}
+          employees={employees}
+          slots={timeSlots}
+          date={selectedCell?.date ?? new Date()}
+          result={staffingResult}
+          onSolve={proposePlanning}
+          onAccept={acceptProposals}
+          onDiscard={() => setStaffingResult(null)}
+          onClose={() => setIsStaffingPanelOpen(false)}
+        />
+        {/* Choix de la portée pour les rendez-vous récurrents */}
+        <RecurrenceScopeModal
+          isOpen={!!recurrencePrompt}
+          action={recurrencePrompt?.action ?? "edit"}
+          onSelect={applyRecurrenceScope}
+          onClose={() => setRecurrencePrompt(null)}
+        />
         {modalInfo && (
           <div className="fixed top-6 left-1/2 transform -translate-x-1/2 bg-green-100 text-green-800 px-6 py-3 rounded-xl shadow-2xl z-50 flex items-center gap-4 border border-green-300">
             <span className="font-semibold text-lg">{modalInfo}</span>
@@ -1488,7 +2893,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     <label htmlFor={setting.id} className="text-sm font-medium text-gray-700 mb-1 sm:mb-0 sm:mr-4 min-w-[160px]">
                       {setting.label}
                     </label>
-                    {setting.type === "custom-non-working-dates" ? (
+                    {setting.type === "custom-planning-rules" ? (
+                      <PlanningRulesEditor rules={setting.planningRules} slots={setting.slots} onSave={setting.setPlanningRules} />
+                    ) : setting.type === "custom-non-working-dates" ? (
                       <div className="flex flex-col gap-2 w-full">
                         <div className="flex gap-2 items-center">
                           <input
@@ -1542,6 +2949,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                             </li>
                           ))}
                         </ul>
+                        <span className="text-xs text-gray-500">
+                          Périodes de fermeture et fermetures annuelles (par calendrier ou par équipe) :{" "}
+                          <Link href="/admin" className="text-blue-600 hover:underline">Administration › Fermetures</Link>
+                        </span>
                       </div>
                     ) : (
                       <input
@@ -1577,10 +2988,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
 
 // Composant pour choisir le type de rendez-vous à créer
 type ChoiceAppointmentTypeProps = {
+  eventTypes: EventType[]; // Types d'événements et leurs catalogues
   onSelect: (appointment: Appointment) => void;
   isOpen: boolean;
   setAddAppointmentStep?: (step: "select" | "form" | "") => void;
-  newAppointmentInfo: { date: Date; employeeId: number; intervalName: "morning" | "afternoon" | "day" } | null;
+  newAppointmentInfo: { date: Date; employeeId: number; intervalName: string } | null;
+  slots: TimeSlot[]; // Créneaux de la journée du calendrier
+  catalogPick?: { title: string; detail: string } | null; // Choix d'un élément du catalogue pour plusieurs rendez-vous
+  onSelectItem?: (type: Appointment["type"], item: CatalogItem) => void; // Élément choisi pour ces rendez-vous
 };
 
 // Icônes pour chaque type d'événement
@@ -1612,15 +3027,56 @@ const colorMap: Record<string, string> = {
 
 // Composant pour choisir le type de rendez-vous à créer (modal)
 const ChoiceAppointmentType: React.FC<ChoiceAppointmentTypeProps> = ({
+  eventTypes,
   onSelect,
   isOpen,
   setAddAppointmentStep,
   newAppointmentInfo,
+  slots,
+  catalogPick,
+  onSelectItem,
 }) => {
   // Sécurité : valeurs par défaut si jamais newAppointmentInfo est null
   const date = newAppointmentInfo?.date ?? new Date();
-  const intervalName = newAppointmentInfo?.intervalName ?? "morning";
+  const intervalName = newAppointmentInfo?.intervalName ?? slots[0].name;
   const employeeId = newAppointmentInfo?.employeeId ?? 0;
+  // Type choisi pour plusieurs rendez-vous (on choisit ensuite l'élément du catalogue)
+  const [selectionType, setSelectionType] = useState<EventType | null>(null);
+  useEffect(() => setSelectionType(null), [catalogPick, isOpen]);
+
+  if (catalogPick && selectionType) {
+    return (
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setAddAppointmentStep?.("") || null}
+        title={`${selectionType.label} ${catalogPick.title}`}
+      >
+        <div className="mb-4 text-sm text-gray-600 text-center">
+          {catalogPick.detail}
+        </div>
+        <div className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+          {selectionType.dataSource.length === 0 && <span className="text-gray-400 italic text-center">Catalogue vide</span>}
+          {selectionType.dataSource.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              className="flex items-center gap-3 p-3 rounded-xl border border-gray-200 bg-white hover:bg-blue-50 shadow-sm text-left"
+              onClick={() => onSelectItem?.(selectionType.label as Appointment["type"], item)}
+            >
+              <span className="font-semibold">{item.label}</span>
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setSelectionType(null)}
+          className="mt-6 w-full py-2 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-700 font-semibold transition"
+        >
+          Retour
+        </button>
+      </Modal>
+    );
+  }
 
   return (
     <Modal
@@ -1646,25 +3102,16 @@ const ChoiceAppointmentType: React.FC<ChoiceAppointmentTypeProps> = ({
             `}
             style={{ minHeight: 64 }}
             onClick={() => {
+              if (catalogPick) {
+                setSelectionType(eventType);
+                return;
+              }
+              const { start, end } = getSlotBounds(date, intervalName, slots);
               onSelect({
-                title: eventType.dataSource[0].label,
+                title: eventType.dataSource[0]?.label ?? eventType.label,
                 description: "",
-                startDate: setHours(
-                  setMinutes(date, 0),
-                  intervalName === "morning" 
-                    ? HALF_DAY_INTERVALS[0].startHour
-                    : intervalName === "day" 
-                      ? DAY_INTERVALS[0].startHour
-                      : HALF_DAY_INTERVALS[1].startHour
-                ),
-                endDate: setHours(
-                  setMinutes(date, 0),
-                  intervalName === "morning" 
-                    ? HALF_DAY_INTERVALS[0].endHour
-                    : intervalName === "day" 
-                      ? DAY_INTERVALS[0].endHour
-                      : HALF_DAY_INTERVALS[1].endHour
-                ),
+                startDate: start,
+                endDate: end,
                 imageUrl: "",
                 employeeId,
                 type: eventType.label as "Chantier" | "Absence" | "Autre",
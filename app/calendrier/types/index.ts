@@ -1,6 +1,7 @@
 export interface Groupe {
   id: number;
   name: string;  
+  active?: boolean; // false si l'équipe est désactivée
 }
 
 export interface Employee {
@@ -10,8 +11,58 @@ export interface Employee {
   groupId?: number; // Ajout de l'ID de l'équipe
   contrat: 'CDI' | 'CDD' | 'Intérimaire'; // Type de contrat
   calendarId: number[]; // Liste des IDs de calendriers associés
+  active?: boolean; // false si l'employé est désactivé (départ, fin de mission...)
+  contractStart?: string; // Début du contrat (yyyy-MM-dd), sans limite si absent
+  contractEnd?: string; // Fin du contrat incluse (yyyy-MM-dd) : fin de CDD, départ...
+  missions?: MissionPeriod[]; // Intérimaire : périodes de mission, seules planifiables si renseignées
+  workingPattern?: WorkingPattern; // Semaine type (temps partiel, repos fixes) ; absente = temps plein
 }
 
+// Demi-journées travaillées d'un jour de la semaine
+export interface WorkingDay {
+  morning: boolean;
+  afternoon: boolean;
+}
+
+// Semaine type d'un employé : 7 jours indexés comme Date.getDay() (0 = dimanche)
+// Les week-ends restent régis par la politique des rendez-vous
+export type WorkingPattern = WorkingDay[];
+
+// Période de mission d'un intérimaire (dates yyyy-MM-dd incluses)
+export interface MissionPeriod {
+  start: string;
+  end: string;
+}
+
+// Période de fermeture (dates yyyy-MM-dd incluses)
+export interface ClosurePeriod {
+  start: string;
+  end: string;
+  yearly?: boolean; // Répétée chaque année aux mêmes jours et mois (fermeture d'août, pont de Noël...)
+}
+
+// Calendrier de fermetures de l'entreprise ("Fermeture août", "Pont de l'Ascension"...)
+// Sans calendrier ni équipe associés, les fermetures s'appliquent à tout le planning
+export interface ClosureCalendar {
+  id: number;
+  name: string;
+  periods: ClosurePeriod[];
+  calendarIds: number[]; // Calendriers concernés
+  teamIds: number[]; // Équipes concernées
+  active?: boolean; // false si le calendrier de fermetures est désactivé
+}
+
+// Rendez-vous placé en dehors de la période de contrat (ou de mission) de son employé
+export interface ContractViolation {
+  appointmentId: number;
+  employeeId: number;
+  date: Date; // Première demi-journée travaillée hors contrat
+}
+
+// Traitement des jours non travaillés couverts par un rendez-vous sur plusieurs jours :
+// "skip" = le rendez-vous est interrompu ces jours-là, "include" = ils sont travaillés
+export type NonWorkingDayPolicy = "skip" | "include";
+
 export interface Appointment {
   id: number;
   title: string;
@@ -22,17 +73,235 @@ export interface Appointment {
   imageUrl?: string;
   employeeId: number | string; // Lien vers l'employé
   type: "Chantier" | "Absence" | "Autre"; // Type de rendez-vous
+  weekendPolicy?: NonWorkingDayPolicy; // Week-ends compris dans la période (défaut : "skip")
+  holidayPolicy?: NonWorkingDayPolicy; // Jours fériés et non travaillés compris dans la période (défaut : "skip")
+  recurrenceId?: number; // Renseigné sur les occurrences calculées d'une récurrence
+  occurrenceDate?: string; // Date d'origine (yyyy-MM-dd) de l'occurrence dans sa récurrence
+  version?: number; // Version enregistrée sur le serveur, vérifiée à chaque écriture
+}
+
+/**
+ * Écriture refusée par le serveur car le rendez-vous a été modifié entre-temps
+ */
+export interface AppointmentConflict {
+  mine: Appointment | null; // Ma copie (null si je supprimais le rendez-vous)
+  server: Appointment; // Copie actuelle du serveur
+}
+
+// Champs d'un rendez-vous modifiables occurrence par occurrence
+export type RecurrenceOverride = Partial<Pick<Appointment,
+  'title' | 'libelle' | 'description' | 'imageUrl' | 'employeeId' | 'type' | 'startDate' | 'endDate'
+>>;
+
+export interface RecurrenceException {
+  occurrenceDate: string; // Date d'origine (yyyy-MM-dd) de l'occurrence concernée
+  cancelled?: boolean; // Occurrence annulée
+  override?: RecurrenceOverride; // Occurrence déplacée ou modifiée
 }
 
-export interface HalfDayInterval {
-  name: 'morning' | 'afternoon' | 'day'; // Nom de l'intervalle
+export interface Recurrence {
+  id: number;
+  rrule: string; // Règle iCalendar (ex : "FREQ=WEEKLY;INTERVAL=1;COUNT=5")
+  dtStart: Date; // Début de la première occurrence
+  duration: number; // Durée d'une occurrence en millisecondes
+  template: Pick<Appointment, 'title' | 'libelle' | 'description' | 'imageUrl' | 'employeeId' | 'type' | 'weekendPolicy' | 'holidayPolicy'>;
+  exceptions: RecurrenceException[];
+}
+
+// Créneau horaire de la journée ; les heures sont décimales (13.5 = 13h30)
+export interface TimeSlot {
+  name: string; // Identifiant du créneau ('morning', 'afternoon', 'evening', 'day'...)
+  label: string; // Libellé affiché ("Matin", "Après-midi"...)
   startHour: number;
-  endHour: number;
+  endHour: number; // 24 = minuit
+}
+
+// Pays et région dont les jours fériés s'appliquent à un calendrier
+export interface HolidayRegion {
+  country: string; // Code ISO du pays ("FR")
+  region?: string; // Code de la région ou du département (date-holidays), absent = fériés nationaux
+}
+
+// Cellule de la grille : créneau affiché (heure, demi-journée, jour, semaine ou mois) d'un employé
+export interface GridCell {
+  employeeId: number;
+  start: Date;
+  end: Date;
+}
+
+// Sélection rectangulaire de cellules : employés affichés entre les deux coins, période couverte par leurs créneaux
+export interface CellSelection {
+  employeeIds: number[]; // Dans l'ordre d'affichage
+  start: Date;
+  end: Date; // Fin (exclue) du dernier créneau sélectionné
+}
+
+// Portée d'une copie de période : un employé, son équipe ou tout le calendrier affiché
+export type RangeCopyScope = "employee" | "team" | "calendar";
+
+// Période copiée : rendez-vous des employés concernés commençant dans la période
+export interface RangeClipboard {
+  scope: RangeCopyScope;
+  employeeIds: number[];
+  start: Date; // Début du premier jour copié
+  end: Date; // Fin (exclue) du dernier jour copié
+  appointments: Appointment[];
+}
+
+// Affectation d'un modèle de planning, relative au premier jour du modèle et à une de ses lignes
+export interface TemplateAssignment extends Pick<Appointment, "title" | "libelle" | "imageUrl" | "type" | "weekendPolicy" | "holidayPolicy"> {
+  row: number; // Index de la ligne (rôle ou place d'employé) dans le modèle
+  day: number; // Jour de début, compté depuis le premier jour du modèle (0)
+  startHour: number; // Heure décimale de début
+  endDay: number; // Jour de fin
+  endHour: number; // Heure décimale de fin (exclue)
+}
+
+// Modèle de planning réutilisable ("Équipe B : 3 personnes à Vesoul du lundi au jeudi, maintenance le vendredi")
+export interface PlanningTemplate {
+  id: number;
+  name: string;
+  rows: string[]; // Libellés des lignes : rôles ou places d'employés, chacune reçoit un employé à l'application
+  assignments: TemplateAssignment[];
+  active?: boolean; // false si le modèle est supprimé
 }
 
+// Rendez-vous qu'un modèle créerait, avec le résultat des règles de planification
+export interface TemplatePreviewItem {
+  appointment: Appointment;
+  block: string | null; // Raison du refus (le rendez-vous ne sera pas créé)
+  warn: string | null; // Avertissements des règles
+}
+
+// Besoin en personnel d'un chantier : employés demandés sur chaque créneau travaillé d'une période
+export interface StaffingNeed {
+  id: number;
+  chantier: string; // Titre du chantier (catalogue des chantiers)
+  start: string; // Premier jour (yyyy-MM-dd)
+  end: string; // Dernier jour inclus (yyyy-MM-dd)
+  headcount: number; // Nombre d'employés demandés
+}
+
+// Rendez-vous proposé par le solveur de planning, affiché en brouillon jusqu'à son acceptation
+export interface StaffingProposal {
+  appointment: Appointment; // ID provisoire négatif
+  slots: number; // Créneaux de besoin couverts
+  warn: string | null; // Règles d'avertissement enfreintes
+}
+
+// Créneau dont le besoin n'a pas pu être couvert (aucun employé disponible)
+export interface StaffingShortage {
+  chantier: string;
+  date: Date; // Début du créneau
+  missing: number; // Employés manquants
+}
+
+// Détail du score d'une proposition de planning
+export interface StaffingScore {
+  needed: number; // Créneaux × employés demandés sur la période
+  covered: number; // Déjà couverts par le planning existant
+  proposed: number; // Couverts par la proposition
+  switches: number; // Changements de chantier d'un employé d'un créneau travaillé au suivant
+  spread: number; // Écart de charge (créneaux proposés) entre employés disponibles
+  warnings: number; // Propositions enfreignant une règle d'avertissement
+  total: number; // Score global sur 100
+}
+
+// Résultat du solveur de planning
+export interface StaffingResult {
+  proposals: StaffingProposal[];
+  shortages: StaffingShortage[];
+  score: StaffingScore;
+}
+
+// Niveau de zoom de la grille : colonnes horaires, par créneau, par jour, par semaine ou par mois
+export type ZoomLevel = "hour" | "halfDay" | "day" | "week" | "month";
+
 export interface Calendar {
   id: number;
   name: string;
   color?: string;
+  active?: boolean; // false si le calendrier est désactivé
+  slots?: TimeSlot[]; // Créneaux de la journée, triés (matin / après-midi par défaut)
+  holidayCountry?: string; // Pays des jours fériés (code ISO, "FR" par défaut)
+  holidayRegion?: string; // Région ou département aux fériés propres (ex : "67" pour le Bas-Rhin)
   // Tu peux ajouter d'autres propriétés (propriétaire, droits, etc.)
 }
+
+// Élément d'un catalogue (chantier, absence ou autre) proposé à la création d'un rendez-vous
+export interface CatalogItem {
+  id: number;
+  label: string;
+  imageUrl?: string;
+}
+
+export interface Catalogs {
+  chantier: CatalogItem[];
+  absences: CatalogItem[];
+  autres: CatalogItem[];
+}
+
+/**
+ * Erreur rencontrée sur un enregistrement lors de l'import d'une sauvegarde
+ */
+export interface SnapshotImportError {
+  collection: string; // Collection concernée (employees, appointments...)
+  index: number; // Position de l'enregistrement dans le fichier (-1 pour la collection entière)
+  id?: number; // ID de l'enregistrement s'il est lisible
+  message: string;
+}
+
+/**
+ * Compte rendu d'un import de sauvegarde
+ */
+export interface SnapshotImportReport {
+  mode: "merge" | "replace";
+  imported: Record<string, number>; // Nombre d'enregistrements importés par collection
+  errors: SnapshotImportError[];
+}
+
+// Gravité d'une règle : "warn" = l'action est appliquée avec un avertissement, "block" = l'action est refusée
+export type RuleSeverity = "warn" | "block";
+
+// Critère de sélection des rendez-vous concernés par une règle (critère absent = tous les rendez-vous)
+export interface AppointmentMatcher {
+  type?: Appointment["type"];
+  label?: string; // Libellé ou titre, sans tenir compte de la casse
+}
+
+interface PlanningRuleBase {
+  id: number;
+  label: string; // Explication affichée (ex: "Pas de chantier un jour d'absence")
+  severity: RuleSeverity;
+  enabled: boolean;
+}
+
+// Deux rendez-vous d'un même employé ne peuvent pas se chevaucher sur la même demi-journée ou la même journée
+export interface OverlapRule extends PlanningRuleBase {
+  kind: "overlap";
+  first: AppointmentMatcher;
+  second: AppointmentMatcher;
+  scope: "halfDay" | "day"; // "halfDay" : même créneau
+}
+
+// Un rendez-vous ne peut pas occuper un créneau donné de la semaine
+export interface ForbiddenSlotRule extends PlanningRuleBase {
+  kind: "forbiddenSlot";
+  match: AppointmentMatcher;
+  weekday: number; // 0 = dimanche ... 6 = samedi
+  interval?: string; // Nom du créneau (TimeSlot.name), absent = toute la journée
+}
+
+export type PlanningRule = OverlapRule | ForbiddenSlotRule;
+
+/**
+ * Infraction à une règle de planification (un ou deux rendez-vous d'un même employé)
+ */
+export interface SchedulingConflict {
+  ruleId: number;
+  label: string;
+  severity: RuleSeverity;
+  employeeId: number;
+  appointmentIds: number[];
+  date: Date; // Première demi-journée concernée
+}
@@ -0,0 +1,322 @@
+// Fonctions d'accès aux routes API du planning
+// Centralisées pour la (dé)sérialisation des dates et la gestion des erreurs HTTP
+
+import { format, parseISO } from "date-fns";
+import { Appointment, Calendar, Catalogs, ClosureCalendar, Employee, Groupe, PlanningRule, PlanningTemplate, Recurrence, SnapshotImportReport, StaffingNeed } from "../types";
+
+// Identifiant de l'onglet, transmis à chaque écriture pour ignorer ses propres événements temps réel
+export const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Convertit un rendez-vous reçu en JSON (dates ISO) en objet utilisable par le calendrier
+ * @param raw Rendez-vous désérialisé depuis l'API
+ * @returns Rendez-vous avec des objets Date
+ */
+export const reviveAppointment = (raw: Appointment): Appointment => ({
+  ...raw,
+  startDate: new Date(raw.startDate),
+  endDate: new Date(raw.endDate),
+});
+
+/**
+ * Convertit une récurrence reçue en JSON en objet utilisable par le calendrier
+ * @param raw Récurrence désérialisée depuis l'API
+ * @returns Récurrence avec des objets Date (début et exceptions déplacées)
+ */
+export const reviveRecurrence = (raw: Recurrence): Recurrence => ({
+  ...raw,
+  dtStart: new Date(raw.dtStart),
+  exceptions: (raw.exceptions ?? []).map(ex => ({
+    ...ex,
+    override: ex.override && {
+      ...ex.override,
+      ...(ex.override.startDate && { startDate: new Date(ex.override.startDate) }),
+      ...(ex.override.endDate && { endDate: new Date(ex.override.endDate) }),
+    },
+  })),
+});
+
+/**
+ * Erreur levée lorsqu'une écriture est refusée car l'élément a changé sur le serveur (HTTP 409)
+ */
+export class ConflictError<T> extends Error {
+  current: T; // Copie actuelle du serveur
+
+  constructor(message: string, current: T) {
+    super(message);
+    this.name = "ConflictError";
+    this.current = current;
+  }
+}
+
+/**
+ * Exécute une requête JSON et lève une erreur si le statut HTTP n'est pas 2xx
+ * @param url URL de la route API
+ * @param init Options fetch
+ * @returns Corps de la réponse désérialisé (undefined si vide)
+ */
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", "X-Client-Id": CLIENT_ID, ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    if (response.status === 409 && body?.current) throw new ConflictError(body.error, body.current);
+    throw new Error(body?.error ?? `Erreur HTTP ${response.status} sur ${url}`);
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+};
+
+/**
+ * Récupère les rendez-vous enregistrés (tous, ou ceux d'une période et d'un calendrier)
+ * @param range Période [from, to[ et calendrier à charger
+ */
+export const fetchAppointments = async (range?: { from: Date; to: Date; calendarId?: number }): Promise<Appointment[]> => {
+  const params = new URLSearchParams();
+  if (range) {
+    params.set("from", range.from.toISOString());
+    params.set("to", range.to.toISOString());
+    if (range.calendarId !== undefined) params.set("calendarId", String(range.calendarId));
+  }
+  const query = params.toString();
+  const data = await request<Appointment[]>(`/api/appointments${query ? `?${query}` : ""}`);
+  return data.map(reviveAppointment);
+};
+
+/**
+ * Enregistre un nouveau rendez-vous
+ * @param appointment Rendez-vous à créer
+ */
+export const createAppointmentApi = async (appointment: Appointment): Promise<Appointment> => {
+  const data = await request<Appointment>("/api/appointments", {
+    method: "POST",
+    body: JSON.stringify(appointment),
+  });
+  return reviveAppointment(data);
+};
+
+/**
+ * Met à jour un rendez-vous existant
+ * @param appointment Rendez-vous modifié (avec la version connue du serveur)
+ * @throws ConflictError si le rendez-vous a été modifié entre-temps
+ */
+export const updateAppointmentApi = async (appointment: Appointment): Promise<Appointment> => {
+  try {
+    const data = await request<Appointment>(`/api/appointments/${appointment.id}`, {
+      method: "PUT",
+      body: JSON.stringify(appointment),
+    });
+    return reviveAppointment(data);
+  } catch (error) {
+    throw reviveConflict(error);
+  }
+};
+
+/**
+ * Supprime un rendez-vous
+ * @param id ID du rendez-vous à supprimer
+ * @param version Version connue du serveur
+ * @throws ConflictError si le rendez-vous a été modifié entre-temps
+ */
+export const deleteAppointmentApi = async (id: number, version = 0): Promise<void> => {
+  try {
+    await request<void>(`/api/appointments/${id}?version=${version}`, { method: "DELETE" });
+  } catch (error) {
+    throw reviveConflict(error);
+  }
+};
+
+/**
+ * Convertit les dates de la copie serveur d'un conflit de rendez-vous
+ * @param error Erreur levée par la requête
+ */
+const reviveConflict = (error: unknown): unknown =>
+  error instanceof ConflictError
+    ? new ConflictError(error.message, reviveAppointment(error.current as Appointment))
+    : error;
+
+/**
+ * Récupère toutes les récurrences
+ */
+export const fetchRecurrences = async (): Promise<Recurrence[]> => {
+  const data = await request<Recurrence[]>("/api/recurrences");
+  return data.map(reviveRecurrence);
+};
+
+/**
+ * Enregistre une nouvelle récurrence
+ * @param recurrence Récurrence à créer
+ */
+export const createRecurrenceApi = async (recurrence: Recurrence): Promise<Recurrence> => {
+  const data = await request<Recurrence>("/api/recurrences", {
+    method: "POST",
+    body: JSON.stringify(recurrence),
+  });
+  return reviveRecurrence(data);
+};
+
+/**
+ * Met à jour une récurrence existante
+ * @param recurrence Récurrence modifiée
+ */
+export const updateRecurrenceApi = async (recurrence: Recurrence): Promise<Recurrence> => {
+  const data = await request<Recurrence>(`/api/recurrences/${recurrence.id}`, {
+    method: "PUT",
+    body: JSON.stringify(recurrence),
+  });
+  return reviveRecurrence(data);
+};
+
+/**
+ * Supprime une récurrence
+ * @param id ID de la récurrence à supprimer
+ */
+export const deleteRecurrenceApi = async (id: number): Promise<void> => {
+  await request<void>(`/api/recurrences/${id}`, { method: "DELETE" });
+};
+
+/**
+ * Récupère tous les employés (y compris désactivés)
+ */
+export const fetchEmployees = (): Promise<Employee[]> => request<Employee[]>("/api/employees");
+
+/**
+ * Crée ou met à jour un employé selon la présence de son ID
+ * @param employee Employé à enregistrer
+ */
+export const saveEmployeeApi = (employee: Partial<Employee>): Promise<Employee> =>
+  request<Employee>(employee.id ? `/api/employees/${employee.id}` : "/api/employees", {
+    method: employee.id ? "PUT" : "POST",
+    body: JSON.stringify(employee),
+  });
+
+/**
+ * Récupère toutes les équipes (y compris désactivées)
+ */
+export const fetchTeams = (): Promise<Groupe[]> => request<Groupe[]>("/api/teams");
+
+/**
+ * Crée ou met à jour une équipe selon la présence de son ID
+ * @param team Équipe à enregistrer
+ */
+export const saveTeamApi = (team: Partial<Groupe>): Promise<Groupe> =>
+  request<Groupe>(team.id ? `/api/teams/${team.id}` : "/api/teams", {
+    method: team.id ? "PUT" : "POST",
+    body: JSON.stringify(team),
+  });
+
+/**
+ * Récupère tous les calendriers (y compris désactivés)
+ */
+export const fetchCalendars = (): Promise<Calendar[]> => request<Calendar[]>("/api/calendars");
+
+/**
+ * Crée ou met à jour un calendrier selon la présence de son ID
+ * @param calendar Calendrier à enregistrer
+ */
+export const saveCalendarApi = (calendar: Partial<Calendar>): Promise<Calendar> =>
+  request<Calendar>(calendar.id ? `/api/calendars/${calendar.id}` : "/api/calendars", {
+    method: calendar.id ? "PUT" : "POST",
+    body: JSON.stringify(calendar),
+  });
+
+/**
+ * Récupère les catalogues de chantiers, absences et autres événements
+ */
+export const fetchCatalogs = (): Promise<Catalogs> => request<Catalogs>("/api/catalogs");
+
+/**
+ * Récupère les dates non travaillées
+ */
+export const fetchNonWorkingDates = async (): Promise<Date[]> => {
+  const data = await request<string[]>("/api/non-working-dates");
+  return data.map(date => parseISO(date));
+};
+
+/**
+ * Enregistre la liste complète des dates non travaillées
+ * @param dates Dates non travaillées
+ */
+export const saveNonWorkingDatesApi = async (dates: Date[]): Promise<void> => {
+  await request<string[]>("/api/non-working-dates", {
+    method: "PUT",
+    body: JSON.stringify(dates.map(date => format(date, "yyyy-MM-dd"))),
+  });
+};
+
+/**
+ * Récupère les calendriers de fermetures (y compris désactivés)
+ */
+export const fetchClosures = (): Promise<ClosureCalendar[]> => request<ClosureCalendar[]>("/api/closures");
+
+/**
+ * Crée ou met à jour un calendrier de fermetures selon la présence de son ID
+ * @param closure Calendrier de fermetures à enregistrer
+ */
+export const saveClosureApi = (closure: Partial<ClosureCalendar>): Promise<ClosureCalendar> =>
+  request<ClosureCalendar>(closure.id ? `/api/closures/${closure.id}` : "/api/closures", {
+    method: closure.id ? "PUT" : "POST",
+    body: JSON.stringify(closure),
+  });
+
+/**
+ * Récupère les modèles de planning (y compris supprimés)
+ */
+export const fetchTemplates = (): Promise<PlanningTemplate[]> => request<PlanningTemplate[]>("/api/templates");
+
+/**
+ * Crée ou met à jour un modèle de planning selon la présence de son ID
+ * @param template Modèle à enregistrer
+ */
+export const saveTemplateApi = (template: Partial<PlanningTemplate>): Promise<PlanningTemplate> =>
+  request<PlanningTemplate>(template.id ? `/api/templates/${template.id}` : "/api/templates", {
+    method: template.id ? "PUT" : "POST",
+    body: JSON.stringify(template),
+  });
+
+/**
+ * Récupère les règles de planification
+ */
+export const fetchPlanningRules = (): Promise<PlanningRule[]> => request<PlanningRule[]>("/api/planning-rules");
+
+/**
+ * Enregistre la liste complète des règles de planification
+ * @param rules Règles de planification
+ */
+export const savePlanningRulesApi = (rules: PlanningRule[]): Promise<PlanningRule[]> =>
+  request<PlanningRule[]>("/api/planning-rules", {
+    method: "PUT",
+    body: JSON.stringify(rules),
+  });
+
+/**
+ * Récupère les besoins en personnel des chantiers
+ */
+export const fetchStaffingNeeds = (): Promise<StaffingNeed[]> => request<StaffingNeed[]>("/api/staffing-needs");
+
+/**
+ * Enregistre la liste complète des besoins en personnel
+ * @param needs Besoins des chantiers
+ */
+export const saveStaffingNeedsApi = (needs: StaffingNeed[]): Promise<StaffingNeed[]> =>
+  request<StaffingNeed[]>("/api/staffing-needs", {
+    method: "PUT",
+    body: JSON.stringify(needs),
+  });
+
+// URL de téléchargement de la sauvegarde complète du planning
+export const SNAPSHOT_EXPORT_URL = "/api/snapshot";
+
+/**
+ * Importe une sauvegarde du planning
+ * @param content Contenu JSON du fichier
+ * @param mode "merge" pour fusionner par ID, "replace" pour remplacer les collections
+ * @returns Compte rendu de l'import (enregistrements importés et erreurs)
+ */
+export const importSnapshotApi = (content: string, mode: "merge" | "replace"): Promise<SnapshotImportReport> =>
+  request<SnapshotImportReport>(`/api/snapshot?mode=${mode}`, {
+    method: "POST",
+    body: content,
+  });
@@ -0,0 +1,47 @@
+// Fenêtre de chargement des rendez-vous : seule la période affichée (et ses abords) est gardée en mémoire
+
+import { addDays, endOfDay, startOfDay } from "date-fns";
+import { Appointment } from "../types";
+import { DAYS_TO_ADD } from "./constants";
+
+/**
+ * Période de chargement [from, to[
+ */
+export interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Calcule la période à charger : jours affichés plus la fenêtre adjacente de chaque côté
+ * (celle que handleScroll ajoutera au prochain défilement)
+ * @param days Jours affichés dans la timeline
+ * @returns Période à charger
+ */
+export const getLoadWindow = (days: Date[]): DateWindow => ({
+  from: addDays(startOfDay(days[0]), -DAYS_TO_ADD),
+  to: addDays(endOfDay(days[days.length - 1]), DAYS_TO_ADD),
+});
+
+/**
+ * Calcule les parties d'une période qui ne sont pas encore chargées
+ * @param loaded Période déjà chargée (null si rien n'est chargé)
+ * @param wanted Période souhaitée
+ * @returns Périodes à récupérer auprès du serveur
+ */
+export const getMissingRanges = (loaded: DateWindow | null, wanted: DateWindow): DateWindow[] => {
+  // Pas de recouvrement : tout est à charger
+  if (!loaded || loaded.to <= wanted.from || loaded.from >= wanted.to) return [wanted];
+  const missing: DateWindow[] = [];
+  if (wanted.from < loaded.from) missing.push({ from: wanted.from, to: loaded.from });
+  if (wanted.to > loaded.to) missing.push({ from: loaded.to, to: wanted.to });
+  return missing;
+};
+
+/**
+ * Vérifie si un rendez-vous touche une période
+ * @param app Rendez-vous
+ * @param window Période
+ */
+export const isInWindow = (app: Appointment, window: DateWindow): boolean =>
+  app.endDate > window.from && app.startDate < window.to;
@@ -0,0 +1,63 @@
+// Calendriers de fermetures de l'entreprise (périodes ponctuelles ou annuelles)
+// Les fermetures deviennent des dates non travaillées pour les calendriers et équipes concernés
+
+import { addYears, eachDayOfInterval, format, getYear, parseISO } from "date-fns";
+import { ClosureCalendar, ClosurePeriod } from "../types";
+
+// Calendrier et équipe pour lesquels les fermetures sont recherchées
+export interface ClosureScope {
+  calendarId?: number;
+  teamId?: number;
+}
+
+/**
+ * Vérifie si un calendrier de fermetures s'applique à un calendrier ou une équipe
+ * Sans calendrier ni équipe associés, il s'applique partout.
+ * @param closure Calendrier de fermetures
+ * @param scope Calendrier affiché et équipe de l'employé
+ */
+export const closureAppliesTo = (closure: ClosureCalendar, scope: ClosureScope): boolean => {
+  if (closure.active === false) return false;
+  if (closure.calendarIds.length === 0 && closure.teamIds.length === 0) return true;
+  return (scope.calendarId !== undefined && closure.calendarIds.includes(scope.calendarId))
+    || (scope.teamId !== undefined && closure.teamIds.includes(scope.teamId));
+};
+
+/**
+ * Liste les jours d'une période de fermeture compris entre deux années
+ * Une période annuelle est répétée chaque année à partir de sa première occurrence.
+ * @param period Période de fermeture
+ * @param fromYear Première année recherchée
+ * @param toYear Dernière année recherchée (incluse)
+ */
+export const expandClosurePeriod = (period: ClosurePeriod, fromYear: number, toYear: number): Date[] => {
+  const start = parseISO(period.start);
+  const end = parseISO(period.end);
+  const offsets: number[] = [0];
+  if (period.yearly) {
+    // Une période à cheval sur deux années peut déborder sur fromYear depuis l'année précédente
+    offsets.length = 0;
+    for (let year = Math.max(fromYear - 1, getYear(start)); year <= toYear; year++) offsets.push(year - getYear(start));
+  }
+  return offsets.flatMap(offset =>
+    eachDayOfInterval({ start: addYears(start, offset), end: addYears(end, offset) })
+  ).filter(day => getYear(day) >= fromYear && getYear(day) <= toYear);
+};
+
+/**
+ * Calcule les jours de fermeture applicables à un calendrier ou une équipe
+ * @param closures Calendriers de fermetures
+ * @param scope Calendrier affiché et équipe de l'employé
+ * @param fromYear Première année recherchée
+ * @param toYear Dernière année recherchée (incluse)
+ * @returns Jours de fermeture, sans doublon, triés
+ */
+export const getClosureDates = (closures: ClosureCalendar[], scope: ClosureScope, fromYear: number, toYear: number): Date[] => {
+  const days = new Map<string, Date>();
+  closures.filter(closure => closureAppliesTo(closure, scope)).forEach(closure =>
+    closure.periods.forEach(period =>
+      expandClosurePeriod(period, fromYear, toYear).forEach(day => days.set(format(day, "yyyy-MM-dd"), day))
+    )
+  );
+  return [...days.values()].sort((a, b) => a.getTime() - b.getTime());
+};
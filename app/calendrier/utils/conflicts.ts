@@ -0,0 +1,179 @@
+// Évaluation des règles de planification (chevauchements interdits, créneaux interdits)
+// Les rendez-vous sont comparés créneau par créneau, sur les seuls jours travaillés de chacun
+
+import { addDays, isSameDay, startOfDay } from "date-fns";
+import { Appointment, AppointmentMatcher, ForbiddenSlotRule, OverlapRule, PlanningRule, SchedulingConflict, TimeSlot, WorkingPattern } from "../types";
+import { isAppointmentWorkedDay } from "./dates";
+import { eachSlot, getSlotAt } from "./slots";
+
+/**
+ * Vérifie si un rendez-vous correspond au critère d'une règle
+ * @param app Rendez-vous
+ * @param matcher Critère (type et/ou libellé)
+ */
+const matches = (app: Appointment, matcher: AppointmentMatcher): boolean => {
+  if (matcher.type && app.type !== matcher.type) return false;
+  if (!matcher.label) return true;
+  const label = matcher.label.toLowerCase();
+  return app.libelle?.toLowerCase() === label || app.title.toLowerCase() === label;
+};
+
+/**
+ * Retourne le début des créneaux travaillés d'un rendez-vous comprises dans une période
+ * @param app Rendez-vous
+ * @param from Début de la période
+ * @param to Fin de la période
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé (ses repos fixes ne sont pas travaillés)
+ */
+const workedSlots = (app: Appointment, from: Date, to: Date, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): Date[] => {
+  const end = app.endDate < to ? app.endDate : to;
+  return eachSlot(app.startDate, end, slots).filter(slot => slot >= from && isAppointmentWorkedDay(slot, app, slots, nonWorkingDates, workingPattern));
+};
+
+/**
+ * Retourne le premier créneau où deux rendez-vous enfreignent une règle de chevauchement
+ * @param rule Règle de chevauchement
+ * @param a Premier rendez-vous
+ * @param b Second rendez-vous
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé
+ * @returns Début du créneau concerné, ou null si la règle est respectée
+ */
+const findOverlap = (rule: OverlapRule, a: Appointment, b: Appointment, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): Date | null => {
+  if (!(matches(a, rule.first) && matches(b, rule.second)) && !(matches(a, rule.second) && matches(b, rule.first))) return null;
+  if (rule.scope === "halfDay") {
+    const start = a.startDate > b.startDate ? a.startDate : b.startDate;
+    const end = a.endDate < b.endDate ? a.endDate : b.endDate;
+    const slotsB = workedSlots(b, start, end, slots, nonWorkingDates, workingPattern);
+    return workedSlots(a, start, end, slots, nonWorkingDates, workingPattern)
+      .find(slot => slotsB.some(other => other.getTime() === slot.getTime())) ?? null;
+  }
+  // Même journée : les deux rendez-vous sont travaillés un même jour, quel que soit le créneau
+  const from = startOfDay(a.startDate > b.startDate ? a.startDate : b.startDate);
+  const to = addDays(startOfDay(a.endDate < b.endDate ? a.endDate : b.endDate), 1);
+  const slotsB = workedSlots(b, from, to, slots, nonWorkingDates, workingPattern);
+  return workedSlots(a, from, to, slots, nonWorkingDates, workingPattern)
+    .find(slot => slotsB.some(other => isSameDay(other, slot))) ?? null;
+};
+
+/**
+ * Retourne le premier créneau d'un rendez-vous placé sur un créneau interdit
+ * @param rule Règle de créneau interdit
+ * @param app Rendez-vous
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé
+ */
+const findForbiddenSlot = (rule: ForbiddenSlotRule, app: Appointment, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): Date | null => {
+  if (!matches(app, rule.match)) return null;
+  return workedSlots(app, app.startDate, app.endDate, slots, nonWorkingDates, workingPattern).find(slot =>
+    slot.getDay() === rule.weekday &&
+    (!rule.interval || getSlotAt(slot, slots)?.name === rule.interval)
+  ) ?? null;
+};
+
+const toConflict = (rule: PlanningRule, appointmentIds: number[], employeeId: number, date: Date): SchedulingConflict => ({
+  ruleId: rule.id,
+  label: rule.label,
+  severity: rule.severity,
+  employeeId,
+  appointmentIds,
+  date,
+});
+
+/**
+ * Évalue les règles pour un rendez-vous créé ou modifié, face aux autres rendez-vous du même employé
+ * @param appointment Rendez-vous tel qu'il serait enregistré
+ * @param appointments Rendez-vous du planning
+ * @param rules Règles de planification (les règles désactivées sont ignorées)
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé
+ */
+export const findConflictsFor = (
+  appointment: Appointment,
+  appointments: Appointment[],
+  rules: PlanningRule[],
+  slots: TimeSlot[],
+  nonWorkingDates: Date[],
+  workingPattern?: WorkingPattern
+): SchedulingConflict[] => {
+  const employeeId = Number(appointment.employeeId);
+  const conflicts: SchedulingConflict[] = [];
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    if (rule.kind === "forbiddenSlot") {
+      const date = findForbiddenSlot(rule, appointment, slots, nonWorkingDates, workingPattern);
+      if (date) conflicts.push(toConflict(rule, [appointment.id], employeeId, date));
+      return;
+    }
+    appointments.forEach(other => {
+      if (other.id === appointment.id || Number(other.employeeId) !== employeeId) return;
+      const date = findOverlap(rule, appointment, other, slots, nonWorkingDates, workingPattern);
+      if (date) conflicts.push(toConflict(rule, [appointment.id, other.id], employeeId, date));
+    });
+  });
+  return conflicts;
+};
+
+/**
+ * Évalue les règles sur tout le planning (chaque paire de rendez-vous n'est signalée qu'une fois par règle)
+ * @param appointments Rendez-vous du planning
+ * @param rules Règles de planification
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDatesOf Dates non travaillées d'un employé
+ * @param workingPatternOf Semaine type d'un employé
+ * @returns Infractions triées par date
+ */
+export const detectConflicts = (
+  appointments: Appointment[],
+  rules: PlanningRule[],
+  slots: TimeSlot[],
+  nonWorkingDatesOf: (employeeId: number) => Date[],
+  workingPatternOf: (employeeId: number) => WorkingPattern | undefined
+): SchedulingConflict[] => {
+  const enabled = rules.filter(rule => rule.enabled);
+  // Regroupe par employé puis trie par date de début : seuls les rendez-vous proches sont comparés
+  const byEmployee = new Map<number, Appointment[]>();
+  appointments.forEach((app) => {
+    const employeeId = Number(app.employeeId);
+    byEmployee.set(employeeId, [...(byEmployee.get(employeeId) ?? []), app]);
+  });
+
+  const conflicts: SchedulingConflict[] = [];
+  byEmployee.forEach((list, employeeId) => {
+    const nonWorkingDates = nonWorkingDatesOf(employeeId);
+    const workingPattern = workingPatternOf(employeeId);
+    const sorted = [...list].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    sorted.forEach((app, index) => {
+      enabled.forEach(rule => {
+        if (rule.kind === "forbiddenSlot") {
+          const date = findForbiddenSlot(rule, app, slots, nonWorkingDates, workingPattern);
+          if (date) conflicts.push(toConflict(rule, [app.id], employeeId, date));
+          return;
+        }
+        // Les rendez-vous commençant le jour de la fin de app peuvent encore partager une journée
+        const limit = addDays(startOfDay(app.endDate), 1);
+        for (let next = index + 1; next < sorted.length && sorted[next].startDate < limit; next++) {
+          const date = findOverlap(rule, app, sorted[next], slots, nonWorkingDates, workingPattern);
+          if (date) conflicts.push(toConflict(rule, [app.id, sorted[next].id], employeeId, date));
+        }
+      });
+    });
+  });
+  return conflicts.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Indexe les infractions par rendez-vous (pour l'affichage d'un badge sur chaque rendez-vous concerné)
+ * @param conflicts Infractions détectées
+ */
+export const groupConflictsByAppointment = (conflicts: SchedulingConflict[]): Map<number, SchedulingConflict[]> => {
+  const byAppointment = new Map<number, SchedulingConflict[]>();
+  conflicts.forEach((conflict) => {
+    conflict.appointmentIds.forEach((id) => byAppointment.set(id, [...(byAppointment.get(id) ?? []), conflict]));
+  });
+  return byAppointment;
+};
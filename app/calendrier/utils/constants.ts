@@ -1,21 +1,29 @@
 // Palette de couleurs, tailles de cellules, et autres constantes globales
 // Centralisé pour la réutilisation et la maintenance
 
-import { HalfDayInterval } from "../types";
+import { HolidayRegion, PlanningRule, TimeSlot, WorkingPattern, ZoomLevel } from "../types";
 
 export const EMPLOYEE_COLUMN_WIDTH = 150;
 export const CELL_WIDTH = 60;
 export const CELL_HEIGHT = 50;
+// Largeur d'une heure en zoom horaire, d'une semaine et d'un mois en zoom semaine / mois
+export const HOUR_CELL_WIDTH = 32;
+export const WEEK_CELL_WIDTH = 120;
+export const MONTH_CELL_WIDTH = 160;
 
 
-export const HALF_DAY_INTERVALS: HalfDayInterval[] = [
-  { name: "morning", startHour: 0, endHour: 12},
-  { name: "afternoon", startHour: 12, endHour: 24 },
-];
-export const DAY_INTERVALS: HalfDayInterval[] = [
-  { name: "day", startHour: 0, endHour: 24 },
+// Créneaux par défaut des calendriers (demi-journées) ; chaque calendrier peut définir les siens
+export const HALF_DAY_INTERVALS: TimeSlot[] = [
+  { name: "morning", label: "Matin", startHour: 0, endHour: 12},
+  { name: "afternoon", label: "Après-midi", startHour: 12, endHour: 24 },
 ];
 
+// Jours fériés appliqués aux calendriers sans pays configuré (fériés nationaux français)
+export const DEFAULT_HOLIDAY_REGION: HolidayRegion = { country: "FR" };
+
+// Semaine type d'un employé à temps plein (point de départ de l'édition d'un temps partiel)
+export const FULL_TIME_PATTERN: WorkingPattern = Array.from({ length: 7 }, () => ({ morning: true, afternoon: true }));
+
 export const colors: string[] = [
   "bg-blue-400 ring-blue-500",
   "bg-emerald-400 ring-emerald-500",
@@ -33,3 +41,31 @@ export const DAYS_TO_ADD = 30;
 export const THRESHOLD_MAX = 80;
 export const THRESHOLD_MIN = 20;
 export const WINDOW_SIZE = 100;
+
+// Niveaux de zoom proposés : jours chargés dans la frise et jours ajoutés à chaque défilement
+export const ZOOM_LEVELS: { id: ZoomLevel; label: string; windowDays: number; daysToAdd: number }[] = [
+  { id: "hour", label: "Heures", windowDays: 14, daysToAdd: 7 },
+  { id: "halfDay", label: "Créneaux", windowDays: WINDOW_SIZE, daysToAdd: DAYS_TO_ADD },
+  { id: "day", label: "Jours", windowDays: WINDOW_SIZE, daysToAdd: DAYS_TO_ADD },
+  { id: "week", label: "Semaines", windowDays: 364, daysToAdd: 91 },
+  { id: "month", label: "Mois", windowDays: 730, daysToAdd: 183 },
+];
+
+// Durée de mise en évidence d'un rendez-vous modifié par un autre utilisateur (ms)
+export const REMOTE_HIGHLIGHT_DURATION = 4000;
+
+// Règles de planification proposées par défaut (modifiables dans les paramètres)
+export const DEFAULT_PLANNING_RULES: PlanningRule[] = [
+  {
+    id: 1, label: "Pas de chantier un jour d'absence", severity: "block", enabled: true,
+    kind: "overlap", first: { type: "Chantier" }, second: { type: "Absence" }, scope: "day",
+  },
+  {
+    id: 2, label: "Un seul chantier par demi-journée", severity: "warn", enabled: true,
+    kind: "overlap", first: { type: "Chantier" }, second: { type: "Chantier" }, scope: "halfDay",
+  },
+  {
+    id: 3, label: "Pas de formation le vendredi après-midi", severity: "warn", enabled: true,
+    kind: "forbiddenSlot", match: { label: "Formation" }, weekday: 5, interval: "afternoon",
+  },
+];
@@ -0,0 +1,66 @@
+// Périodes de contrat des employés (début / fin de contrat, missions des intérimaires)
+// Les dates sont comparées sous forme de clés yyyy-MM-dd, bornes incluses
+
+import { format } from "date-fns";
+import { Appointment, ContractViolation, Employee, TimeSlot } from "../types";
+import { isAppointmentWorkedDay } from "./dates";
+import { eachSlot } from "./slots";
+
+/**
+ * Vérifie si un employé est sous contrat à une date donnée
+ * Un intérimaire sans mission renseignée n'est limité que par ses dates de contrat.
+ * @param employee Employé
+ * @param date Date à vérifier
+ */
+export const isUnderContract = (employee: Employee, date: Date): boolean => {
+  const key = format(date, "yyyy-MM-dd");
+  if (employee.contractStart && key < employee.contractStart) return false;
+  if (employee.contractEnd && key > employee.contractEnd) return false;
+  if (employee.contrat === "Intérimaire" && employee.missions?.length) {
+    return employee.missions.some(mission => mission.start <= key && key <= mission.end);
+  }
+  return true;
+};
+
+/**
+ * Retourne le premier créneau travaillé d'un rendez-vous situé hors du contrat de l'employé
+ * @param appointment Rendez-vous
+ * @param employee Employé affecté
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @returns Début du créneau concerné, ou null si le rendez-vous respecte le contrat
+ */
+export const findOutsideContract = (
+  appointment: Appointment,
+  employee: Employee,
+  slots: TimeSlot[],
+  nonWorkingDates: Date[]
+): Date | null =>
+  eachSlot(appointment.startDate, appointment.endDate, slots).find(slot =>
+    isAppointmentWorkedDay(slot, appointment, slots, nonWorkingDates, employee.workingPattern) && !isUnderContract(employee, slot)
+  ) ?? null;
+
+/**
+ * Liste les rendez-vous placés en dehors de la période de contrat de leur employé
+ * @param appointments Rendez-vous du planning
+ * @param employees Employés
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDatesOf Dates non travaillées d'un employé
+ * @returns Rendez-vous hors contrat triés par date
+ */
+export const findOutOfContractAssignments = (
+  appointments: Appointment[],
+  employees: Employee[],
+  slots: TimeSlot[],
+  nonWorkingDatesOf: (employeeId: number) => Date[]
+): ContractViolation[] => {
+  const byId = new Map(employees.map(emp => [emp.id, emp]));
+  const violations: ContractViolation[] = [];
+  appointments.forEach((app) => {
+    const employee = byId.get(Number(app.employeeId));
+    if (!employee) return;
+    const date = findOutsideContract(app, employee, slots, nonWorkingDatesOf(employee.id));
+    if (date) violations.push({ appointmentId: app.id, employeeId: employee.id, date });
+  });
+  return violations.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -1,38 +1,42 @@
 // Fonctions utilitaires pour la gestion des jours travaillés, fériés, et intervalles
 // Centralisées pour la réutilisation dans tout le projet
 
-import { addHours, formatDate, isSameDay } from "date-fns";
-import Holidays from "date-holidays";
-import { HalfDayInterval } from "../types";
-
-
-const hd = new Holidays("FR");
-const holidays = hd.getHolidays(new Date().getFullYear());
-// Pré-calcul d'un Set pour accélérer la détection des jours fériés
-const holidaySet = new Set(holidays.map(h => h.date));
+import { isSameDay } from "date-fns";
+import { Appointment, TimeSlot, WorkingPattern } from "../types";
+import { addSlots, eachSlot, getSlotAt } from "./slots";
 
 /**
- * Vérifie si une date est un jour férié (France)
- * @param date Date à tester
- * @returns true si férié, false sinon
+ * Vérifie si un créneau est travaillé selon la semaine type d'un employé
+ * Matin et après-midi sont séparés au milieu de la journée travaillée (du début du premier créneau à la fin du dernier) ;
+ * un créneau à cheval sur le milieu (journée entière) est travaillé si l'une des deux demi-journées l'est.
+ * @param date Début du créneau
+ * @param slots Créneaux de la journée
+ * @param workingPattern Semaine type (absente = temps plein)
+ * @returns true si le créneau est travaillé, false si c'est un repos fixe
  */
-export const isHoliday = (date: Date): boolean => {  
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  const dateStr = formatDate(d, "yyyy-MM-dd HH:mm:ss"); // Format YYYY-MM-DD HH:mm:ss
-  return holidaySet.has(dateStr);
+export const isPatternWorked = (date: Date, slots: TimeSlot[], workingPattern?: WorkingPattern): boolean => {
+  if (!workingPattern) return true;
+  const day = workingPattern[date.getDay()];
+  const midday = (slots[0].startHour + slots[slots.length - 1].endHour) / 2;
+  const slot = getSlotAt(date, slots);
+  const startHour = slot?.startHour ?? date.getHours() + date.getMinutes() / 60;
+  if (slot && startHour < midday && slot.endHour > midday) return day.morning || day.afternoon;
+  return startHour < midday ? day.morning : day.afternoon;
 };
 
 /**
- * Vérifie si une date est un jour travaillé (ni week-end, ni férié)
+ * Vérifie si une date est un jour travaillé (ni week-end, ni férié, ni repos de la semaine type)
  * @param date Date à tester
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées (fériés du calendrier compris)
+ * @param workingPattern Semaine type de l'employé (optionnelle)
  * @returns true si travaillé, false sinon
  */
-export const isWorkedDay = (date: Date, nonWorkingDates: Date[]): boolean => {  
+export const isWorkedDay = (date: Date, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): boolean => {  
   return date.getDay() !== 0 
     && date.getDay() !== 6 
-    && !isHoliday(date) 
-    && !nonWorkingDates.some(d => isSameDay(d, date));
+    && !nonWorkingDates.some(d => isSameDay(d, date))
+    && isPatternWorked(date, slots, workingPattern);
 };
 
 /**
@@ -45,35 +49,58 @@ export const isWeekend = (date: Date): boolean => {
   return day === 0 || day === 6;
 };
 
+type AppointmentDayPolicy = Pick<Appointment, "weekendPolicy" | "holidayPolicy">;
+
 /**
- * Retourne le prochain jour de repos (week-end ou férié) à partir d'une date
- * @param date Date de départ
- * @param HALF_DAY_INTERVALS Intervalles demi-journée
- * @returns Date du prochain repos
+ * Vérifie si une date est travaillée pour un rendez-vous, selon sa politique week-ends / fériés
+ * @param date Date à tester
+ * @param appointment Rendez-vous (politiques absentes = jours non travaillés sautés)
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées (fériés du calendrier compris)
+ * @param workingPattern Semaine type de l'employé (les repos fixes restent non travaillés, sauf le week-end)
+ * @returns true si le rendez-vous compte ce jour, false sinon
  */
-export const getNextRestDay = (date: Date, HALF_DAY_INTERVALS: HalfDayInterval[], nonWorkingDates: Date[]): Date => {
-  let next = new Date(date);
-  while (isWorkedDay(next, nonWorkingDates)) {
-    next = addHours(next, HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour);
-  }  
-  return next;
+export const isAppointmentWorkedDay = (date: Date, appointment: AppointmentDayPolicy, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): boolean => {
+  if (appointment.holidayPolicy === "include" && nonWorkingDates.some(d => isSameDay(d, date))) {
+    return isWeekend(date) || isPatternWorked(date, slots, workingPattern);
+  }
+  if (appointment.weekendPolicy === "include" && isWeekend(date)) return true;
+  return isWorkedDay(date, slots, nonWorkingDates, workingPattern);
 };
 
+/**
+ * Compte les créneaux travaillés d'un rendez-vous (les jours sautés par sa politique sont exclus)
+ * @param appointment Rendez-vous
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé (optionnelle)
+ * @returns Nombre de créneaux travaillés
+ */
+export const countWorkedSlots = (
+  appointment: Pick<Appointment, "startDate" | "endDate"> & AppointmentDayPolicy,
+  slots: TimeSlot[],
+  nonWorkingDates: Date[],
+  workingPattern?: WorkingPattern
+): number =>
+  eachSlot(appointment.startDate, appointment.endDate, slots)
+    .filter(slot => isAppointmentWorkedDay(slot, appointment, slots, nonWorkingDates, workingPattern))
+    .length;
 
 /**
  * Retourne le prochain jour travaillé à partir d'une date
- * @param date Date de départ
- * @param HALF_DAY_INTERVALS Intervalles demi-journée
- * @returns Date du prochain jour travaillé
+ * @param date Date de départ (hors créneau : le créneau suivant sert de départ)
+ * @param slots Créneaux de la journée
+ * @param workingPattern Semaine type de l'employé (optionnelle)
+ * @returns Début du prochain créneau travaillé, ou null si aucun n'est trouvé dans les 1000 créneaux suivants
  */
-export const getNextWorkedDay = (date: Date, HALF_DAY_INTERVALS: HalfDayInterval[], nonWorkingDates: Date[]): Date => {
-  let next = new Date(date);
+export const getNextWorkedDay = (date: Date, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): Date | null => {
+  let next = addSlots(date, 0, slots);
   let safety = 0;
   const maxIterations = 1000;
-  while (!isWorkedDay(next, nonWorkingDates)) {
-    next = addHours(next, HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour);
+  while (!isWorkedDay(next, slots, nonWorkingDates, workingPattern)) {
+    next = addSlots(next, 1, slots);
     safety++;
-    if (safety > maxIterations) throw new Error("Boucle infinie détectée dans getNextWorkedDay");
+    if (safety > maxIterations) return null;
   }
   return next;
 };
@@ -81,75 +108,18 @@ export const getNextWorkedDay = (date: Date, HALF_DAY_INTERVALS: HalfDayInterval
 /**
  * Retourne le jour travaillé précédent à partir d'une date
  * @param date Date de départ
- * @param HALF_DAY_INTERVALS Intervalles demi-journée
- * @returns Date du jour travaillé précédent
+ * @param slots Créneaux de la journée
+ * @param workingPattern Semaine type de l'employé (optionnelle)
+ * @returns Début du créneau travaillé précédent, ou null si aucun n'est trouvé dans les 1000 créneaux précédents
  */
-export const getBeforeWorkedDay = (date: Date, HALF_DAY_INTERVALS: HalfDayInterval[], nonWorkingDates: Date[]): Date => {
-  let previous = new Date(date);
+export const getBeforeWorkedDay = (date: Date, slots: TimeSlot[], nonWorkingDates: Date[], workingPattern?: WorkingPattern): Date | null => {
+  let previous = addSlots(date, 0, slots);
   let safety = 0;
   const maxIterations = 1000;
-  while (!isWorkedDay(previous, nonWorkingDates)) {
-    previous = addHours(previous, -(HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour));
+  while (!isWorkedDay(previous, slots, nonWorkingDates, workingPattern)) {
+    previous = addSlots(previous, -1, slots);
     safety++;
-    if (safety > maxIterations) throw new Error("Boucle infinie détectée dans getBeforeWorkedDay");
+    if (safety > maxIterations) return null;
   }
   return previous;
 };
-
-
-/**
- * Découpe un intervalle en sous-intervalles de jours travaillés
- * @param start Date de début
- * @param end Date de fin
- * @param HALF_DAY_INTERVALS Intervalles demi-journée
- * @returns Tableau d'intervalles {start, end}
- */
-export const getWorkedDayIntervals = (
-  start: Date,
-  end: Date,
-  HALF_DAY_INTERVALS: HalfDayInterval[],
-  includeWeekend: boolean,
-  nonWorkingDates: Date[],
-  includeNotWorkingDay: boolean = false
-): { start: Date; end: Date }[] => {
-  const intervals: { start: Date; end: Date }[] = [];
-  let day = new Date(start);
-
-  const isIncluded = (date: Date) => {
-    if (includeNotWorkingDay && (isHoliday(date) || nonWorkingDates.some(d => isSameDay(d, date)))) return true;
-    if (includeWeekend && isWeekend(date)) return true;
-    return isWorkedDay(date, nonWorkingDates);
-  };
-
-  let safety = 0;
-  const maxIterations = 10000;
-  while (day < end) {
-    // Cherche le prochain jour à inclure
-    while (day < end && !isIncluded(day)) {
-      day = addHours(day, HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour);
-      safety++;
-      if (safety > maxIterations) throw new Error("Boucle infinie détectée dans getWorkedDayIntervals (recherche début)");
-    }
-    if (day >= end) break;
-
-    // Début de l'intervalle
-    const intervalStart = new Date(day);
-
-    // Cherche la fin de l'intervalle continu à inclure
-    while (
-      day < end &&
-      isIncluded(day)
-    ) {
-      day = addHours(day, HALF_DAY_INTERVALS[0].endHour - HALF_DAY_INTERVALS[0].startHour);
-      safety++;
-      if (safety > maxIterations) throw new Error("Boucle infinie détectée dans getWorkedDayIntervals (recherche fin)");
-    }
-
-    intervals.push({
-      start: intervalStart,
-      end: day < end ? new Date(day) : new Date(end),
-    });
-  }
-
-  return intervals;
-};
\ No newline at end of file
@@ -0,0 +1,120 @@
+// Historique annuler/rétablir des modifications du planning
+// Chaque commande mémorise l'état avant/après des seuls éléments modifiés
+
+import { Appointment, Recurrence } from "../types";
+
+/**
+ * État du planning capturé avant et après une action
+ */
+export interface PlanningSnapshot {
+  appointments: Appointment[];
+  recurrences: Recurrence[];
+}
+
+/**
+ * Modification d'un élément : before absent = création, after absent = suppression
+ */
+export interface Change<T> {
+  before?: T;
+  after?: T;
+}
+
+/**
+ * Commande de l'historique (une action utilisateur, éventuellement composée)
+ */
+export interface HistoryCommand {
+  label: string; // Libellé affiché dans les boutons (ex: "Déplacer")
+  appointments: Change<Appointment>[];
+  recurrences: Change<Recurrence>[];
+}
+
+// Nombre maximal de commandes conservées dans l'historique
+export const MAX_HISTORY = 100;
+
+/**
+ * Compare deux listes d'éléments par ID et retourne les éléments créés, supprimés ou modifiés
+ * Les éléments sont remplacés (jamais modifiés en place), une comparaison par référence suffit
+ * @param before Liste avant l'action
+ * @param after Liste après l'action
+ */
+const diffById = <T extends { id: number }>(before: T[], after: T[]): Change<T>[] => {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const changes: Change<T>[] = [];
+  beforeById.forEach((item, id) => {
+    const next = afterById.get(id);
+    if (next !== item) changes.push({ before: item, after: next });
+  });
+  afterById.forEach((item, id) => {
+    if (!beforeById.has(id)) changes.push({ after: item });
+  });
+  return changes;
+};
+
+/**
+ * Construit la commande correspondant à une action
+ * @param label Libellé de l'action
+ * @param before État avant l'action
+ * @param after État après l'action
+ * @returns Commande, ou null si l'action n'a rien modifié
+ */
+export const createCommand = (label: string, before: PlanningSnapshot, after: PlanningSnapshot): HistoryCommand | null => {
+  const command: HistoryCommand = {
+    label,
+    appointments: diffById(before.appointments, after.appointments),
+    recurrences: diffById(before.recurrences, after.recurrences),
+  };
+  return command.appointments.length || command.recurrences.length ? command : null;
+};
+
+/**
+ * Inverse une commande (annuler = appliquer la commande inverse)
+ * @param command Commande à inverser
+ */
+export const invertCommand = (command: HistoryCommand): HistoryCommand => ({
+  label: command.label,
+  appointments: command.appointments.map(({ before, after }) => ({ before: after, after: before })),
+  recurrences: command.recurrences.map(({ before, after }) => ({ before: after, after: before })),
+});
+
+/**
+ * Applique une liste de modifications à une collection
+ * @param items Collection courante
+ * @param changes Modifications à appliquer
+ * @returns Nouvelle collection
+ */
+export const applyChanges = <T extends { id: number }>(items: T[], changes: Change<T>[]): T[] => {
+  const removed = new Set(changes.filter(c => c.before).map(c => c.before!.id));
+  return [
+    ...items.filter(item => !removed.has(item.id)),
+    ...changes.filter(c => c.after).map(c => c.after!),
+  ];
+};
+
+/**
+ * Remplace l'ID d'une récurrence dans l'historique (lorsque le serveur en attribue un autre)
+ * @param commands Commandes de l'historique
+ * @param fromId ID local
+ * @param toId ID attribué par le serveur
+ */
+export const remapRecurrenceId = (commands: HistoryCommand[], fromId: number, toId: number): HistoryCommand[] => {
+  const remap = (rec?: Recurrence) => rec && rec.id === fromId ? { ...rec, id: toId } : rec;
+  return commands.map(command => ({
+    ...command,
+    recurrences: command.recurrences.map(({ before, after }) => ({ before: remap(before), after: remap(after) })),
+  }));
+};
+
+/**
+ * Remplace l'ID d'un rendez-vous dans l'historique (l'ID définitif est attribué par le serveur à la création)
+ * @param commands Commandes de l'historique
+ * @param fromId ID local
+ * @param toId ID attribué par le serveur
+ */
+export const remapAppointmentId = (commands: HistoryCommand[], fromId: number, toId: number): HistoryCommand[] => {
+  const remap = (app?: Appointment) => app && app.id === fromId ? { ...app, id: toId } : app;
+  return commands.map(command => ({
+    ...command,
+    appointments: command.appointments.map(({ before, after }) => ({ before: remap(before), after: remap(after) })),
+  }));
+};
@@ -0,0 +1,75 @@
+// Service des jours fériés : calculés par pays / région avec date-holidays, mis en cache par année
+// Seuls les fériés légaux (type "public") sont retenus ; les fêtes non chômées (Fête des mères...) sont ignorées
+
+import { format, parseISO } from "date-fns";
+import Holidays from "date-holidays";
+import { Calendar, HolidayRegion } from "../types";
+import { DEFAULT_HOLIDAY_REGION } from "./constants";
+
+// Fériés déjà calculés, par pays / région / année : date yyyy-MM-dd → nom du férié
+const holidaysCache = new Map<string, Map<string, string>>();
+
+/**
+ * Retourne les jours fériés d'une année pour un pays / une région (calculés au premier appel)
+ * @param year Année
+ * @param region Pays et région
+ * @returns Noms des fériés indexés par date yyyy-MM-dd
+ */
+export const getHolidaysOfYear = (year: number, region: HolidayRegion): Map<string, string> => {
+  const key = `${region.country}/${region.region ?? ""}/${year}`;
+  let holidays = holidaysCache.get(key);
+  if (!holidays) {
+    const hd = region.region ? new Holidays(region.country, region.region) : new Holidays(region.country);
+    holidays = new Map(
+      hd.getHolidays(year, "fr")
+        .filter(holiday => holiday.type === "public")
+        .map(holiday => [holiday.date.slice(0, 10), holiday.name])
+    );
+    holidaysCache.set(key, holidays);
+  }
+  return holidays;
+};
+
+/**
+ * Retourne le nom du jour férié tombant à une date
+ * @param date Date à tester
+ * @param region Pays et région
+ * @returns Nom du férié, ou undefined si la date n'est pas fériée
+ */
+export const getHolidayName = (date: Date, region: HolidayRegion): string | undefined =>
+  getHolidaysOfYear(date.getFullYear(), region).get(format(date, "yyyy-MM-dd"));
+
+/**
+ * Liste les jours fériés d'une période d'années (à ajouter aux dates non travaillées)
+ * @param region Pays et région
+ * @param fromYear Première année
+ * @param toYear Dernière année (incluse)
+ * @returns Dates des fériés, à minuit
+ */
+export const getHolidayDates = (region: HolidayRegion, fromYear: number, toYear: number): Date[] => {
+  const dates: Date[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    getHolidaysOfYear(year, region).forEach((_, key) => dates.push(parseISO(key)));
+  }
+  return dates;
+};
+
+/**
+ * Retourne la région des fériés configurée sur un calendrier
+ * @param calendar Calendrier (absent ou sans pays : fériés nationaux français)
+ */
+export const getCalendarHolidayRegion = (calendar?: Pick<Calendar, "holidayCountry" | "holidayRegion">): HolidayRegion =>
+  calendar?.holidayCountry || calendar?.holidayRegion
+    ? { country: calendar.holidayCountry ?? DEFAULT_HOLIDAY_REGION.country, region: calendar.holidayRegion }
+    : DEFAULT_HOLIDAY_REGION;
+
+/**
+ * Liste les pays proposés (code ISO → nom)
+ */
+export const getHolidayCountries = (): Record<string, string> => new Holidays().getCountries("fr");
+
+/**
+ * Liste les régions d'un pays ayant des fériés propres (code → nom)
+ * @param country Code ISO du pays
+ */
+export const getHolidayRegions = (country: string): Record<string, string> => new Holidays().getStates(country, "fr") ?? {};
@@ -0,0 +1,93 @@
+// Copier / coller d'une période entière (un employé, une équipe ou tout le calendrier)
+// Les rendez-vous collés gardent leur jour de la semaine et leur durée, recalés sur les jours travaillés
+
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import { Appointment, RangeClipboard, TimeSlot, WorkingPattern } from "../types";
+import { getNextWorkedDay, isAppointmentWorkedDay } from "./dates";
+
+// Rendez-vous non collé et raison de l'abandon
+export interface SkippedPaste {
+  appointment: Appointment;
+  reason: string;
+}
+
+/**
+ * Sélectionne les rendez-vous à copier : ceux des employés concernés qui commencent dans la période
+ * Les occurrences de récurrence ne sont pas copiées (leur récurrence les répète déjà).
+ * @param appointments Rendez-vous disponibles
+ * @param employeeIds Employés concernés
+ * @param start Début de la période
+ * @param end Fin de la période (exclue)
+ */
+export const getRangeAppointments = (appointments: Appointment[], employeeIds: number[], start: Date, end: Date): Appointment[] =>
+  appointments.filter(app =>
+    !app.recurrenceId
+    && employeeIds.includes(Number(app.employeeId))
+    && app.startDate >= start
+    && app.startDate < end
+  );
+
+/**
+ * Prépare le collage d'une période copiée à partir d'un jour cible
+ * Chaque rendez-vous est décalé du nombre de jours séparant le début de la copie du jour cible ; s'il tombe
+ * sur un jour non travaillé de son employé, il est recalé sur le prochain créneau travaillé (durée conservée).
+ * Un rendez-vous repoussé hors de la période cible (fermeture, fériés) ou qui recouvre une absence
+ * de l'employé n'est pas collé.
+ * @param clipboard Période copiée
+ * @param target Premier jour de la période cible
+ * @param options Créneaux, dates non travaillées et semaine type par employé, planning existant ;
+ *   employeeId remplace l'employé d'une copie limitée à un seul employé
+ * @returns Rendez-vous à créer (id 0) et rendez-vous ignorés
+ */
+export const planRangePaste = (
+  clipboard: RangeClipboard,
+  target: Date,
+  options: {
+    slots: TimeSlot[];
+    nonWorkingDatesOf: (employeeId: number) => Date[];
+    workingPatternOf: (employeeId: number) => WorkingPattern | undefined;
+    planning: Appointment[];
+    employeeId?: number;
+  }
+): { candidates: Appointment[]; skipped: SkippedPaste[] } => {
+  const offset = differenceInCalendarDays(startOfDay(target), clipboard.start);
+  const targetEnd = addDays(clipboard.end, offset);
+  const candidates: Appointment[] = [];
+  const skipped: SkippedPaste[] = [];
+
+  clipboard.appointments.forEach(appointment => {
+    const employeeId = clipboard.scope === "employee" && options.employeeId !== undefined
+      ? options.employeeId
+      : Number(appointment.employeeId);
+    const nonWorkingDates = options.nonWorkingDatesOf(employeeId);
+    const workingPattern = options.workingPatternOf(employeeId);
+    const shifted = addDays(appointment.startDate, offset);
+    const startDate = isAppointmentWorkedDay(shifted, appointment, options.slots, nonWorkingDates, workingPattern)
+      ? shifted
+      : getNextWorkedDay(shifted, options.slots, nonWorkingDates, workingPattern);
+    if (!startDate || startDate >= targetEnd) {
+      skipped.push({ appointment, reason: "aucun jour travaillé (fermeture ou férié)" });
+      return;
+    }
+    const candidate: Appointment = {
+      ...appointment,
+      id: 0,
+      version: undefined,
+      startDate,
+      endDate: new Date(startDate.getTime() + appointment.endDate.getTime() - appointment.startDate.getTime()),
+      employeeId,
+    };
+    const absence = appointment.type !== "Absence" && options.planning.find(app =>
+      app.type === "Absence"
+      && Number(app.employeeId) === employeeId
+      && app.startDate < candidate.endDate
+      && app.endDate > candidate.startDate
+    );
+    if (absence) {
+      skipped.push({ appointment, reason: `absence (${absence.title})` });
+      return;
+    }
+    candidates.push(candidate);
+  });
+  return { candidates, skipped };
+};
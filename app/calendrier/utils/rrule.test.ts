@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { Recurrence, WorkingPattern } from "../types";
+import { HALF_DAY_INTERVALS } from "./constants";
+import { expandRecurrence, formatRRule, getFollowingRRule, getOccurrenceIndex, parseRRule, shiftRecurrence, truncateRecurrence } from "./rrule";
+
+const DAY = 86400000;
+
+// Récurrence hebdomadaire démarrant le lundi 6 janvier 2025 au matin
+const makeRecurrence = (rrule: string, overrides: Partial<Recurrence> = {}): Recurrence => ({
+  id: 1,
+  rrule,
+  dtStart: new Date(2025, 0, 6, 0, 0),
+  duration: 12 * 3600000,
+  template: { title: "Chantier A", description: "", employeeId: 1, type: "Chantier" },
+  exceptions: [],
+  ...overrides,
+});
+
+const expand = (recurrence: Recurrence, workingPattern?: WorkingPattern) =>
+  expandRecurrence(recurrence, new Date(2025, 0, 1), new Date(2025, 2, 1), HALF_DAY_INTERVALS, [], workingPattern);
+
+describe("parseRRule", () => {
+  it("lit la fréquence, l'intervalle et le nombre d'occurrences", () => {
+    expect(parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=5")).toEqual({ freq: "WEEKLY", interval: 2, count: 5 });
+  });
+
+  it("utilise un intervalle de 1 par défaut", () => {
+    expect(parseRRule("FREQ=DAILY")).toEqual({ freq: "DAILY", interval: 1 });
+  });
+
+  it("lit une borne UNTIL en UTC", () => {
+    expect(parseRRule("FREQ=MONTHLY;UNTIL=20250131T120000Z").until).toEqual(new Date(Date.UTC(2025, 0, 31, 12)));
+  });
+
+  it("refuse les règles invalides", () => {
+    expect(() => parseRRule("FREQ=YEARLY")).toThrow();
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow();
+    expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20250131")).toThrow();
+    expect(() => parseRRule("FREQ=DAILY;UNTIL=31-01-2025")).toThrow();
+  });
+});
+
+describe("formatRRule", () => {
+  it("produit une règle relue à l'identique", () => {
+    const options = { freq: "WEEKLY" as const, interval: 1, until: new Date(Date.UTC(2025, 1, 3, 22, 59, 59)) };
+    expect(formatRRule(options)).toBe("FREQ=WEEKLY;INTERVAL=1;UNTIL=20250203T225959Z");
+    expect(parseRRule(formatRRule(options))).toEqual(options);
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("calcule les occurrences d'une règle COUNT", () => {
+    const occurrences = expand(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=3"));
+    expect(occurrences.map(occ => occ.occurrenceDate)).toEqual(["2025-01-06", "2025-01-13", "2025-01-20"]);
+    expect(occurrences.every(occ => occ.recurrenceId === 1 && occ.id < 0)).toBe(true);
+  });
+
+  it("décale une occurrence tombant un week-end au prochain jour travaillé", () => {
+    const [occurrence] = expand(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=1", { dtStart: new Date(2025, 0, 4, 0, 0) }));
+    expect(occurrence.occurrenceDate).toBe("2025-01-04");
+    expect(occurrence.startDate).toEqual(new Date(2025, 0, 6, 0, 0));
+  });
+
+  it("abandonne une occurrence quotidienne décalée sur l'occurrence suivante", () => {
+    const occurrences = expand(makeRecurrence("FREQ=DAILY;INTERVAL=1;COUNT=7", { dtStart: new Date(2025, 0, 9, 0, 0) }));
+    expect(occurrences.map(occ => occ.occurrenceDate)).toEqual(["2025-01-09", "2025-01-10", "2025-01-13", "2025-01-14", "2025-01-15"]);
+  });
+
+  it("ignore les occurrences annulées et applique les modifications", () => {
+    const occurrences = expand(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=3", {
+      exceptions: [
+        { occurrenceDate: "2025-01-13", cancelled: true },
+        { occurrenceDate: "2025-01-20", override: { title: "Chantier B" } },
+      ],
+    }));
+    expect(occurrences.map(occ => [occ.occurrenceDate, occ.title])).toEqual([["2025-01-06", "Chantier A"], ["2025-01-20", "Chantier B"]]);
+  });
+
+  it("ne produit aucune occurrence sans créneau travaillé dans la semaine type", () => {
+    const resting: WorkingPattern = Array.from({ length: 7 }, () => ({ morning: false, afternoon: false }));
+    expect(expand(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=3"), resting)).toEqual([]);
+  });
+});
+
+describe("getOccurrenceIndex", () => {
+  it("retourne le rang d'une occurrence, ou -1 hors de la règle", () => {
+    const recurrence = makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=3");
+    expect(getOccurrenceIndex(recurrence, "2025-01-13")).toBe(1);
+    expect(getOccurrenceIndex(recurrence, "2025-01-14")).toBe(-1);
+    expect(getOccurrenceIndex(recurrence, "2025-01-27")).toBe(-1);
+  });
+});
+
+describe("truncateRecurrence", () => {
+  it("réduit COUNT aux occurrences précédentes et retire les exceptions suivantes", () => {
+    const truncated = truncateRecurrence(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=5", {
+      exceptions: [{ occurrenceDate: "2025-01-06", cancelled: true }, { occurrenceDate: "2025-01-27", cancelled: true }],
+    }), "2025-01-20");
+    expect(truncated?.rrule).toBe("FREQ=WEEKLY;INTERVAL=1;COUNT=2");
+    expect(truncated?.exceptions).toEqual([{ occurrenceDate: "2025-01-06", cancelled: true }]);
+  });
+
+  it("borne une règle sans COUNT juste après l'occurrence précédente", () => {
+    const truncated = truncateRecurrence(makeRecurrence("FREQ=WEEKLY;INTERVAL=1"), "2025-01-20");
+    expect(parseRRule(truncated!.rrule).until).toEqual(new Date(new Date(2025, 0, 13).getTime() + 1000));
+  });
+
+  it("retourne null à partir de la première occurrence", () => {
+    expect(truncateRecurrence(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=5"), "2025-01-06")).toBeNull();
+  });
+});
+
+describe("shiftRecurrence", () => {
+  it("décale le début, les exceptions et la borne UNTIL", () => {
+    const until = new Date(2025, 0, 20, 23, 59, 59);
+    const shifted = shiftRecurrence(makeRecurrence(formatRRule({ freq: "WEEKLY", interval: 1, until }), {
+      exceptions: [{ occurrenceDate: "2025-01-13", override: { startDate: new Date(2025, 0, 14), endDate: new Date(2025, 0, 14, 12) } }],
+    }), DAY);
+    expect(shifted.dtStart).toEqual(new Date(2025, 0, 7, 0, 0));
+    expect(parseRRule(shifted.rrule).until).toEqual(new Date(until.getTime() + DAY));
+    expect(shifted.exceptions).toEqual([
+      { occurrenceDate: "2025-01-14", override: { startDate: new Date(2025, 0, 15), endDate: new Date(2025, 0, 15, 12) } },
+    ]);
+    expect(expand(shifted).map(occ => occ.occurrenceDate)).toEqual(["2025-01-07", "2025-01-14", "2025-01-21"]);
+  });
+
+  it("conserve COUNT et abandonne les exceptions hors de la règle", () => {
+    const shifted = shiftRecurrence(makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=3", {
+      exceptions: [{ occurrenceDate: "2025-01-08", cancelled: true }],
+    }), -DAY);
+    expect(shifted.rrule).toBe("FREQ=WEEKLY;INTERVAL=1;COUNT=3");
+    expect(shifted.exceptions).toEqual([]);
+  });
+});
+
+describe("getFollowingRRule", () => {
+  it("compte les occurrences restantes d'une règle COUNT", () => {
+    const recurrence = makeRecurrence("FREQ=WEEKLY;INTERVAL=1;COUNT=5");
+    expect(getFollowingRRule(recurrence, "2025-01-20")).toBe("FREQ=WEEKLY;INTERVAL=1;COUNT=3");
+  });
+
+  it("laisse une règle sans COUNT inchangée", () => {
+    const recurrence = makeRecurrence("FREQ=WEEKLY;INTERVAL=2");
+    expect(getFollowingRRule(recurrence, "2025-01-20")).toBe("FREQ=WEEKLY;INTERVAL=2");
+  });
+});
@@ -0,0 +1,252 @@
+// Fonctions utilitaires pour les récurrences (règles iCalendar RRULE)
+// Les occurrences ne sont jamais stockées : elles sont calculées sur la période affichée
+
+import { addDays, addMonths, addWeeks, format } from "date-fns";
+import { Appointment, Recurrence, TimeSlot, WorkingPattern } from "../types";
+import { getNextWorkedDay } from "./dates";
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RRuleOptions {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+}
+
+// Nombre maximal d'occurrences parcourues lors d'une expansion
+const MAX_OCCURRENCES = 10000;
+
+/**
+ * Convertit une date UNTIL iCalendar (yyyyMMdd ou yyyyMMddTHHmmssZ) en Date
+ * @param value Valeur UNTIL
+ * @returns Date correspondante, ou null si invalide
+ */
+const parseUntil = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh = "23", mm = "59", ss = "59", utc] = match;
+  return utc
+    ? new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+    : new Date(+y, +m - 1, +d, +hh, +mm, +ss);
+};
+
+/**
+ * Analyse une règle RRULE (sous-ensemble FREQ, INTERVAL, COUNT, UNTIL)
+ * @param rule Règle au format iCalendar, avec ou sans préfixe "RRULE:"
+ * @returns Options de la règle
+ * @throws Error si la règle est invalide
+ */
+export const parseRRule = (rule: string): RRuleOptions => {
+  const parts = Object.fromEntries(
+    rule.replace(/^RRULE:/i, "").split(";").filter(Boolean).map(part => {
+      const [key, value] = part.split("=");
+      return [key.toUpperCase(), value];
+    })
+  );
+
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(parts.FREQ)) {
+    throw new Error(`Fréquence non prise en charge dans la règle "${rule}"`);
+  }
+  const options: RRuleOptions = {
+    freq: parts.FREQ as RRuleFrequency,
+    interval: parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1,
+  };
+  if (!(options.interval > 0)) throw new Error(`INTERVAL invalide dans la règle "${rule}"`);
+  if (parts.COUNT) {
+    options.count = parseInt(parts.COUNT, 10);
+    if (!(options.count > 0)) throw new Error(`COUNT invalide dans la règle "${rule}"`);
+  }
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL);
+    if (!until) throw new Error(`UNTIL invalide dans la règle "${rule}"`);
+    options.until = until;
+  }
+  if (options.count && options.until) throw new Error("COUNT et UNTIL ne peuvent pas être combinés");
+  return options;
+};
+
+/**
+ * Construit une règle RRULE à partir de ses options
+ * @param options Options de la règle
+ * @returns Règle au format iCalendar (sans préfixe)
+ */
+export const formatRRule = (options: RRuleOptions): string => {
+  const parts = [`FREQ=${options.freq}`, `INTERVAL=${options.interval}`];
+  if (options.count) parts.push(`COUNT=${options.count}`);
+  if (options.until) parts.push(`UNTIL=${options.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  return parts.join(";");
+};
+
+/**
+ * Date d'origine de la n-ième occurrence (avant décalage sur un jour travaillé)
+ * @param dtStart Début de la première occurrence
+ * @param options Options de la règle
+ * @param index Rang de l'occurrence (0 pour la première)
+ */
+const getOccurrenceStart = (dtStart: Date, options: RRuleOptions, index: number): Date => {
+  const step = index * options.interval;
+  if (options.freq === "DAILY") return addDays(dtStart, step);
+  if (options.freq === "WEEKLY") return addWeeks(dtStart, step);
+  return addMonths(dtStart, step);
+};
+
+/**
+ * Clé identifiant une occurrence dans sa récurrence
+ * @param date Date d'origine de l'occurrence
+ */
+export const getOccurrenceKey = (date: Date): string => format(date, "yyyy-MM-dd");
+
+/**
+ * Identifiant (négatif) d'une occurrence calculée, stable entre deux expansions
+ * @param recurrenceId ID de la récurrence
+ * @param occurrenceStart Date d'origine de l'occurrence
+ */
+const getOccurrenceId = (recurrenceId: number, occurrenceStart: Date): number =>
+  -(recurrenceId * 100000 + Math.floor(occurrenceStart.getTime() / 86400000));
+
+/**
+ * Rang d'une occurrence dans sa récurrence
+ * @param recurrence Récurrence
+ * @param occurrenceDate Clé de l'occurrence (yyyy-MM-dd)
+ * @returns Rang de l'occurrence, ou -1 si elle n'appartient pas à la récurrence
+ */
+export const getOccurrenceIndex = (recurrence: Recurrence, occurrenceDate: string): number => {
+  const options = parseRRule(recurrence.rrule);
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    const start = getOccurrenceStart(recurrence.dtStart, options, index);
+    if ((options.count && index >= options.count) || (options.until && start > options.until)) return -1;
+    const key = getOccurrenceKey(start);
+    if (key === occurrenceDate) return index;
+    if (key > occurrenceDate) return -1;
+  }
+  return -1;
+};
+
+/**
+ * Calcule les occurrences d'une récurrence qui touchent une période donnée
+ * @param recurrence Récurrence à développer
+ * @param rangeStart Début de la période affichée
+ * @param rangeEnd Fin de la période affichée
+ * @param slots Créneaux de la journée
+ * @param nonWorkingDates Dates non travaillées
+ * @param workingPattern Semaine type de l'employé (une occurrence tombant sur un repos est décalée)
+ * @returns Occurrences sous forme de rendez-vous (avec recurrenceId et occurrenceDate)
+ */
+export const expandRecurrence = (
+  recurrence: Recurrence,
+  rangeStart: Date,
+  rangeEnd: Date,
+  slots: TimeSlot[],
+  nonWorkingDates: Date[],
+  workingPattern?: WorkingPattern
+): Appointment[] => {
+  const options = parseRRule(recurrence.rrule);
+  const exceptions = new Map(recurrence.exceptions.map(ex => [ex.occurrenceDate, ex]));
+  // Une occurrence déplacée peut venir d'une date en dehors de la période : on parcourt jusqu'à la plus tardive
+  const lastExceptionKey = recurrence.exceptions.reduce((max, ex) => ex.occurrenceDate > max ? ex.occurrenceDate : max, "");
+  const occurrences: Appointment[] = [];
+
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    if (options.count && index >= options.count) break;
+    const originalStart = getOccurrenceStart(recurrence.dtStart, options, index);
+    if (options.until && originalStart > options.until) break;
+    const key = getOccurrenceKey(originalStart);
+    if (originalStart > rangeEnd && key > lastExceptionKey) break;
+
+    const exception = exceptions.get(key);
+    if (exception?.cancelled) continue;
+
+    const startDate = getNextWorkedDay(originalStart, slots, nonWorkingDates, workingPattern);
+    if (!startDate) continue; // Aucun créneau travaillé à proximité (semaine type sans jour travaillé, longue fermeture)
+    // Une occurrence décalée ne rejoint pas la suivante : si celle-ci commence avant le jour travaillé atteint
+    // (série quotidienne sur un week-end, fermeture plus longue que l'intervalle), l'occurrence décalée est abandonnée
+    if (startDate.getTime() !== originalStart.getTime() && !exception?.override?.startDate) {
+      const next = getOccurrenceStart(recurrence.dtStart, options, index + 1);
+      const hasNext = !(options.count && index + 1 >= options.count) && !(options.until && next > options.until);
+      if (hasNext && next <= startDate) continue;
+    }
+    const occurrence: Appointment = {
+      ...recurrence.template,
+      id: getOccurrenceId(recurrence.id, originalStart),
+      startDate,
+      endDate: new Date(startDate.getTime() + recurrence.duration),
+      recurrenceId: recurrence.id,
+      occurrenceDate: key,
+      ...exception?.override,
+    };
+    if (occurrence.startDate < rangeEnd && occurrence.endDate > rangeStart) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+};
+
+/**
+ * Arrête une récurrence juste avant une occurrence (pour « cette occurrence et les suivantes »)
+ * @param recurrence Récurrence à tronquer
+ * @param occurrenceDate Clé de la première occurrence à exclure
+ * @returns Récurrence tronquée, ou null si plus aucune occurrence ne subsiste
+ */
+export const truncateRecurrence = (recurrence: Recurrence, occurrenceDate: string): Recurrence | null => {
+  const options = parseRRule(recurrence.rrule);
+  const index = getOccurrenceIndex(recurrence, occurrenceDate);
+  if (index <= 0) return null;
+
+  const lastKept = getOccurrenceStart(recurrence.dtStart, options, index - 1);
+  return {
+    ...recurrence,
+    rrule: formatRRule(options.count
+      ? { ...options, count: index }
+      : { ...options, until: new Date(lastKept.getTime() + 1000) }),
+    exceptions: recurrence.exceptions.filter(ex => ex.occurrenceDate < occurrenceDate),
+  };
+};
+
+/**
+ * Décale toute une récurrence d'un même écart, exceptions et borne UNTIL comprises (pour « toutes les occurrences »)
+ * Chaque exception suit son occurrence : sa clé devient la date décalée et ses dates modifiées sont décalées.
+ * @param recurrence Récurrence à décaler
+ * @param offset Écart en millisecondes
+ * @returns Récurrence décalée (les exceptions ne correspondant à aucune occurrence sont abandonnées)
+ */
+export const shiftRecurrence = (recurrence: Recurrence, offset: number): Recurrence => {
+  if (offset === 0) return recurrence;
+  const options = parseRRule(recurrence.rrule);
+  const dtStart = new Date(recurrence.dtStart.getTime() + offset);
+  const shift = (date: Date) => new Date(date.getTime() + offset);
+  return {
+    ...recurrence,
+    // Une borne UNTIL suit la série pour garder les mêmes occurrences ; COUNT reste inchangé
+    rrule: options.until ? formatRRule({ ...options, until: new Date(options.until.getTime() + offset) }) : recurrence.rrule,
+    dtStart,
+    exceptions: recurrence.exceptions.flatMap(ex => {
+      const index = getOccurrenceIndex(recurrence, ex.occurrenceDate);
+      if (index === -1) return [];
+      return [{
+        ...ex,
+        occurrenceDate: getOccurrenceKey(getOccurrenceStart(dtStart, options, index)),
+        ...(ex.override && {
+          override: {
+            ...ex.override,
+            ...(ex.override.startDate && { startDate: shift(ex.override.startDate) }),
+            ...(ex.override.endDate && { endDate: shift(ex.override.endDate) }),
+          },
+        }),
+      }];
+    }),
+  };
+};
+
+/**
+ * Nombre d'occurrences restantes à partir d'une occurrence (règles COUNT uniquement)
+ * @param recurrence Récurrence
+ * @param occurrenceDate Clé de l'occurrence
+ * @returns Règle à appliquer à la récurrence qui reprend à partir de cette occurrence
+ */
+export const getFollowingRRule = (recurrence: Recurrence, occurrenceDate: string): string => {
+  const options = parseRRule(recurrence.rrule);
+  if (!options.count) return recurrence.rrule;
+  const index = Math.max(0, getOccurrenceIndex(recurrence, occurrenceDate));
+  return formatRRule({ ...options, count: options.count - index });
+};
@@ -0,0 +1,32 @@
+// Sélection rectangulaire de cellules de la grille (glisser ou Maj+clic)
+// Un rectangle couvre les employés affichés entre ses deux coins et la période entre leurs créneaux
+
+import { CellSelection, GridCell } from "../types";
+
+/**
+ * Calcule la sélection délimitée par deux cellules
+ * @param anchor Cellule où la sélection a commencé
+ * @param focus Cellule où elle se termine
+ * @param employeeOrder ID des employés dans l'ordre d'affichage
+ * @returns Sélection, ou null si elle se réduit à une seule cellule (simple clic)
+ */
+export const resolveCellSelection = (anchor: GridCell, focus: GridCell, employeeOrder: number[]): CellSelection | null => {
+  if (anchor.employeeId === focus.employeeId && anchor.start.getTime() === focus.start.getTime()) return null;
+  const from = employeeOrder.indexOf(anchor.employeeId);
+  const to = employeeOrder.indexOf(focus.employeeId);
+  if (from === -1 || to === -1) return null; // Employé masqué depuis (changement de calendrier...)
+  return {
+    employeeIds: employeeOrder.slice(Math.min(from, to), Math.max(from, to) + 1),
+    start: anchor.start < focus.start ? anchor.start : focus.start,
+    end: anchor.end > focus.end ? anchor.end : focus.end,
+  };
+};
+
+/**
+ * Vérifie si une cellule fait partie de la sélection
+ * @param selection Sélection courante
+ * @param employeeId Employé de la cellule
+ * @param start Début du créneau de la cellule
+ */
+export const isCellSelected = (selection: CellSelection | null, employeeId: number, start: Date): boolean =>
+  !!selection && selection.employeeIds.includes(employeeId) && start >= selection.start && start < selection.end;
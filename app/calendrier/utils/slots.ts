@@ -0,0 +1,166 @@
+// Créneaux horaires de la journée (demi-journées par défaut, configurables par calendrier)
+// Les créneaux d'une journée sont triés et ne se chevauchent pas ; des pauses peuvent les séparer
+
+import { addDays, startOfDay } from "date-fns";
+import { TimeSlot } from "../types";
+
+/**
+ * Positionne un jour à une heure décimale (13.5 = 13h30, 24 = minuit suivant)
+ * @param day Jour
+ * @param hour Heure décimale
+ */
+const atHour = (day: Date, hour: number): Date => {
+  const date = startOfDay(day);
+  date.setHours(Math.floor(hour), Math.round((hour % 1) * 60), 0, 0);
+  return date;
+};
+
+/**
+ * Retourne le début d'un créneau pour un jour donné
+ * @param day Jour
+ * @param slot Créneau
+ */
+export const getSlotStart = (day: Date, slot: TimeSlot): Date => atHour(day, slot.startHour);
+
+/**
+ * Retourne la fin d'un créneau pour un jour donné
+ * @param day Jour
+ * @param slot Créneau
+ */
+export const getSlotEnd = (day: Date, slot: TimeSlot): Date => atHour(day, slot.endHour);
+
+/**
+ * Retourne les bornes d'un créneau désigné par son nom pour un jour donné
+ * @param day Jour
+ * @param name Nom du créneau ("day" ou nom inconnu : toute la journée travaillée)
+ * @param slots Créneaux de la journée
+ */
+export const getSlotBounds = (day: Date, name: string, slots: TimeSlot[]): { start: Date; end: Date } => {
+  const slot = slots.find(slot => slot.name === name);
+  return slot
+    ? { start: getSlotStart(day, slot), end: getSlotEnd(day, slot) }
+    : { start: getSlotStart(day, slots[0]), end: getSlotEnd(day, slots[slots.length - 1]) };
+};
+
+/**
+ * Retourne l'index du créneau contenant une date
+ * @param date Date à situer
+ * @param slots Créneaux de la journée
+ * @returns Index du créneau, ou -1 si la date tombe hors des créneaux (pause, nuit...)
+ */
+export const findSlotIndex = (date: Date, slots: TimeSlot[]): number =>
+  slots.findIndex(slot => date >= getSlotStart(date, slot) && date < getSlotEnd(date, slot));
+
+/**
+ * Retourne le créneau contenant une date
+ * @param date Date à situer
+ * @param slots Créneaux de la journée
+ * @returns Créneau, ou undefined si la date tombe hors des créneaux
+ */
+export const getSlotAt = (date: Date, slots: TimeSlot[]): TimeSlot | undefined => slots[findSlotIndex(date, slots)];
+
+/**
+ * Retourne le début du créneau contenant une date, ou du créneau suivant si elle tombe hors des créneaux
+ * @param date Date à situer
+ * @param slots Créneaux de la journée
+ */
+export const getSlotStartAt = (date: Date, slots: TimeSlot[]): Date => {
+  const slot = slots.find(slot => date < getSlotEnd(date, slot));
+  return slot ? getSlotStart(date, slot) : getSlotStart(addDays(date, 1), slots[0]);
+};
+
+/**
+ * Retourne la fin du créneau contenant une date, ou du créneau suivant si elle tombe hors des créneaux
+ * @param date Date à situer
+ * @param slots Créneaux de la journée
+ */
+export const getSlotEndAt = (date: Date, slots: TimeSlot[]): Date => {
+  const start = getSlotStartAt(date, slots);
+  return getSlotEnd(start, slots[findSlotIndex(start, slots)]);
+};
+
+/**
+ * Retourne la fin du dernier créneau commencé avant une date (fin de rendez-vous alignée sur les créneaux)
+ * @param date Fin à aligner
+ * @param slots Créneaux de la journée
+ */
+export const getSlotEndBefore = (date: Date, slots: TimeSlot[]): Date => {
+  const slot = [...slots].reverse().find(slot => getSlotStart(date, slot) < date);
+  return slot ? getSlotEnd(date, slot) : getSlotEnd(addDays(date, -1), slots[slots.length - 1]);
+};
+
+/**
+ * Avance ou recule de n créneaux à partir du créneau contenant une date
+ * @param date Date de départ (hors créneau : le créneau suivant sert de départ)
+ * @param n Nombre de créneaux (négatif pour reculer)
+ * @param slots Créneaux de la journée
+ * @returns Début du créneau atteint
+ */
+export const addSlots = (date: Date, n: number, slots: TimeSlot[]): Date => {
+  const from = getSlotStartAt(date, slots);
+  const index = findSlotIndex(from, slots) + n;
+  const day = addDays(startOfDay(from), Math.floor(index / slots.length));
+  return getSlotStart(day, slots[((index % slots.length) + slots.length) % slots.length]);
+};
+
+/**
+ * Compte les créneaux séparant deux dates (négatif si la seconde précède la première)
+ * @param from Date de départ
+ * @param to Date d'arrivée
+ * @param slots Créneaux de la journée
+ */
+export const getSlotDistance = (from: Date, to: Date, slots: TimeSlot[]): number => {
+  const start = getSlotStartAt(from, slots);
+  const end = getSlotStartAt(to, slots);
+  return end >= start ? eachSlot(start, end, slots).length : -eachSlot(end, start, slots).length;
+};
+
+/**
+ * Décale une date de n créneaux en conservant sa position dans le créneau
+ * (limitée à la fin du créneau atteint s'il est plus court)
+ * @param date Date à décaler
+ * @param n Nombre de créneaux (négatif pour reculer)
+ * @param slots Créneaux de la journée
+ * @param isEnd La date est une fin exclue (le créneau de référence est celui qui la précède)
+ */
+export const shiftBySlots = (date: Date, n: number, slots: TimeSlot[], isEnd = false): Date => {
+  const from = getSlotStartAt(isEnd ? new Date(date.getTime() - 1) : date, slots);
+  const to = addSlots(from, n, slots);
+  const offset = date.getTime() - from.getTime();
+  return new Date(Math.min(to.getTime() + offset, getSlotEndAt(to, slots).getTime()));
+};
+
+/**
+ * Retourne le début des créneaux qui recoupent une période
+ * @param start Début de la période
+ * @param end Fin de la période (exclue)
+ * @param slots Créneaux de la journée
+ */
+export const eachSlot = (start: Date, end: Date, slots: TimeSlot[]): Date[] => {
+  const starts: Date[] = [];
+  for (let day = startOfDay(start); day < end; day = addDays(day, 1)) {
+    slots.forEach(slot => {
+      const slotStart = getSlotStart(day, slot);
+      if (slotStart < end && getSlotEnd(day, slot) > start) starts.push(slotStart);
+    });
+  }
+  return starts;
+};
+
+/**
+ * Retourne un créneau unique couvrant toute la journée travaillée (affichage en journées complètes)
+ * @param slots Créneaux de la journée
+ */
+export const toDaySlot = (slots: TimeSlot[]): TimeSlot => ({
+  name: "day",
+  label: "Journée",
+  startHour: slots[0].startHour,
+  endHour: slots[slots.length - 1].endHour,
+});
+
+/**
+ * Formate une heure décimale (13.5 → "13:30")
+ * @param hour Heure décimale
+ */
+export const formatSlotHour = (hour: number): string =>
+  `${String(Math.floor(hour)).padStart(2, "0")}:${String(Math.round((hour % 1) * 60)).padStart(2, "0")}`;
@@ -0,0 +1,181 @@
+// Solveur de planning : couvre les besoins en personnel des chantiers sur les créneaux travaillés libres
+// Contraintes : disponibilité (créneau libre, jour travaillé, semaine type), contrat et règles de planification ;
+// à contraintes égales sont préférés l'employé déjà sur le chantier, puis le moins chargé, puis celui dont l'équipe y travaille
+
+import { format } from "date-fns";
+import { Appointment, CatalogItem, Employee, StaffingNeed, StaffingProposal, StaffingResult, StaffingShortage, TimeSlot } from "../types";
+import { isAppointmentWorkedDay, isWorkedDay } from "./dates";
+import { isUnderContract } from "./contracts";
+import { eachSlot, getSlotEndAt } from "./slots";
+
+// Pénalités retirées du score de couverture (sur 100)
+export const SWITCH_PENALTY = 2; // Par changement de chantier
+export const SPREAD_PENALTY = 1; // Par créneau d'écart de charge
+export const WARNING_PENALTY = 5; // Par proposition enfreignant une règle d'avertissement
+
+/**
+ * Options du solveur
+ */
+export interface StaffingOptions {
+  slots: TimeSlot[];
+  chantiers: CatalogItem[]; // Catalogue des chantiers (image des rendez-vous proposés)
+  nonWorkingDates: Date[]; // Dates non travaillées du calendrier (fériés compris) : aucun besoin ces jours-là
+  nonWorkingDatesOf: (employeeId: number) => Date[];
+  evaluate: (candidate: Appointment, planning: Appointment[]) => { block: string | null; warn: string | null }; // Règles de planification
+}
+
+/**
+ * Propose des affectations de chantier couvrant les besoins en personnel sur une période
+ * Les créneaux sont traités dans l'ordre chronologique ; sur chaque créneau, les employés déjà sur un chantier
+ * y sont reconduits d'abord, puis les besoins restants sont couverts par les employés libres les mieux classés.
+ * Un candidat refusé par une règle bloquante est écarté au profit du suivant.
+ * @param needs Besoins en personnel
+ * @param employees Employés candidats (dans l'ordre d'affichage)
+ * @param planning Rendez-vous existants (occurrences de récurrence comprises)
+ * @param start Début de la période
+ * @param end Fin de la période (exclue)
+ * @param options Créneaux, catalogue, jours non travaillés et règles
+ * @returns Rendez-vous proposés (créneaux consécutifs regroupés), créneaux non couverts et détail du score
+ */
+export const solveStaffing = (
+  needs: StaffingNeed[],
+  employees: Employee[],
+  planning: Appointment[],
+  start: Date,
+  end: Date,
+  { slots, chantiers, nonWorkingDates, nonWorkingDatesOf, evaluate }: StaffingOptions
+): StaffingResult => {
+  const employeeIds = new Set(employees.map(emp => emp.id));
+  const existing = planning.filter(app => employeeIds.has(Number(app.employeeId)) && app.startDate < end && app.endDate > start);
+  const pieces: Appointment[] = []; // Affectations retenues, une par créneau
+  const pieceWarnings = new Map<number, string>();
+  const load = new Map<number, number>(); // Créneaux proposés par employé disponible
+  const lastChantier = new Map<number, string>(); // Dernier chantier de chaque employé (planning ou proposition)
+  const shortages: StaffingShortage[] = [];
+  let needed = 0;
+  let covered = 0;
+  let switches = 0;
+
+  eachSlot(start, end, slots).forEach(slotStart => {
+    const slotEnd = getSlotEndAt(slotStart, slots);
+    // Rendez-vous occupant le créneau, par employé (jours sautés selon la politique du rendez-vous)
+    const busy = new Map<number, Appointment>();
+    existing.forEach(app => {
+      const employeeId = Number(app.employeeId);
+      const workingPattern = employees.find(emp => emp.id === employeeId)?.workingPattern;
+      if (app.startDate < slotEnd && app.endDate > slotStart
+        && isAppointmentWorkedDay(slotStart, app, slots, nonWorkingDatesOf(employeeId), workingPattern)) {
+        busy.set(employeeId, app);
+      }
+    });
+
+    const key = format(slotStart, "yyyy-MM-dd");
+    const demand = new Map<string, number>();
+    if (isWorkedDay(slotStart, slots, nonWorkingDates)) {
+      needs.filter(need => need.start <= key && key <= need.end)
+        .forEach(need => demand.set(need.chantier, (demand.get(need.chantier) ?? 0) + need.headcount));
+    }
+
+    // Employés affectés au chantier sur ce créneau (planning existant puis proposition)
+    const staffed = new Map<string, Employee[]>();
+    employees.forEach(emp => {
+      const app = busy.get(emp.id);
+      if (app?.type === "Chantier") staffed.set(app.title, [...(staffed.get(app.title) ?? []), emp]);
+    });
+    demand.forEach((count, chantier) => {
+      needed += count;
+      covered += Math.min(count, staffed.get(chantier)?.length ?? 0);
+    });
+
+    const free = employees.filter(emp => !busy.has(emp.id)
+      && isUnderContract(emp, slotStart)
+      && isWorkedDay(slotStart, slots, nonWorkingDatesOf(emp.id), emp.workingPattern));
+    if (demand.size > 0) free.forEach(emp => load.set(emp.id, load.get(emp.id) ?? 0));
+
+    const missing = (chantier: string) => (demand.get(chantier) ?? 0) - (staffed.get(chantier)?.length ?? 0);
+    const assign = (emp: Employee, chantier: string): boolean => {
+      const candidate: Appointment = {
+        id: -(pieces.length + 1),
+        title: chantier,
+        description: "Proposition du solveur de planning",
+        startDate: slotStart,
+        endDate: slotEnd,
+        imageUrl: chantiers.find(item => item.label === chantier)?.imageUrl,
+        employeeId: emp.id,
+        type: "Chantier",
+      };
+      const { block, warn } = evaluate(candidate, existing.concat(pieces));
+      if (block) return false;
+      pieces.push(candidate);
+      if (warn) pieceWarnings.set(candidate.id, warn);
+      if (lastChantier.has(emp.id) && lastChantier.get(emp.id) !== chantier) switches++;
+      lastChantier.set(emp.id, chantier);
+      load.set(emp.id, (load.get(emp.id) ?? 0) + 1);
+      staffed.set(chantier, [...(staffed.get(chantier) ?? []), emp]);
+      free.splice(free.indexOf(emp), 1);
+      return true;
+    };
+
+    // Continuité : les employés libres restent sur leur dernier chantier s'il manque du monde
+    [...free].forEach(emp => {
+      const chantier = lastChantier.get(emp.id);
+      if (chantier && missing(chantier) > 0) assign(emp, chantier);
+    });
+    // Besoins restants, les plus importants d'abord : charge la plus faible, puis équipe déjà présente sur le chantier
+    [...demand.keys()].sort((a, b) => missing(b) - missing(a)).forEach(chantier => {
+      const teams = new Set((staffed.get(chantier) ?? []).map(emp => emp.groupId));
+      const ranked = [...free].sort((a, b) =>
+        (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0)
+        || Number(teams.has(b.groupId)) - Number(teams.has(a.groupId)));
+      for (const emp of ranked) {
+        if (missing(chantier) <= 0) break;
+        assign(emp, chantier);
+      }
+      if (missing(chantier) > 0) shortages.push({ chantier, date: slotStart, missing: missing(chantier) });
+    });
+
+    busy.forEach((app, employeeId) => {
+      if (app.type === "Chantier") lastChantier.set(employeeId, app.title);
+    });
+  });
+
+  // Regroupe les créneaux consécutifs d'un employé sur un même chantier (jours non travaillés sautés)
+  const proposals: StaffingProposal[] = [];
+  const current = new Map<number, StaffingProposal>(); // Dernière proposition de chaque employé
+  pieces.forEach(piece => {
+    const employeeId = Number(piece.employeeId);
+    const workingPattern = employees.find(emp => emp.id === employeeId)?.workingPattern;
+    const warn = pieceWarnings.get(piece.id) ?? null;
+    const last = current.get(employeeId);
+    if (last && last.appointment.title === piece.title
+      && eachSlot(last.appointment.endDate, piece.startDate, slots)
+        .every(slot => !isWorkedDay(slot, slots, nonWorkingDatesOf(employeeId), workingPattern))) {
+      last.appointment = { ...last.appointment, endDate: piece.endDate };
+      last.slots++;
+      last.warn = [...new Set([last.warn, warn].filter(Boolean))].join(", ") || null;
+      return;
+    }
+    const proposal = { appointment: { ...piece, id: -(proposals.length + 1) }, slots: 1, warn };
+    proposals.push(proposal);
+    current.set(employeeId, proposal);
+  });
+
+  const loads = [...load.values()];
+  const spread = loads.length > 0 ? Math.max(...loads) - Math.min(...loads) : 0;
+  const warnings = proposals.filter(proposal => proposal.warn).length;
+  const coverage = needed > 0 ? (covered + pieces.length) / needed : 1;
+  return {
+    proposals,
+    shortages,
+    score: {
+      needed,
+      covered,
+      proposed: pieces.length,
+      switches,
+      spread,
+      warnings,
+      total: Math.max(0, Math.round(100 * coverage - SWITCH_PENALTY * switches - SPREAD_PENALTY * spread - WARNING_PENALTY * warnings)),
+    },
+  };
+};
+
@@ -0,0 +1,39 @@
+// Échange des plannings de deux employés sur une période (par type de rendez-vous)
+
+import { Appointment } from "../types";
+
+/**
+ * Sélectionne les rendez-vous à échanger : ceux des deux employés, des types choisis, commençant dans la période
+ * Un rendez-vous qui déborde de la période est échangé en entier.
+ * @param appointments Rendez-vous disponibles (occurrences de récurrence comprises)
+ * @param firstId Premier employé
+ * @param secondId Second employé
+ * @param start Début de la période
+ * @param end Fin de la période (exclue)
+ * @param types Types de rendez-vous échangés
+ */
+export const getSwapAppointments = (
+  appointments: Appointment[],
+  firstId: number,
+  secondId: number,
+  start: Date,
+  end: Date,
+  types: Appointment["type"][]
+): Appointment[] =>
+  appointments.filter(app =>
+    [firstId, secondId].includes(Number(app.employeeId))
+    && types.includes(app.type)
+    && app.startDate >= start
+    && app.startDate < end
+  );
+
+/**
+ * Affecte un rendez-vous à l'autre employé de l'échange
+ * @param app Rendez-vous de l'un des deux employés
+ * @param firstId Premier employé
+ * @param secondId Second employé
+ */
+export const swapEmployee = (app: Appointment, firstId: number, secondId: number): Appointment => ({
+  ...app,
+  employeeId: Number(app.employeeId) === firstId ? secondId : firstId,
+});
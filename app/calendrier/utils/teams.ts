@@ -0,0 +1,38 @@
+// Regroupement des employés par équipe, dans l'ordre d'affichage de la grille
+
+import { Employee, Groupe } from "../types";
+
+/**
+ * Regroupe les employés par équipe en fonction de leur `groupId` et du calendrier sélectionné.
+ *
+ * - Pour chaque équipe, ajoute une propriété `employees` contenant les employés dont le `groupId`
+ *   correspond à l'identifiant de l'équipe et dont le `calendarId` contient le calendrier sélectionné.
+ * - Ajoute une équipe spéciale "Sans équipe" pour les employés qui n'ont pas de `groupId`
+ *   ou dont le `groupId` ne correspond à aucune équipe existante.
+ * - Retourne uniquement les équipes qui ont au moins un employé.
+ *
+ * @param employees La liste complète des employés.
+ * @param teams La liste des équipes.
+ * @param selectedCalendarId L'identifiant du calendrier sélectionné.
+ * @returns Un tableau d'équipes, chacune contenant ses employés associés.
+ */
+export const groupEmployeesByTeam = (employees: Employee[], teams: Groupe[], selectedCalendarId: number): (Groupe & { employees: Employee[] })[] => {
+  const grouped = teams.map(team => ({
+    ...team,
+    employees: employees.filter(emp => emp.groupId === team.id && emp.calendarId.includes(selectedCalendarId))
+  }));
+
+  // Ajoute une "équipe" spéciale pour les employés sans team
+  const noTeamEmployees = employees.filter(emp =>
+    !emp.groupId || !teams.some(team => team.id === emp.groupId)
+  );
+  if (noTeamEmployees.length > 0) {
+    grouped.push({
+      id: -1,
+      name: "Sans équipe",
+      employees: noTeamEmployees,
+    });
+  }
+
+  return grouped.filter(team => team.employees.length > 0);
+};
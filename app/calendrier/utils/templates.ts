@@ -0,0 +1,73 @@
+// Modèles de planning : affectations relatives (jour depuis le début du modèle, ligne d'employé)
+// Un modèle est enregistré depuis une sélection de la grille, puis appliqué à une date et à des employés
+
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import { Appointment, CellSelection, PlanningTemplate, TemplateAssignment } from "../types";
+
+// Heure décimale d'une date (13h30 = 13.5 ; minuit de fin de journée = 24 pour le jour précédent)
+const toDecimalHour = (date: Date): number => date.getHours() + date.getMinutes() / 60;
+
+/**
+ * Positionne une date à un jour du modèle et à une heure décimale
+ * @param start Premier jour du modèle
+ * @param day Jour compté depuis le premier jour
+ * @param hour Heure décimale
+ */
+const atTemplateHour = (start: Date, day: number, hour: number): Date => {
+  const date = addDays(startOfDay(start), day);
+  date.setHours(Math.floor(hour), Math.round((hour % 1) * 60), 0, 0);
+  return date;
+};
+
+/**
+ * Construit les affectations d'un modèle à partir des rendez-vous d'une sélection rectangulaire
+ * Chaque employé sélectionné devient une ligne ; seuls les rendez-vous commençant dans la sélection sont repris.
+ * @param selection Sélection de la grille (employés dans l'ordre d'affichage)
+ * @param appointments Rendez-vous affichés
+ * @returns Affectations relatives au premier jour de la sélection
+ */
+export const getTemplateAssignments = (selection: CellSelection, appointments: Appointment[]): TemplateAssignment[] => {
+  const firstDay = startOfDay(selection.start);
+  return appointments
+    .filter(app => selection.employeeIds.includes(Number(app.employeeId))
+      && app.startDate >= selection.start && app.startDate < selection.end)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+    .map(app => {
+      // Une fin à minuit termine la journée précédente
+      const endsAtMidnight = app.endDate.getTime() === startOfDay(app.endDate).getTime();
+      return {
+        row: selection.employeeIds.indexOf(Number(app.employeeId)),
+        day: differenceInCalendarDays(app.startDate, firstDay),
+        startHour: toDecimalHour(app.startDate),
+        endDay: differenceInCalendarDays(app.endDate, firstDay) - (endsAtMidnight ? 1 : 0),
+        endHour: endsAtMidnight ? 24 : toDecimalHour(app.endDate),
+        title: app.title,
+        libelle: app.libelle,
+        imageUrl: app.imageUrl,
+        type: app.type,
+        weekendPolicy: app.weekendPolicy,
+        holidayPolicy: app.holidayPolicy,
+      };
+    });
+};
+
+/**
+ * Calcule les rendez-vous créés par un modèle
+ * @param template Modèle de planning
+ * @param start Premier jour d'application
+ * @param employeeIds Employé affecté à chaque ligne (undefined : ligne ignorée)
+ * @returns Rendez-vous à créer (id 0)
+ */
+export const instantiateTemplate = (template: PlanningTemplate, start: Date, employeeIds: (number | undefined)[]): Appointment[] =>
+  template.assignments.flatMap(({ row, day, startHour, endDay, endHour, ...item }) => {
+    const employeeId = employeeIds[row];
+    if (employeeId === undefined) return [];
+    return [{
+      ...item,
+      id: 0,
+      description: `Modèle ${template.name}`,
+      startDate: atTemplateHour(start, day, startHour),
+      endDate: atTemplateHour(start, endDay, endHour),
+      employeeId,
+    }];
+  });
@@ -0,0 +1,116 @@
+// Niveaux de zoom de la grille (heures, créneaux, jours, semaines, mois)
+// Une échelle décrit les colonnes affichées, les créneaux de chaque colonne et le pas des déplacements
+
+import { addDays, addMonths, addWeeks, eachDayOfInterval, isWeekend, startOfMonth, startOfWeek } from "date-fns";
+import { TimeSlot, ZoomLevel } from "../types";
+import { CELL_WIDTH, HOUR_CELL_WIDTH, MONTH_CELL_WIDTH, WEEK_CELL_WIDTH } from "./constants";
+import { addSlots, eachSlot, getSlotEnd, getSlotEndAt, getSlotStart, getSlotStartAt, toDaySlot } from "./slots";
+
+export interface ZoomScale {
+  level: ZoomLevel;
+  aggregated: boolean; // Colonnes d'une semaine ou d'un mois : les rendez-vous sont des barres proportionnelles
+  intervals: TimeSlot[]; // Créneaux affichés dans chaque colonne
+  slots: TimeSlot[]; // Créneaux de saisie (heures en zoom horaire, créneaux du calendrier sinon)
+  columnWidth: number; // Largeur d'une colonne (px)
+  getColumns: (days: Date[]) => Date[]; // Début des colonnes couvrant les jours de la frise
+  getColumnEnd: (column: Date) => Date; // Fin (exclue) d'une colonne
+  getIntervalBounds: (column: Date, interval: TimeSlot) => { start: Date; end: Date }; // Période couverte par une cellule
+  addUnits: (date: Date, n: number) => Date; // Début de l'unité (créneau affiché ou période) atteinte après n unités
+  getUnitEnd: (date: Date) => Date; // Fin de l'unité contenant une date
+  getSpan: (start: Date, end: Date) => number; // Nombre d'unités couvertes (fractionnaire en semaines / mois)
+}
+
+/**
+ * Découpe les créneaux d'un calendrier en créneaux d'une heure (les bornes non entières sont conservées)
+ * @param slots Créneaux de la journée
+ */
+export const toHourSlots = (slots: TimeSlot[]): TimeSlot[] =>
+  slots.flatMap(slot => {
+    const hours: TimeSlot[] = [];
+    for (let hour = slot.startHour; hour < slot.endHour; hour = Math.floor(hour) + 1) {
+      const endHour = Math.min(Math.floor(hour) + 1, slot.endHour);
+      hours.push({ name: `${slot.name}@${hour}`, label: `${Math.floor(hour)}h`, startHour: hour, endHour });
+    }
+    return hours;
+  });
+
+/**
+ * Construit l'échelle de la grille pour un niveau de zoom
+ * - heures, créneaux, jours : une colonne par jour, découpée en créneaux affichés ;
+ * - semaines, mois : une colonne par période, les rendez-vous y occupent une largeur proportionnelle
+ *   à leurs créneaux affichés.
+ * @param level Niveau de zoom
+ * @param slots Créneaux du calendrier
+ * @param includeWeekend Week-ends affichés (sinon sautés lors des déplacements et non comptés)
+ */
+export const createZoomScale = (level: ZoomLevel, slots: TimeSlot[], includeWeekend: boolean): ZoomScale => {
+  const isVisible = (date: Date) => includeWeekend || !isWeekend(date);
+
+  if (level === "week" || level === "month") {
+    const periodStart = (date: Date) => level === "week" ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+    const periodEnd = (start: Date) => level === "week" ? addWeeks(start, 1) : addMonths(start, 1);
+    const visibleDays = (start: Date) =>
+      eachDayOfInterval({ start, end: addDays(periodEnd(start), -1) }).filter(isVisible);
+    const daySlot = toDaySlot(slots);
+
+    return {
+      level,
+      aggregated: true,
+      intervals: [{ ...daySlot, name: level, label: level === "week" ? "Semaine" : "Mois" }],
+      slots,
+      columnWidth: level === "week" ? WEEK_CELL_WIDTH : MONTH_CELL_WIDTH,
+      getColumns: (days) => [...new Map(days.map(day => {
+        const start = periodStart(day);
+        return [start.getTime(), start] as const;
+      })).values()],
+      getColumnEnd: periodEnd,
+      getIntervalBounds: (column, interval) => ({
+        start: getSlotStart(column, interval),
+        end: getSlotEnd(addDays(periodEnd(column), -1), interval),
+      }),
+      // Début de la période atteinte (premier créneau de son premier jour)
+      addUnits: (date, n) => {
+        const start = periodStart(date);
+        return getSlotStart(level === "week" ? addWeeks(start, n) : addMonths(start, n), slots[0]);
+      },
+      // Fin du dernier jour affiché de la période
+      getUnitEnd: (date) => {
+        const days = visibleDays(periodStart(date));
+        return getSlotEnd(days[days.length - 1] ?? addDays(periodEnd(periodStart(date)), -1), daySlot);
+      },
+      // Fraction de période : chaque créneau affiché compte pour 1 / (créneaux affichés de sa période)
+      getSpan: (start, end) => {
+        const perPeriod = new Map<number, number>();
+        return eachSlot(start, end, slots).filter(isVisible).reduce((span, slot) => {
+          const key = periodStart(slot).getTime();
+          if (!perPeriod.has(key)) perPeriod.set(key, Math.max(1, visibleDays(periodStart(slot)).length * slots.length));
+          return span + 1 / perPeriod.get(key)!;
+        }, 0);
+      },
+    };
+  }
+
+  const intervals = level === "hour" ? toHourSlots(slots) : level === "day" ? [toDaySlot(slots)] : slots;
+  return {
+    level,
+    aggregated: false,
+    intervals,
+    slots: level === "hour" ? intervals : slots,
+    columnWidth: level === "hour" ? intervals.length * HOUR_CELL_WIDTH : CELL_WIDTH,
+    getColumns: (days) => days,
+    getColumnEnd: (column) => addDays(column, 1),
+    getIntervalBounds: (column, interval) => ({ start: getSlotStart(column, interval), end: getSlotEnd(column, interval) }),
+    // Avance de n créneaux affichés en sautant les week-ends masqués
+    addUnits: (date, n) => {
+      let next = getSlotStartAt(date, intervals);
+      const step = n >= 0 ? 1 : -1;
+      for (let remaining = Math.abs(n); remaining > 0; remaining--) {
+        next = addSlots(next, step, intervals);
+        while (!isVisible(next)) next = addSlots(next, step, intervals);
+      }
+      return next;
+    },
+    getUnitEnd: (date) => getSlotEndAt(date, intervals),
+    getSpan: (start, end) => eachSlot(start, end, intervals).filter(isVisible).length,
+  };
+};
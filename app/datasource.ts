@@ -1,4 +1,4 @@
-import { Appointment, Employee, Groupe } from './calendrier/types/index';
+import { Appointment, Calendar, Employee, Groupe } from './calendrier/types/index';
 
 
 export const initialTeams: Groupe[] = [
@@ -8,7 +8,7 @@ export const initialTeams: Groupe[] = [
     { name: 'Team D', id: 4}
 ];
 
-export const calendars = [
+export const calendars: Calendar[] = [
   { id: 1, name: "BOUTIQUE"},
   { id: 2, name: "CENTRELEC"},
   { id: 3, name: "CONFORT HABITAT"},